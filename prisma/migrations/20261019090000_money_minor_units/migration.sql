@@ -0,0 +1,8 @@
+-- Convert naira floats to integer kobo
+-- AlterTable
+ALTER TABLE "Wallet" ALTER COLUMN "balance" DROP DEFAULT,
+ALTER COLUMN "balance" SET DATA TYPE BIGINT USING ROUND("balance" * 100)::BIGINT,
+ALTER COLUMN "balance" SET DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Transaction" ALTER COLUMN "amount" SET DATA TYPE BIGINT USING ROUND("amount" * 100)::BIGINT;
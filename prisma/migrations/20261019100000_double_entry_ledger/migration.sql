@@ -0,0 +1,102 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "journalId" TEXT;
+
+-- CreateTable
+CREATE TABLE "LedgerAccount" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "walletId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerAccount_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LedgerJournal" (
+    "id" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "description" TEXT,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerJournal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LedgerEntry" (
+    "id" TEXT NOT NULL,
+    "journalId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "direction" TEXT NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Transaction_journalId_idx" ON "Transaction"("journalId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerAccount_code_key" ON "LedgerAccount"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerAccount_walletId_key" ON "LedgerAccount"("walletId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LedgerJournal_reference_key" ON "LedgerJournal"("reference");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_journalId_idx" ON "LedgerEntry"("journalId");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_accountId_idx" ON "LedgerEntry"("accountId");
+
+-- AddForeignKey
+ALTER TABLE "Transaction" ADD CONSTRAINT "Transaction_journalId_fkey" FOREIGN KEY ("journalId") REFERENCES "LedgerJournal"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerAccount" ADD CONSTRAINT "LedgerAccount_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "Wallet"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_journalId_fkey" FOREIGN KEY ("journalId") REFERENCES "LedgerJournal"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LedgerEntry" ADD CONSTRAINT "LedgerEntry_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "LedgerAccount"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Transaction amounts are unsigned; the type carries the direction
+UPDATE "Transaction" SET "amount" = ABS("amount") WHERE "amount" < 0;
+
+-- Seed system accounts
+INSERT INTO "LedgerAccount" ("id", "code", "name", "type") VALUES
+    (gen_random_uuid()::TEXT, 'paystack_clearing', 'Paystack clearing', 'asset'),
+    (gen_random_uuid()::TEXT, 'fees_revenue', 'Fees revenue', 'revenue'),
+    (gen_random_uuid()::TEXT, 'opening_balance', 'Opening balances', 'equity');
+
+-- One liability account per existing wallet
+INSERT INTO "LedgerAccount" ("id", "code", "name", "type", "walletId")
+SELECT gen_random_uuid()::TEXT, 'wallet:' || w."id", 'Wallet ' || w."walletNumber", 'liability', w."id"
+FROM "Wallet" w;
+
+-- Carry existing balances over as opening balance journals
+INSERT INTO "LedgerJournal" ("id", "reference", "type", "description")
+SELECT gen_random_uuid()::TEXT, 'opening_' || w."id", 'opening_balance', 'Opening balance migrated from Wallet.balance'
+FROM "Wallet" w
+WHERE w."balance" <> 0;
+
+INSERT INTO "LedgerEntry" ("id", "journalId", "accountId", "direction", "amount")
+SELECT gen_random_uuid()::TEXT, j."id", a."id",
+    CASE WHEN w."balance" > 0 THEN 'credit' ELSE 'debit' END, ABS(w."balance")
+FROM "Wallet" w
+JOIN "LedgerJournal" j ON j."reference" = 'opening_' || w."id"
+JOIN "LedgerAccount" a ON a."walletId" = w."id";
+
+INSERT INTO "LedgerEntry" ("id", "journalId", "accountId", "direction", "amount")
+SELECT gen_random_uuid()::TEXT, j."id", ob."id",
+    CASE WHEN w."balance" > 0 THEN 'debit' ELSE 'credit' END, ABS(w."balance")
+FROM "Wallet" w
+JOIN "LedgerJournal" j ON j."reference" = 'opening_' || w."id"
+JOIN "LedgerAccount" ob ON ob."code" = 'opening_balance';
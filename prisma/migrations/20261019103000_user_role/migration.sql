@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "role" TEXT NOT NULL DEFAULT 'user';
+
+-- Admin access now comes from the user's role, not an API key permission
+UPDATE "ApiKey" SET "permissions" = array_remove("permissions", 'admin');
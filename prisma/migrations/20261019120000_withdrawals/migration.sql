@@ -0,0 +1,62 @@
+-- CreateTable
+CREATE TABLE "TransferRecipient" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "recipientCode" TEXT NOT NULL,
+    "bankCode" TEXT NOT NULL,
+    "bankName" TEXT,
+    "accountNumber" TEXT NOT NULL,
+    "accountName" TEXT NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'NGN',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TransferRecipient_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Withdrawal" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "recipientId" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "status" TEXT NOT NULL,
+    "transferCode" TEXT,
+    "reason" TEXT,
+    "failureReason" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Withdrawal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TransferRecipient_recipientCode_key" ON "TransferRecipient"("recipientCode");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TransferRecipient_userId_bankCode_accountNumber_key" ON "TransferRecipient"("userId", "bankCode", "accountNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Withdrawal_reference_key" ON "Withdrawal"("reference");
+
+-- CreateIndex
+CREATE INDEX "Withdrawal_userId_idx" ON "Withdrawal"("userId");
+
+-- CreateIndex
+CREATE INDEX "Withdrawal_status_idx" ON "Withdrawal"("status");
+
+-- AddForeignKey
+ALTER TABLE "TransferRecipient" ADD CONSTRAINT "TransferRecipient_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Withdrawal" ADD CONSTRAINT "Withdrawal_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Withdrawal" ADD CONSTRAINT "Withdrawal_recipientId_fkey" FOREIGN KEY ("recipientId") REFERENCES "TransferRecipient"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Seed the payouts clearing account
+INSERT INTO "LedgerAccount" ("id", "code", "name", "type")
+VALUES (gen_random_uuid()::TEXT, 'payouts_pending', 'Payouts pending', 'liability')
+ON CONFLICT ("code") DO NOTHING;
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "Transaction_userId_createdAt_idx" ON "Transaction"("userId", "createdAt");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "currency" TEXT NOT NULL DEFAULT 'NGN',
+ADD COLUMN     "receivedAmount" BIGINT,
+ADD COLUMN     "receivedCurrency" TEXT;
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "TransactionStatusTransition" (
+    "id" TEXT NOT NULL,
+    "transactionId" TEXT NOT NULL,
+    "fromStatus" TEXT NOT NULL,
+    "toStatus" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TransactionStatusTransition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TransactionStatusTransition_transactionId_idx" ON "TransactionStatusTransition"("transactionId");
+
+-- AddForeignKey
+ALTER TABLE "TransactionStatusTransition" ADD CONSTRAINT "TransactionStatusTransition_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "Transaction"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,43 @@
+-- CreateTable
+CREATE TABLE "Refund" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "depositId" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "paystackRefundId" TEXT,
+    "amount" BIGINT NOT NULL,
+    "status" TEXT NOT NULL,
+    "reason" TEXT,
+    "failureReason" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Refund_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Refund_reference_key" ON "Refund"("reference");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Refund_paystackRefundId_key" ON "Refund"("paystackRefundId");
+
+-- CreateIndex
+CREATE INDEX "Refund_userId_idx" ON "Refund"("userId");
+
+-- CreateIndex
+CREATE INDEX "Refund_depositId_idx" ON "Refund"("depositId");
+
+-- CreateIndex
+CREATE INDEX "Refund_status_idx" ON "Refund"("status");
+
+-- AddForeignKey
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Refund" ADD CONSTRAINT "Refund_depositId_fkey" FOREIGN KEY ("depositId") REFERENCES "Transaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Seed the refunds clearing account
+INSERT INTO "LedgerAccount" ("id", "code", "name", "type")
+VALUES (gen_random_uuid()::TEXT, 'refunds_pending', 'Refunds pending', 'liability')
+ON CONFLICT ("code") DO NOTHING;
@@ -0,0 +1,67 @@
+-- AlterTable
+ALTER TABLE "Wallet" ADD COLUMN     "heldBalance" BIGINT NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "WalletHold" (
+    "id" TEXT NOT NULL,
+    "walletId" TEXT NOT NULL,
+    "reference" TEXT NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "status" TEXT NOT NULL,
+    "reason" TEXT,
+    "releasedAt" TIMESTAMP(3),
+    "capturedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WalletHold_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Dispute" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "depositId" TEXT NOT NULL,
+    "paystackDisputeId" TEXT NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "heldAmount" BIGINT NOT NULL,
+    "uncollectedAmount" BIGINT NOT NULL DEFAULT 0,
+    "holdReference" TEXT,
+    "status" TEXT NOT NULL,
+    "paystackStatus" TEXT,
+    "resolution" TEXT,
+    "evidence" JSONB,
+    "dueAt" TIMESTAMP(3),
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Dispute_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WalletHold_reference_key" ON "WalletHold"("reference");
+
+-- CreateIndex
+CREATE INDEX "WalletHold_walletId_status_idx" ON "WalletHold"("walletId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Dispute_paystackDisputeId_key" ON "Dispute"("paystackDisputeId");
+
+-- CreateIndex
+CREATE INDEX "Dispute_userId_idx" ON "Dispute"("userId");
+
+-- CreateIndex
+CREATE INDEX "Dispute_depositId_idx" ON "Dispute"("depositId");
+
+-- CreateIndex
+CREATE INDEX "Dispute_status_idx" ON "Dispute"("status");
+
+-- AddForeignKey
+ALTER TABLE "WalletHold" ADD CONSTRAINT "WalletHold_walletId_fkey" FOREIGN KEY ("walletId") REFERENCES "Wallet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Dispute" ADD CONSTRAINT "Dispute_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Dispute" ADD CONSTRAINT "Dispute_depositId_fkey" FOREIGN KEY ("depositId") REFERENCES "Transaction"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "WalletHold" ADD COLUMN     "capturedAmount" BIGINT,
+ADD COLUMN     "expiresAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "WalletHold_status_expiresAt_idx" ON "WalletHold"("status", "expiresAt");
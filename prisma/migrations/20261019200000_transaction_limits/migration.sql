@@ -0,0 +1,56 @@
+-- AlterTable
+ALTER TABLE "Wallet" ADD COLUMN     "tier" TEXT NOT NULL DEFAULT 'tier_1';
+
+-- CreateTable
+CREATE TABLE "TierLimit" (
+    "id" TEXT NOT NULL,
+    "tier" TEXT NOT NULL,
+    "operation" TEXT NOT NULL,
+    "perTransaction" BIGINT,
+    "daily" BIGINT,
+    "monthly" BIGINT,
+    "velocityCount" INTEGER,
+    "velocityWindowSeconds" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TierLimit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "UserLimitOverride" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "operation" TEXT NOT NULL,
+    "perTransaction" BIGINT,
+    "daily" BIGINT,
+    "monthly" BIGINT,
+    "velocityCount" INTEGER,
+    "velocityWindowSeconds" INTEGER,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "UserLimitOverride_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TierLimit_tier_operation_key" ON "TierLimit"("tier", "operation");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "UserLimitOverride_userId_operation_key" ON "UserLimitOverride"("userId", "operation");
+
+-- AddForeignKey
+ALTER TABLE "UserLimitOverride" ADD CONSTRAINT "UserLimitOverride_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Seed default limits (kobo): NGN 50k/200k/1m for tier 1, 500k/2m/20m for
+-- tier 2, 5m/25m/250m for tier 3; at most 10 operations a minute
+INSERT INTO "TierLimit" ("id", "tier", "operation", "perTransaction", "daily", "monthly", "velocityCount", "velocityWindowSeconds", "updatedAt")
+VALUES
+    (gen_random_uuid()::TEXT, 'tier_1', 'transfer', 5000000, 20000000, 100000000, 10, 60, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'tier_1', 'deposit', 5000000, 20000000, 100000000, 10, 60, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'tier_2', 'transfer', 50000000, 200000000, 2000000000, 10, 60, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'tier_2', 'deposit', 50000000, 200000000, 2000000000, 10, 60, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'tier_3', 'transfer', 500000000, 2500000000, 25000000000, 10, 60, CURRENT_TIMESTAMP),
+    (gen_random_uuid()::TEXT, 'tier_3', 'deposit', 500000000, 2500000000, 25000000000, 10, 60, CURRENT_TIMESTAMP)
+ON CONFLICT ("tier", "operation") DO NOTHING;
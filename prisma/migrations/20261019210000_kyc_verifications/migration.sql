@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "KycVerification" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "tier" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "provider" TEXT NOT NULL,
+    "providerReference" TEXT,
+    "failureReason" TEXT,
+    "reviewNotes" TEXT,
+    "reviewedBy" TEXT,
+    "reviewedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "KycVerification_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "KycVerification_userId_idx" ON "KycVerification"("userId");
+
+-- CreateIndex
+CREATE INDEX "KycVerification_status_idx" ON "KycVerification"("status");
+
+-- AddForeignKey
+ALTER TABLE "KycVerification" ADD CONSTRAINT "KycVerification_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN     "fee" BIGINT NOT NULL DEFAULT 0,
+ADD COLUMN     "processorFee" BIGINT;
+
+-- CreateTable
+CREATE TABLE "FeeSchedule" (
+    "operation" TEXT NOT NULL,
+    "flatFee" BIGINT NOT NULL DEFAULT 0,
+    "percentageBps" INTEGER NOT NULL DEFAULT 0,
+    "capAmount" BIGINT,
+    "bands" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FeeSchedule_pkey" PRIMARY KEY ("operation")
+);
+
+-- Seed the Paystack fee expense account
+INSERT INTO "LedgerAccount" ("id", "code", "name", "type")
+VALUES (gen_random_uuid()::TEXT, 'processor_fees', 'Payment processor fees', 'expense')
+ON CONFLICT ("code") DO NOTHING;
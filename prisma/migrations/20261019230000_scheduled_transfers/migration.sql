@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "ScheduledTransfer" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "toWalletNumber" TEXT NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "frequency" TEXT NOT NULL,
+    "description" TEXT,
+    "status" TEXT NOT NULL,
+    "startAt" TIMESTAMP(3) NOT NULL,
+    "endAt" TIMESTAMP(3),
+    "nextOccurrenceAt" TIMESTAMP(3),
+    "nextRunAt" TIMESTAMP(3),
+    "attempt" INTEGER NOT NULL DEFAULT 0,
+    "maxRetries" INTEGER NOT NULL DEFAULT 3,
+    "retryIntervalMinutes" INTEGER NOT NULL DEFAULT 60,
+    "lastRunAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ScheduledTransfer_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ScheduledTransferRun" (
+    "id" TEXT NOT NULL,
+    "scheduledTransferId" TEXT NOT NULL,
+    "occurrenceAt" TIMESTAMP(3) NOT NULL,
+    "attempt" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "transferReference" TEXT,
+    "failureReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ScheduledTransferRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ScheduledTransfer_userId_idx" ON "ScheduledTransfer"("userId");
+
+-- CreateIndex
+CREATE INDEX "ScheduledTransfer_status_nextRunAt_idx" ON "ScheduledTransfer"("status", "nextRunAt");
+
+-- CreateIndex
+CREATE INDEX "ScheduledTransferRun_scheduledTransferId_createdAt_idx" ON "ScheduledTransferRun"("scheduledTransferId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ScheduledTransfer" ADD CONSTRAINT "ScheduledTransfer_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ScheduledTransferRun" ADD CONSTRAINT "ScheduledTransferRun_scheduledTransferId_fkey" FOREIGN KEY ("scheduledTransferId") REFERENCES "ScheduledTransfer"("id") ON DELETE CASCADE ON UPDATE CASCADE;
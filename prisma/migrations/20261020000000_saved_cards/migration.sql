@@ -0,0 +1,54 @@
+-- CreateTable
+CREATE TABLE "SavedCard" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "authorizationCode" TEXT NOT NULL,
+    "signature" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "last4" TEXT NOT NULL,
+    "expMonth" TEXT NOT NULL,
+    "expYear" TEXT NOT NULL,
+    "cardType" TEXT,
+    "brand" TEXT,
+    "bank" TEXT,
+    "countryCode" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SavedCard_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "AutoTopUpRule" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "cardId" TEXT NOT NULL,
+    "threshold" BIGINT NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "failureCount" INTEGER NOT NULL DEFAULT 0,
+    "lastTriggeredAt" TIMESTAMP(3),
+    "lastReference" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AutoTopUpRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SavedCard_userId_signature_key" ON "SavedCard"("userId", "signature");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AutoTopUpRule_userId_key" ON "AutoTopUpRule"("userId");
+
+-- CreateIndex
+CREATE INDEX "AutoTopUpRule_enabled_idx" ON "AutoTopUpRule"("enabled");
+
+-- AddForeignKey
+ALTER TABLE "SavedCard" ADD CONSTRAINT "SavedCard_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AutoTopUpRule" ADD CONSTRAINT "AutoTopUpRule_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AutoTopUpRule" ADD CONSTRAINT "AutoTopUpRule_cardId_fkey" FOREIGN KEY ("cardId") REFERENCES "SavedCard"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "PaymentRequest" (
+    "id" TEXT NOT NULL,
+    "requesterId" TEXT NOT NULL,
+    "payerId" TEXT NOT NULL,
+    "payerWalletNumber" TEXT NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "memo" TEXT,
+    "status" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "transferReference" TEXT,
+    "declineReason" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaymentRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PaymentRequest_requesterId_createdAt_idx" ON "PaymentRequest"("requesterId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "PaymentRequest_payerId_status_idx" ON "PaymentRequest"("payerId", "status");
+
+-- CreateIndex
+CREATE INDEX "PaymentRequest_status_expiresAt_idx" ON "PaymentRequest"("status", "expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "PaymentRequest" ADD CONSTRAINT "PaymentRequest_requesterId_fkey" FOREIGN KEY ("requesterId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PaymentRequest" ADD CONSTRAINT "PaymentRequest_payerId_fkey" FOREIGN KEY ("payerId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,45 @@
+-- CreateTable
+CREATE TABLE "TransferBatch" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "mode" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "totalAmount" BIGINT NOT NULL,
+    "totalFee" BIGINT NOT NULL DEFAULT 0,
+    "successCount" INTEGER NOT NULL DEFAULT 0,
+    "failedCount" INTEGER NOT NULL DEFAULT 0,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TransferBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TransferBatchItem" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "row" INTEGER NOT NULL,
+    "walletNumber" TEXT NOT NULL,
+    "amount" BIGINT,
+    "fee" BIGINT NOT NULL DEFAULT 0,
+    "description" TEXT,
+    "status" TEXT NOT NULL,
+    "reference" TEXT,
+    "failureReason" TEXT,
+
+    CONSTRAINT "TransferBatchItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TransferBatch_userId_createdAt_idx" ON "TransferBatch"("userId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "TransferBatchItem_batchId_row_idx" ON "TransferBatchItem"("batchId", "row");
+
+-- AddForeignKey
+ALTER TABLE "TransferBatch" ADD CONSTRAINT "TransferBatch_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TransferBatchItem" ADD CONSTRAINT "TransferBatchItem_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "TransferBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "TransferReversal" (
+    "id" TEXT NOT NULL,
+    "transferReference" TEXT NOT NULL,
+    "recipientReference" TEXT NOT NULL,
+    "senderUserId" TEXT NOT NULL,
+    "recipientUserId" TEXT NOT NULL,
+    "amount" BIGINT NOT NULL,
+    "recoveredAmount" BIGINT NOT NULL DEFAULT 0,
+    "outstandingAmount" BIGINT NOT NULL DEFAULT 0,
+    "shortfallMode" TEXT,
+    "status" TEXT NOT NULL,
+    "holdReference" TEXT,
+    "collectionAttempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3),
+    "feeRefunded" BOOLEAN NOT NULL DEFAULT false,
+    "reason" TEXT NOT NULL,
+    "adminId" TEXT NOT NULL,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TransferReversal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TransferReversal_transferReference_key" ON "TransferReversal"("transferReference");
+
+-- CreateIndex
+CREATE INDEX "TransferReversal_status_nextAttemptAt_idx" ON "TransferReversal"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "TransferReversal_senderUserId_idx" ON "TransferReversal"("senderUserId");
+
+-- CreateIndex
+CREATE INDEX "TransferReversal_recipientUserId_idx" ON "TransferReversal"("recipientUserId");
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Transaction" ADD COLUMN "lastReconciledAt" TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX "Transaction_type_status_createdAt_idx" ON "Transaction"("type", "status", "createdAt");
+
+-- CreateTable
+CREATE TABLE "ReconciliationReport" (
+    "id" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL,
+    "paystackCount" INTEGER NOT NULL DEFAULT 0,
+    "localCount" INTEGER NOT NULL DEFAULT 0,
+    "mismatchCount" INTEGER NOT NULL DEFAULT 0,
+    "mismatches" JSONB,
+    "failureReason" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReconciliationReport_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReconciliationReport_periodStart_key" ON "ReconciliationReport"("periodStart");
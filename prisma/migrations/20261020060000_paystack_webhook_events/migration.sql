@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "PaystackWebhookEvent" (
+    "id" TEXT NOT NULL,
+    "eventKey" TEXT NOT NULL,
+    "event" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "note" TEXT,
+    "nextAttemptAt" TIMESTAMP(3),
+    "processedAt" TIMESTAMP(3),
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PaystackWebhookEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaystackWebhookEvent_eventKey_key" ON "PaystackWebhookEvent"("eventKey");
+
+-- CreateIndex
+CREATE INDEX "PaystackWebhookEvent_status_nextAttemptAt_idx" ON "PaystackWebhookEvent"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "PaystackWebhookEvent_event_idx" ON "PaystackWebhookEvent"("event");
+
+-- CreateIndex
+CREATE INDEX "PaystackWebhookEvent_receivedAt_idx" ON "PaystackWebhookEvent"("receivedAt");
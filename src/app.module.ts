@@ -1,10 +1,25 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { ApiKeyModule } from './modules/api-key/api-key.module';
 import { AuthModule } from './modules/auth/auth.module';
 import { WalletModule } from './modules/wallet/wallet.module';
+import { LedgerModule } from './modules/ledger/ledger.module';
+import { WithdrawalModule } from './modules/withdrawal/withdrawal.module';
+import { RefundModule } from './modules/refund/refund.module';
+import { DisputeModule } from './modules/dispute/dispute.module';
+import { LimitsModule } from './modules/limits/limits.module';
+import { KycModule } from './modules/kyc/kyc.module';
+import { FeesModule } from './modules/fees/fees.module';
+import { ScheduledTransferModule } from './modules/scheduled-transfer/scheduled-transfer.module';
+import { SubscriptionModule } from './modules/subscription/subscription.module';
+import { PaymentRequestModule } from './modules/payment-request/payment-request.module';
+import { ReversalModule } from './modules/reversal/reversal.module';
+import { ReconciliationModule } from './modules/reconciliation/reconciliation.module';
+import { WebhookEndpointModule } from './modules/webhook-endpoint/webhook-endpoint.module';
+import { WebhookModule } from './modules/webhook/webhook.module';
 import appConfig from './config/app.config';
 
 @Module({
@@ -13,9 +28,24 @@ import appConfig from './config/app.config';
       isGlobal: true,
       load: [appConfig],
     }),
+    ScheduleModule.forRoot(),
     ApiKeyModule,
     AuthModule,
     WalletModule,
+    LedgerModule,
+    WithdrawalModule,
+    RefundModule,
+    DisputeModule,
+    LimitsModule,
+    KycModule,
+    FeesModule,
+    ScheduledTransferModule,
+    SubscriptionModule,
+    PaymentRequestModule,
+    ReversalModule,
+    ReconciliationModule,
+    WebhookEndpointModule,
+    WebhookModule,
   ],
   controllers: [AppController],
   providers: [AppService],
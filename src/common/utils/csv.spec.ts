@@ -0,0 +1,37 @@
+import { parseCsv, toCsvRow } from './csv';
+
+describe('csv utils', () => {
+  describe('parseCsv', () => {
+    it('splits rows and fields', () => {
+      expect(parseCsv('a,b,c\n1,2,3\n')).toEqual([
+        ['a', 'b', 'c'],
+        ['1', '2', '3'],
+      ]);
+    });
+
+    it('handles CRLF, a byte order mark and a missing final newline', () => {
+      expect(parseCsv('\uFEFFa,b\r\n1,2')).toEqual([
+        ['a', 'b'],
+        ['1', '2'],
+      ]);
+    });
+
+    it('unquotes fields with commas, quotes and newlines', () => {
+      expect(parseCsv('"x, y","say ""hi""","two\nlines"\n')).toEqual([
+        ['x, y', 'say "hi"', 'two\nlines'],
+      ]);
+    });
+
+    it('keeps empty fields and drops blank lines', () => {
+      expect(parseCsv('a,,c\n\n,\n')).toEqual([
+        ['a', '', 'c'],
+        ['', ''],
+      ]);
+    });
+
+    it('reads back what toCsvRow writes', () => {
+      const values = ['plain', 'with,comma', 'with "quote"', ''];
+      expect(parseCsv(toCsvRow(values))).toEqual([values]);
+    });
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Serializes one CSV row, quoting fields that contain commas, quotes or newlines
+ * @param values - Field values in column order
+ * @returns Row terminated with CRLF
+ */
+export function toCsvRow(
+  values: (string | number | null | undefined)[],
+): string {
+  return (
+    values
+      .map((value) => {
+        const field = value === null || value === undefined ? '' : `${value}`;
+        return /[",\r\n]/.test(field)
+          ? `"${field.replace(/"/g, '""')}"`
+          : field;
+      })
+      .join(',') + '\r\n'
+  );
+}
+
+/**
+ * Parses CSV text into rows of fields. Handles quoted fields (with escaped
+ * quotes and embedded commas or newlines), CRLF or LF line endings and a
+ * leading byte order mark; blank lines are dropped.
+ * @param text - CSV document
+ * @returns Rows in file order
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
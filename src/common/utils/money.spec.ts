@@ -0,0 +1,58 @@
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { DepositDto } from '../../modules/wallet/dto/deposit.dto';
+import {
+  formatDecimal,
+  MAX_MINOR_UNITS,
+  formatMinorUnits,
+  toMinorUnits,
+  toMoneyResponse,
+} from './money';
+
+describe('money utils', () => {
+  describe('toMinorUnits', () => {
+    it('accepts integer numbers, strings and bigints', () => {
+      expect(toMinorUnits(500000)).toBe(500000n);
+      expect(toMinorUnits('1250')).toBe(1250n);
+      expect(toMinorUnits(42n)).toBe(42n);
+    });
+
+    it('rejects fractional amounts', () => {
+      expect(() => toMinorUnits(10.5)).toThrow();
+      expect(() => toMinorUnits('10.50')).toThrow();
+    });
+
+    it('accepts every amount a DTO lets through', async () => {
+      expect(toMinorUnits(MAX_MINOR_UNITS)).toBe(9007199254740991n);
+      expect(() => toMinorUnits(MAX_MINOR_UNITS + 1)).toThrow();
+
+      const errors = await validate(
+        plainToInstance(DepositDto, { amount: MAX_MINOR_UNITS + 1 }),
+      );
+      expect(errors.map((error) => error.property)).toEqual(['amount']);
+    });
+  });
+
+  describe('formatDecimal', () => {
+    it('formats kobo as a plain naira decimal', () => {
+      expect(formatDecimal(500050n)).toBe('5000.50');
+      expect(formatDecimal(-7n)).toBe('-0.07');
+    });
+  });
+
+  describe('formatMinorUnits', () => {
+    it('formats kobo as naira with grouping', () => {
+      expect(formatMinorUnits(123456789n)).toBe('NGN 1,234,567.89');
+      expect(formatMinorUnits(5n)).toBe('NGN 0.05');
+      expect(formatMinorUnits(-250n)).toBe('-NGN 2.50');
+    });
+  });
+
+  it('builds the API money shape', () => {
+    expect(toMoneyResponse(500000n)).toEqual({
+      amount: 500000,
+      currency: 'NGN',
+      formatted: 'NGN 5,000.00',
+    });
+  });
+});
@@ -0,0 +1,76 @@
+export const DEFAULT_CURRENCY = 'NGN';
+
+// Largest amount in kobo a request may carry. Beyond it a JSON number loses
+// precision and toMinorUnits rejects it, so DTOs cap amounts here for a 400.
+export const MAX_MINOR_UNITS = Number.MAX_SAFE_INTEGER;
+
+// Also stored in JSON columns, which only accept type aliases
+export type MoneyResponse = {
+  amount: number; // minor units (kobo)
+  currency: string;
+  formatted: string;
+};
+
+/**
+ * Normalizes an amount in minor units (kobo) to a bigint
+ * @param value - Integer amount in minor units (e.g. Paystack `amount` fields)
+ * @returns Amount as bigint
+ */
+export function toMinorUnits(value: number | string | bigint): bigint {
+  if (typeof value === 'bigint') {
+    return value;
+  }
+
+  if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value)) {
+      throw new Error(`Invalid minor unit amount: ${value}`);
+    }
+    return BigInt(value);
+  }
+
+  if (!/^-?\d+$/.test(value.trim())) {
+    throw new Error(`Invalid minor unit amount: ${value}`);
+  }
+  return BigInt(value.trim());
+}
+
+/**
+ * Formats an amount in minor units as a plain decimal (e.g. 500050n -> "5000.50")
+ * @param amount - Amount in minor units
+ */
+export function formatDecimal(amount: bigint): string {
+  const negative = amount < 0n;
+  const absolute = negative ? -amount : amount;
+  const minor = (absolute % 100n).toString().padStart(2, '0');
+  return `${negative ? '-' : ''}${absolute / 100n}.${minor}`;
+}
+
+/**
+ * Formats an amount in minor units for display (e.g. 500050n -> "NGN 5,000.50")
+ * @param amount - Amount in minor units
+ * @param currency - ISO currency code
+ */
+export function formatMinorUnits(
+  amount: bigint,
+  currency: string = DEFAULT_CURRENCY,
+): string {
+  const negative = amount < 0n;
+  const [major, minor] = formatDecimal(negative ? -amount : amount).split('.');
+  const grouped = major.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  return `${negative ? '-' : ''}${currency} ${grouped}.${minor}`;
+}
+
+/**
+ * Builds the money shape returned by the API. This is the only place
+ * amounts leave bigint form.
+ */
+export function toMoneyResponse(
+  amount: bigint,
+  currency: string = DEFAULT_CURRENCY,
+): MoneyResponse {
+  return {
+    amount: Number(amount),
+    currency,
+    formatted: formatMinorUnits(amount, currency),
+  };
+}
@@ -0,0 +1,13 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Whether a Prisma call failed on a unique constraint, e.g. after losing a
+ * race to insert the same key
+ * @param error - Whatever the call threw
+ */
+export function isUniqueViolation(error: unknown): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === 'P2002'
+  );
+}
@@ -0,0 +1,42 @@
+/**
+ * Minimal in-memory cache whose entries expire after a fixed time-to-live.
+ * Per process only; fine for data that is cheap to refetch.
+ */
+export class TtlCache<V> {
+  private readonly entries = new Map<string, { value: V; expiresAt: number }>();
+
+  /**
+   * @param ttlMs - Lifetime of each entry in milliseconds
+   * @param maxEntries - Oldest entries are evicted beyond this size
+   */
+  constructor(
+    private readonly ttlMs: number,
+    private readonly maxEntries = 1000,
+  ) {}
+
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  set(key: string, value: V): void {
+    if (this.entries.size >= this.maxEntries && !this.entries.has(key)) {
+      // Maps iterate in insertion order, so the first key is the oldest
+      const oldest = this.entries.keys().next();
+      if (!oldest.done) {
+        this.entries.delete(oldest.value);
+      }
+    }
+
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+  }
+}
@@ -0,0 +1,15 @@
+// What a Paystack webhook handler did with an event
+export interface WebhookHandlerResult {
+  status: boolean;
+  message?: string;
+  // The event is about a deposit, withdrawal or refund we have no record of
+  unknownReference?: boolean;
+}
+
+// Such an event would fail the same way on every retry, so the event store
+// closes it as ignored. Errors a handler throws are still retried.
+export const unknownReference = (message: string): WebhookHandlerResult => ({
+  status: true,
+  message,
+  unknownReference: true,
+});
@@ -0,0 +1,29 @@
+import * as crypto from 'crypto';
+import { signWebhookPayload } from './webhook-signature';
+
+describe('signWebhookPayload', () => {
+  const secret = 'whsec_test';
+  const body = '{"event":"deposit.succeeded"}';
+  const timestamp = 1792368000;
+
+  it('signs the timestamp and body with HMAC-SHA256', () => {
+    const expected = crypto
+      .createHmac('sha256', secret)
+      .update(`${timestamp}.${body}`)
+      .digest('hex');
+
+    expect(signWebhookPayload(secret, timestamp, body)).toBe(expected);
+  });
+
+  it('changes with the timestamp, body and secret', () => {
+    const signature = signWebhookPayload(secret, timestamp, body);
+
+    expect(signWebhookPayload(secret, timestamp + 1, body)).not.toBe(signature);
+    expect(signWebhookPayload(secret, timestamp, `${body} `)).not.toBe(
+      signature,
+    );
+    expect(signWebhookPayload('whsec_other', timestamp, body)).not.toBe(
+      signature,
+    );
+  });
+});
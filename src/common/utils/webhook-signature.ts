@@ -0,0 +1,20 @@
+import * as crypto from 'crypto';
+
+/**
+ * Signs an outbound webhook body. The timestamp is part of the signed
+ * content so a captured delivery can't be replayed later with a new one.
+ * @param secret - The endpoint's signing secret
+ * @param timestamp - Unix time in seconds, sent in the timestamp header
+ * @param body - The exact JSON body being sent
+ * @returns Hex HMAC-SHA256 of `${timestamp}.${body}`
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
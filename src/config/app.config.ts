@@ -12,6 +12,12 @@ export interface AppConfig {
   databaseUrl: string;
   paystackSecretKey: string;
   paystackcallbackUrl: string;
+  idempotencyKeyTtlHours: number;
+  bankListCacheTtlSeconds: number;
+  accountResolveCacheTtlSeconds: number;
+  holdDefaultTtlSeconds: number;
+  depositTtlMinutes: number;
+  kycVerifier: string;
 }
 
 const parseCorsOrigins = (origins: string | undefined): string[] | boolean => {
@@ -36,4 +42,14 @@ export default registerAs<AppConfig>('app', () => ({
   paystackcallbackUrl:
     process.env.PAYSTACK_CALLBACK_URL ??
     'http://localhost:3000/wallet/paystack/callback',
+  idempotencyKeyTtlHours: Number(process.env.IDEMPOTENCY_KEY_TTL_HOURS ?? 24),
+  bankListCacheTtlSeconds: Number(
+    process.env.BANK_LIST_CACHE_TTL_SECONDS ?? 86400,
+  ),
+  accountResolveCacheTtlSeconds: Number(
+    process.env.ACCOUNT_RESOLVE_CACHE_TTL_SECONDS ?? 600,
+  ),
+  holdDefaultTtlSeconds: Number(process.env.HOLD_DEFAULT_TTL_SECONDS ?? 604800),
+  depositTtlMinutes: Number(process.env.DEPOSIT_TTL_MINUTES ?? 1440),
+  kycVerifier: process.env.KYC_VERIFIER || 'manual',
 }));
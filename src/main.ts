@@ -31,6 +31,7 @@ async function bootstrap() {
       'Authorization',
       'Accept',
       'X-Requested-With',
+      'Idempotency-Key',
     ],
   });
 
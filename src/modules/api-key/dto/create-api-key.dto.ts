@@ -11,10 +11,10 @@ import { ApiProperty } from '@nestjs/swagger';
 export const VALID_PERMISSIONS = [
   'deposit',
   'transfer',
+  'withdraw',
   'read',
   'write',
   'delete',
-  'admin',
 ];
 
 export class CreateApiKeyDto {
@@ -1,5 +1,11 @@
 import { createParamDecorator, ExecutionContext } from '@nestjs/common';
 
+// What JwtStrategy and ApiKeyGuard attach to the request
+export interface AuthenticatedUser {
+  id: string;
+  email: string;
+}
+
 export const GetUser = createParamDecorator(
   (data: unknown, ctx: ExecutionContext) => {
     const request = ctx.switchToHttp().getRequest();
@@ -0,0 +1,37 @@
+import {
+  Injectable,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+} from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
+import { AuthenticatedUser } from '../decorators/get-user.decorator';
+
+// Lets through only users whose role is admin. Runs after JwtAuthGuard and
+// ApiKeyGuard; the role is read from the database, never from the token or
+// the key, so it can only be granted server-side.
+@Injectable()
+export class AdminGuard extends PrismaClient implements CanActivate {
+  constructor() {
+    super();
+  }
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const request = context
+      .switchToHttp()
+      .getRequest<{ user?: AuthenticatedUser }>();
+
+    const user = request.user?.id
+      ? await this.user.findUnique({
+          where: { id: request.user.id },
+          select: { role: true },
+        })
+      : null;
+
+    if (user?.role !== 'admin') {
+      throw new ForbiddenException('Admin access required');
+    }
+
+    return true;
+  }
+}
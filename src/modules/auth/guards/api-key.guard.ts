@@ -23,9 +23,10 @@ export class ApiKeyGuard extends PrismaClient implements CanActivate {
 
   async canActivate(context: ExecutionContext): Promise<boolean> {
     const request = context.switchToHttp().getRequest();
-    const requiredPermissions = this.reflector.get<string[]>(
+    // Handler permissions win over ones declared on the controller
+    const requiredPermissions = this.reflector.getAllAndOverride<string[]>(
       PERMISSIONS_KEY,
-      context.getHandler(),
+      [context.getHandler(), context.getClass()],
     );
 
     // Check for API key in headers
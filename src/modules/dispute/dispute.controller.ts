@@ -0,0 +1,56 @@
+import { Controller, Post, Get, UseGuards, Body, Param } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiParam,
+} from '@nestjs/swagger';
+import { DisputeService } from './dispute.service';
+import { DisputeEvidenceDto } from './dto/dispute-evidence.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { buildSuccessResponse } from 'src/common/utils/api-response';
+
+@ApiTags('Disputes')
+@ApiBearerAuth()
+@ApiSecurity('api_key', ['x-api-key'])
+@Controller('disputes')
+@UseGuards(JwtAuthGuard, ApiKeyGuard, AdminGuard)
+export class DisputeController {
+  constructor(private readonly disputeService: DisputeService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List chargebacks and disputes' })
+  @ApiResponse({ status: 200, description: 'Disputes retrieved' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+  })
+  async getDisputes() {
+    const result = await this.disputeService.getDisputes();
+    return buildSuccessResponse('Disputes retrieved', result);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a dispute' })
+  @ApiResponse({ status: 200, description: 'Dispute retrieved' })
+  @ApiResponse({ status: 404, description: 'Dispute not found' })
+  @ApiParam({ name: 'id', description: 'Dispute ID' })
+  async getDispute(@Param('id') id: string) {
+    const result = await this.disputeService.getDispute(id);
+    return buildSuccessResponse('Dispute retrieved', result);
+  }
+
+  @Post(':id/evidence')
+  @ApiOperation({ summary: 'Submit evidence for a dispute to Paystack' })
+  @ApiResponse({ status: 200, description: 'Evidence submitted' })
+  @ApiResponse({ status: 404, description: 'Dispute not found' })
+  @ApiParam({ name: 'id', description: 'Dispute ID' })
+  async addEvidence(@Param('id') id: string, @Body() dto: DisputeEvidenceDto) {
+    const result = await this.disputeService.addEvidence(id, dto);
+    return buildSuccessResponse('Evidence submitted', result);
+  }
+}
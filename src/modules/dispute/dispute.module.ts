@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { DisputeController } from './dispute.controller';
+import { DisputeService } from './dispute.service';
+import { LedgerModule } from '../ledger/ledger.module';
+import { PaystackModule } from '../paystack/paystack.module';
+import { HoldModule } from '../hold/hold.module';
+
+@Module({
+  imports: [LedgerModule, PaystackModule, HoldModule],
+  controllers: [DisputeController],
+  providers: [DisputeService],
+  exports: [DisputeService],
+})
+export class DisputeModule {}
@@ -0,0 +1,320 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { toMinorUnits, toMoneyResponse } from '../../common/utils/money';
+import { unknownReference } from '../../common/utils/webhook-result';
+import { LedgerService } from '../ledger/ledger.service';
+import { JOURNAL_TYPES, LEDGER_ACCOUNTS } from '../ledger/ledger.constants';
+import { PaystackService } from '../paystack/paystack.service';
+import { PaystackDispute } from '../paystack/paystack.types';
+import { HoldService } from '../hold/hold.service';
+import { DisputeEvidenceDto } from './dto/dispute-evidence.dto';
+
+// Paystack resolution when the merchant accepts and the customer is refunded
+const LOST_RESOLUTION = 'merchant-accepted';
+
+type DisputeWithDeposit = Prisma.DisputeGetPayload<{
+  include: { deposit: true };
+}>;
+
+@Injectable()
+export class DisputeService extends PrismaClient {
+  constructor(
+    private ledgerService: LedgerService,
+    private paystackService: PaystackService,
+    private holdService: HoldService,
+  ) {
+    super();
+  }
+
+  // ==================== WEBHOOK OPERATIONS ====================
+
+  // Handle Paystack charge.dispute.* webhook events (IDEMPOTENT)
+  async handleDisputeEvent(event: string, data: PaystackDispute) {
+    // null when the deposit or dispute the event is about isn't ours
+    let applied: boolean | null;
+    switch (event) {
+      case 'charge.dispute.create':
+        applied = await this.open(data);
+        break;
+      case 'charge.dispute.remind':
+        applied = await this.remind(data);
+        break;
+      case 'charge.dispute.resolve':
+        applied = await this.resolve(data);
+        break;
+      default:
+        return { status: true, message: 'Event ignored' };
+    }
+
+    if (applied === null) {
+      return unknownReference(
+        event === 'charge.dispute.create'
+          ? 'Deposit not found'
+          : 'Dispute not found',
+      );
+    }
+
+    return applied
+      ? { status: true }
+      : { status: true, message: 'Already processed' };
+  }
+
+  // Record the dispute and freeze the disputed amount in the wallet. Money
+  // the user already spent leaves the wallet short: credits that arrive
+  // later stay frozen until the hold is covered.
+  private async open(data: PaystackDispute): Promise<boolean | null> {
+    const paystackDisputeId = String(data.id);
+
+    const existing = await this.dispute.findUnique({
+      where: { paystackDisputeId },
+    });
+
+    if (existing) {
+      return false;
+    }
+
+    const deposit = await this.transaction.findUnique({
+      where: { reference: data.transaction?.reference },
+    });
+
+    if (!deposit || deposit.type !== 'deposit') {
+      return null;
+    }
+
+    const amount = toMinorUnits(data.refund_amount ?? data.transaction.amount);
+    const holdReference = `dsp_${paystackDisputeId}`;
+
+    return this.$transaction(async (tx: Prisma.TransactionClient) => {
+      const wallet = await tx.wallet.findUnique({
+        where: { userId: deposit.userId },
+      });
+
+      if (!wallet) {
+        throw new NotFoundException('Wallet not found');
+      }
+
+      if (amount > 0n) {
+        await this.holdService.place(tx, {
+          walletId: wallet.id,
+          reference: holdReference,
+          amount,
+          reason: `Dispute on deposit ${deposit.reference}`,
+          allowShortfall: true,
+        });
+      }
+
+      await tx.dispute.create({
+        data: {
+          userId: deposit.userId,
+          depositId: deposit.id,
+          paystackDisputeId,
+          amount,
+          heldAmount: amount,
+          holdReference: amount > 0n ? holdReference : null,
+          status: 'open',
+          paystackStatus: data.status,
+          dueAt: data.due_at ? new Date(data.due_at) : null,
+        },
+      });
+
+      return true;
+    });
+  }
+
+  // Paystack reminds us the response deadline is near
+  private async remind(data: PaystackDispute): Promise<boolean> {
+    const updated = await this.dispute.updateMany({
+      where: { paystackDisputeId: String(data.id), status: 'open' },
+      data: {
+        paystackStatus: data.status,
+        dueAt: data.due_at ? new Date(data.due_at) : undefined,
+      },
+    });
+
+    if (updated.count > 0) {
+      console.warn(
+        `Dispute ${data.id} awaiting response, due ${data.due_at ?? 'soon'}`,
+      );
+    }
+
+    return updated.count > 0;
+  }
+
+  // Won: release the hold. Lost: debit the held funds, which Paystack has
+  // already taken back from our settlement. If the wallet still can't
+  // cover the hold, what it lacks is recorded as uncollected.
+  private async resolve(data: PaystackDispute): Promise<boolean | null> {
+    const dispute = await this.dispute.findUnique({
+      where: { paystackDisputeId: String(data.id) },
+      include: { deposit: true },
+    });
+
+    if (!dispute) {
+      return null;
+    }
+
+    const lost = data.resolution === LOST_RESOLUTION;
+
+    return this.$transaction(async (tx: Prisma.TransactionClient) => {
+      const claimed = await tx.dispute.updateMany({
+        where: { id: dispute.id, status: 'open' },
+        data: {
+          status: lost ? 'lost' : 'won',
+          paystackStatus: data.status,
+          resolution: data.resolution,
+          resolvedAt: new Date(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      if (!dispute.holdReference) {
+        if (lost) {
+          await tx.dispute.update({
+            where: { id: dispute.id },
+            data: { uncollectedAmount: dispute.amount },
+          });
+        }
+        return true;
+      }
+
+      if (!lost) {
+        await this.holdService.release(tx, dispute.holdReference);
+        return true;
+      }
+
+      // Locked so the balance can't change before the debit below
+      const [wallet] = await tx.$queryRaw<
+        { balance: bigint; heldBalance: bigint }[]
+      >`SELECT "balance", "heldBalance" FROM "Wallet" WHERE "userId" = ${dispute.userId} FOR UPDATE`;
+
+      if (!wallet) {
+        throw new NotFoundException('Wallet not found');
+      }
+
+      // The balance left once the other holds are covered
+      const coverable =
+        wallet.balance - (wallet.heldBalance - dispute.heldAmount);
+      const collected =
+        coverable >= dispute.heldAmount
+          ? dispute.heldAmount
+          : coverable > 0n
+            ? coverable
+            : 0n;
+
+      await tx.dispute.update({
+        where: { id: dispute.id },
+        data: { uncollectedAmount: dispute.amount - collected },
+      });
+
+      if (collected === 0n) {
+        await this.holdService.release(tx, dispute.holdReference);
+        return true;
+      }
+
+      const clearing = await this.ledgerService.getSystemAccount(
+        tx,
+        LEDGER_ACCOUNTS.PAYSTACK_CLEARING,
+      );
+      const reference = `chb_${dispute.paystackDisputeId}`;
+
+      const journal = await this.holdService.capture(
+        tx,
+        dispute.holdReference,
+        {
+          reference,
+          type: JOURNAL_TYPES.CHARGEBACK,
+          description: `Chargeback on deposit ${dispute.deposit.reference}`,
+          counterAccountId: clearing.id,
+          amount: collected,
+        },
+      );
+
+      if (journal) {
+        await tx.transaction.create({
+          data: {
+            userId: dispute.userId,
+            reference,
+            amount: collected,
+            type: 'chargeback',
+            status: 'success',
+            journalId: journal.id,
+            completedAt: new Date(),
+            metadata: {
+              deposit_reference: dispute.deposit.reference,
+              dispute_id: dispute.paystackDisputeId,
+            },
+          },
+        });
+      }
+
+      return true;
+    });
+  }
+
+  // ==================== EVIDENCE ====================
+
+  // Send evidence to Paystack and keep a copy on the dispute
+  async addEvidence(id: string, dto: DisputeEvidenceDto) {
+    const dispute = await this.dispute.findUnique({ where: { id } });
+
+    if (!dispute) {
+      throw new NotFoundException('Dispute not found');
+    }
+
+    await this.paystackService.addDisputeEvidence(dispute.paystackDisputeId, {
+      ...dto,
+    });
+
+    await this.dispute.update({
+      where: { id },
+      data: { evidence: { ...dto, submitted_at: new Date().toISOString() } },
+    });
+
+    return this.getDispute(id);
+  }
+
+  // ==================== DISPUTE HISTORY ====================
+
+  async getDisputes() {
+    const disputes = await this.dispute.findMany({
+      include: { deposit: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return disputes.map((dispute) => this.toResponse(dispute));
+  }
+
+  async getDispute(id: string) {
+    const dispute = await this.dispute.findUnique({
+      where: { id },
+      include: { deposit: true },
+    });
+
+    if (!dispute) {
+      throw new NotFoundException('Dispute not found');
+    }
+
+    return this.toResponse(dispute);
+  }
+
+  private toResponse(dispute: DisputeWithDeposit) {
+    return {
+      id: dispute.id,
+      paystack_dispute_id: dispute.paystackDisputeId,
+      deposit_reference: dispute.deposit.reference,
+      status: dispute.status,
+      paystack_status: dispute.paystackStatus,
+      resolution: dispute.resolution,
+      amount: toMoneyResponse(dispute.amount),
+      held_amount: toMoneyResponse(dispute.heldAmount),
+      uncollected_amount: toMoneyResponse(dispute.uncollectedAmount),
+      evidence: dispute.evidence,
+      due_at: dispute.dueAt,
+      resolved_at: dispute.resolvedAt,
+      created_at: dispute.createdAt,
+    };
+  }
+}
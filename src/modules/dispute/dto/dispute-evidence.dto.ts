@@ -0,0 +1,61 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsEmail,
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  IsDateString,
+  MaxLength,
+} from 'class-validator';
+
+export class DisputeEvidenceDto {
+  @ApiProperty({
+    example: 'customer@example.com',
+    description: 'Email of the customer who made the payment',
+  })
+  @IsEmail()
+  customer_email: string;
+
+  @ApiProperty({
+    example: 'Ada Obi',
+    description: 'Name of the customer who made the payment',
+  })
+  @IsString()
+  @IsNotEmpty()
+  customer_name: string;
+
+  @ApiProperty({
+    example: '08012345678',
+    description: 'Phone number of the customer',
+  })
+  @IsString()
+  @IsNotEmpty()
+  customer_phone: string;
+
+  @ApiProperty({
+    example: 'Wallet top-up credited and spent on 2026-10-01',
+    description: 'What the customer received for the payment',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(1000)
+  service_details: string;
+
+  @ApiProperty({
+    example: '12 Marina Road, Lagos',
+    description: 'Delivery address, for physical goods (optional)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  delivery_address?: string;
+
+  @ApiProperty({
+    example: '2026-10-02',
+    description: 'Delivery date, for physical goods (optional)',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  delivery_date?: string;
+}
@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, Min, Max } from 'class-validator';
+import { FEE_OPERATIONS } from '../fees.constants';
+import { MAX_MINOR_UNITS } from '../../../common/utils/money';
+
+export class FeeQuoteQueryDto {
+  @ApiProperty({
+    example: 'transfer',
+    description: 'Operation to quote',
+    enum: Object.values(FEE_OPERATIONS),
+  })
+  @IsIn(Object.values(FEE_OPERATIONS))
+  operation: string;
+
+  @ApiProperty({ example: 50000, description: 'Amount in kobo' })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_MINOR_UNITS)
+  amount: number;
+}
@@ -0,0 +1,93 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { MAX_MINOR_UNITS } from '../../../common/utils/money';
+
+export class FeeBandDto {
+  @ApiProperty({
+    example: 500000,
+    description:
+      'Largest amount in kobo this band applies to (omit for "and above")',
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(MAX_MINOR_UNITS)
+  @IsOptional()
+  up_to?: number;
+
+  @ApiProperty({
+    example: 1000,
+    description: 'Flat fee in kobo (optional)',
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(MAX_MINOR_UNITS)
+  @IsOptional()
+  flat_fee?: number;
+
+  @ApiProperty({
+    example: 0,
+    description: 'Percentage fee in basis points, 100 = 1% (optional)',
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(10000)
+  @IsOptional()
+  percentage_bps?: number;
+}
+
+export class UpsertFeeScheduleDto {
+  @ApiProperty({
+    example: 10000,
+    description: 'Flat fee in kobo (optional)',
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  flat_fee?: number;
+
+  @ApiProperty({
+    example: 150,
+    description: 'Percentage fee in basis points, 100 = 1% (optional)',
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(10000)
+  @IsOptional()
+  percentage_bps?: number;
+
+  @ApiProperty({
+    example: 200000,
+    description: 'Largest fee in kobo, whatever the amount (optional)',
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(MAX_MINOR_UNITS)
+  @IsOptional()
+  cap?: number;
+
+  @ApiProperty({
+    type: [FeeBandDto],
+    description:
+      'Amount bands with their own flat/percentage fee; the first band covering the amount replaces flat_fee and percentage_bps (optional)',
+    required: false,
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => FeeBandDto)
+  @IsOptional()
+  bands?: FeeBandDto[];
+}
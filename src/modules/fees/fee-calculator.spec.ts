@@ -0,0 +1,72 @@
+import { calculateFee, parseFeeBands, FeeSchedule } from './fee-calculator';
+
+describe('fee calculator', () => {
+  const schedule = (overrides: Partial<FeeSchedule>): FeeSchedule => ({
+    flatFee: 0n,
+    percentageBps: 0,
+    capAmount: null,
+    bands: [],
+    ...overrides,
+  });
+
+  describe('calculateFee', () => {
+    it('charges nothing without a schedule', () => {
+      expect(calculateFee(100000n, null)).toBe(0n);
+    });
+
+    it('charges a flat fee', () => {
+      expect(calculateFee(100000n, schedule({ flatFee: 1000n }))).toBe(1000n);
+    });
+
+    it('charges a percentage rounded half up to the kobo', () => {
+      // 1.5% of 1,033 kobo is 15.495 kobo
+      expect(calculateFee(1033n, schedule({ percentageBps: 150 }))).toBe(15n);
+      // 1.5% of 1,100 kobo is 16.5 kobo
+      expect(calculateFee(1100n, schedule({ percentageBps: 150 }))).toBe(17n);
+    });
+
+    it('adds flat and percentage fees and caps the total', () => {
+      const capped = schedule({
+        flatFee: 10000n,
+        percentageBps: 150,
+        capAmount: 200000n,
+      });
+
+      expect(calculateFee(100000n, capped)).toBe(11500n);
+      expect(calculateFee(50000000n, capped)).toBe(200000n);
+    });
+
+    it('uses the first band that covers the amount', () => {
+      const tiered = schedule({
+        flatFee: 99n,
+        bands: parseFeeBands([
+          { up_to: null, flat_fee: 5000, percentage_bps: 0 },
+          { up_to: 500000, flat_fee: 1000, percentage_bps: 0 },
+          { up_to: 5000000, flat_fee: 2500, percentage_bps: 0 },
+        ]),
+      });
+
+      expect(calculateFee(500000n, tiered)).toBe(1000n);
+      expect(calculateFee(500001n, tiered)).toBe(2500n);
+      expect(calculateFee(9000000n, tiered)).toBe(5000n);
+    });
+
+    it('falls back to the schedule when no band covers the amount', () => {
+      const tiered = schedule({
+        flatFee: 5000n,
+        bands: parseFeeBands([
+          { up_to: 500000, flat_fee: 1000, percentage_bps: 0 },
+        ]),
+      });
+
+      expect(calculateFee(600000n, tiered)).toBe(5000n);
+    });
+  });
+
+  describe('parseFeeBands', () => {
+    it('ignores anything that is not a list', () => {
+      expect(parseFeeBands(null)).toEqual([]);
+      expect(parseFeeBands({ up_to: 1 })).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+// Pure fee maths, kept free of Prisma so it can be unit tested.
+// Amounts are kobo; percentages are basis points (100 = 1%).
+
+export interface FeeBand {
+  upTo: bigint | null; // inclusive upper bound; null for "and above"
+  flatFee: bigint;
+  percentageBps: number;
+}
+
+export interface FeeSchedule {
+  flatFee: bigint;
+  percentageBps: number;
+  capAmount: bigint | null;
+  bands: FeeBand[];
+}
+
+// Stored shape of FeeSchedule.bands (a type alias, as Prisma JSON input
+// doesn't accept interfaces)
+export type StoredFeeBand = {
+  up_to: number | null;
+  flat_fee: number;
+  percentage_bps: number;
+};
+
+const BASIS_POINTS = 10000n;
+
+// flat + percentage, using the first band that covers the amount when the
+// schedule is tiered, then capped. No schedule means no fee.
+export function calculateFee(
+  amount: bigint,
+  schedule: FeeSchedule | null,
+): bigint {
+  if (!schedule || amount <= 0n) {
+    return 0n;
+  }
+
+  const band = schedule.bands.find(
+    (candidate) => candidate.upTo === null || amount <= candidate.upTo,
+  );
+  const flatFee = band ? band.flatFee : schedule.flatFee;
+  const percentageBps = BigInt(
+    band ? band.percentageBps : schedule.percentageBps,
+  );
+
+  // Round half up to the nearest kobo
+  const percentageFee =
+    (amount * percentageBps + BASIS_POINTS / 2n) / BASIS_POINTS;
+  const fee = flatFee + percentageFee;
+
+  return schedule.capAmount !== null && fee > schedule.capAmount
+    ? schedule.capAmount
+    : fee;
+}
+
+// Bands as stored in JSON, sorted so the smallest upper bound wins
+export function parseFeeBands(stored: unknown): FeeBand[] {
+  if (!Array.isArray(stored)) {
+    return [];
+  }
+
+  return (stored as StoredFeeBand[])
+    .map((band) => ({
+      upTo: band.up_to !== null ? BigInt(band.up_to) : null,
+      flatFee: BigInt(band.flat_fee ?? 0),
+      percentageBps: band.percentage_bps ?? 0,
+    }))
+    .sort((a, b) =>
+      a.upTo === null ? 1 : b.upTo === null ? -1 : a.upTo < b.upTo ? -1 : 1,
+    );
+}
@@ -0,0 +1,72 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  UseGuards,
+  Body,
+  Param,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiParam,
+} from '@nestjs/swagger';
+import { FeesService } from './fees.service';
+import { UpsertFeeScheduleDto } from './dto/upsert-fee-schedule.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { buildSuccessResponse } from 'src/common/utils/api-response';
+
+@ApiTags('Fees Admin')
+@ApiBearerAuth()
+@ApiSecurity('api_key', ['x-api-key'])
+@Controller('admin/fees')
+@UseGuards(JwtAuthGuard, ApiKeyGuard, AdminGuard)
+export class FeesAdminController {
+  constructor(private readonly feesService: FeesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the fee schedule of every operation' })
+  @ApiResponse({ status: 200, description: 'Fee schedules retrieved' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+  })
+  async getSchedules() {
+    const result = await this.feesService.getSchedules();
+    return buildSuccessResponse('Fee schedules retrieved', result);
+  }
+
+  @Put(':operation')
+  @ApiOperation({ summary: 'Set the fee schedule of an operation' })
+  @ApiResponse({ status: 200, description: 'Fee schedule updated' })
+  @ApiResponse({ status: 400, description: 'Unknown operation' })
+  @ApiParam({
+    name: 'operation',
+    description: 'deposit, transfer or withdrawal',
+  })
+  async setSchedule(
+    @Param('operation') operation: string,
+    @Body() dto: UpsertFeeScheduleDto,
+  ) {
+    const result = await this.feesService.setSchedule(operation, dto);
+    return buildSuccessResponse('Fee schedule updated', result);
+  }
+
+  @Delete(':operation')
+  @ApiOperation({ summary: 'Remove the fee schedule so the operation is free' })
+  @ApiResponse({ status: 200, description: 'Fee schedule removed' })
+  @ApiParam({
+    name: 'operation',
+    description: 'deposit, transfer or withdrawal',
+  })
+  async removeSchedule(@Param('operation') operation: string) {
+    await this.feesService.removeSchedule(operation);
+    return buildSuccessResponse('Fee schedule removed');
+  }
+}
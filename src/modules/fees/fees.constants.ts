@@ -0,0 +1,10 @@
+export const FEE_OPERATIONS = {
+  DEPOSIT: 'deposit',
+  TRANSFER: 'transfer',
+  WITHDRAWAL: 'withdrawal',
+} as const;
+
+export type FeeOperation = (typeof FEE_OPERATIONS)[keyof typeof FEE_OPERATIONS];
+
+// Reference of the fee line item charged for a transaction
+export const feeReference = (reference: string) => `${reference}_fee`;
@@ -0,0 +1,43 @@
+import { Controller, Get, UseGuards, Query } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { FeesService } from './fees.service';
+import { FeeQuoteQueryDto } from './dto/fee-quote-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
+import { buildSuccessResponse } from 'src/common/utils/api-response';
+import { toMinorUnits } from 'src/common/utils/money';
+
+@ApiTags('Fees')
+@Controller('fees')
+export class FeesController {
+  constructor(private readonly feesService: FeesService) {}
+
+  @Get('quote')
+  @UseGuards(JwtAuthGuard, ApiKeyGuard)
+  @RequirePermission('read')
+  @ApiBearerAuth()
+  @ApiSecurity('api_key', ['x-api-key'])
+  @ApiOperation({
+    summary: 'Quote the fee of a deposit, transfer or withdrawal',
+  })
+  @ApiResponse({ status: 200, description: 'Fee quoted' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async quote(@Query() query: FeeQuoteQueryDto) {
+    const result = await this.feesService.quote(
+      query.operation,
+      toMinorUnits(query.amount),
+    );
+    return buildSuccessResponse('Fee quoted', result);
+  }
+}
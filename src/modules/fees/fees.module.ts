@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { FeesController } from './fees.controller';
+import { FeesAdminController } from './fees-admin.controller';
+import { FeesService } from './fees.service';
+import { LedgerModule } from '../ledger/ledger.module';
+import { TransactionStateModule } from '../transaction-state/transaction-state.module';
+
+@Module({
+  imports: [LedgerModule, TransactionStateModule],
+  controllers: [FeesController, FeesAdminController],
+  providers: [FeesService],
+  exports: [FeesService],
+})
+export class FeesModule {}
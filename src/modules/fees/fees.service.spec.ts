@@ -0,0 +1,89 @@
+import { Prisma } from '@prisma/client';
+import { FeesService } from './fees.service';
+import { LedgerService } from '../ledger/ledger.service';
+import { TransactionStateService } from '../transaction-state/transaction-state.service';
+import { JOURNAL_TYPES } from '../ledger/ledger.constants';
+
+describe('FeesService', () => {
+  const ledgerService = {
+    getWalletAccount: jest.fn(),
+    getSystemAccount: jest.fn(),
+    post: jest.fn(),
+  };
+  const transactionStateService = { transition: jest.fn() };
+  const tx = {
+    transaction: { findUnique: jest.fn() },
+    wallet: { findUniqueOrThrow: jest.fn() },
+  };
+
+  // A real instance, so a method named after a Prisma model would be
+  // replaced by the model's accessor and these calls would fail
+  const service = new FeesService(
+    ledgerService as unknown as LedgerService,
+    transactionStateService as unknown as TransactionStateService,
+  );
+  const client = tx as unknown as Prisma.TransactionClient;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  describe('refundFee', () => {
+    it('does nothing when no fee was charged', async () => {
+      tx.transaction.findUnique.mockResolvedValue(null);
+
+      await expect(
+        service.refundFee(client, 'wd_1', 'webhook', 'Failed'),
+      ).resolves.toBe(false);
+      expect(transactionStateService.transition).not.toHaveBeenCalled();
+      expect(ledgerService.post).not.toHaveBeenCalled();
+    });
+
+    it('does nothing when the fee was already refunded', async () => {
+      tx.transaction.findUnique.mockResolvedValue({
+        userId: 'user_1',
+        amount: 5000n,
+      });
+      transactionStateService.transition.mockResolvedValue(null);
+
+      await expect(
+        service.refundFee(client, 'wd_1', 'webhook', 'Failed'),
+      ).resolves.toBe(false);
+      expect(ledgerService.post).not.toHaveBeenCalled();
+    });
+
+    it('reverses the fee and pays it back from fees revenue', async () => {
+      tx.transaction.findUnique.mockResolvedValue({
+        userId: 'user_1',
+        amount: 5000n,
+      });
+      tx.wallet.findUniqueOrThrow.mockResolvedValue({ id: 'wallet_1' });
+      transactionStateService.transition.mockResolvedValue({ id: 'fee_1' });
+      ledgerService.getWalletAccount.mockResolvedValue({ id: 'acct_wallet' });
+      ledgerService.getSystemAccount.mockResolvedValue({ id: 'acct_fees' });
+
+      await expect(
+        service.refundFee(client, 'wd_1', 'webhook', 'Failed'),
+      ).resolves.toBe(true);
+
+      expect(transactionStateService.transition).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { reference: 'wd_1_fee' },
+          from: 'success',
+          to: 'reversed',
+        }),
+        client,
+      );
+      expect(ledgerService.post).toHaveBeenCalledWith(client, {
+        reference: 'wd_1_fee_refund',
+        type: JOURNAL_TYPES.REVERSAL,
+        description: 'Fee refund for wd_1',
+        metadata: { reason: 'Failed' },
+        lines: [
+          { accountId: 'acct_fees', direction: 'debit', amount: 5000n },
+          { accountId: 'acct_wallet', direction: 'credit', amount: 5000n },
+        ],
+      });
+    });
+  });
+});
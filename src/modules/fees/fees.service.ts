@@ -0,0 +1,248 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import {
+  FeeSchedule as StoredFeeSchedule,
+  Prisma,
+  PrismaClient,
+} from '@prisma/client';
+import { toMoneyResponse } from '../../common/utils/money';
+import { LedgerService } from '../ledger/ledger.service';
+import { JOURNAL_TYPES, LEDGER_ACCOUNTS } from '../ledger/ledger.constants';
+import { TransactionStateService } from '../transaction-state/transaction-state.service';
+import { TransitionSource } from '../transaction-state/transaction-state.constants';
+import {
+  FeeSchedule,
+  StoredFeeBand,
+  calculateFee,
+  parseFeeBands,
+} from './fee-calculator';
+import { FEE_OPERATIONS, FeeOperation, feeReference } from './fees.constants';
+import { UpsertFeeScheduleDto } from './dto/upsert-fee-schedule.dto';
+
+export interface ChargeFeeInput {
+  userId: string;
+  walletId: string;
+  operation: FeeOperation;
+  reference: string; // transaction the fee is charged for
+  amount: bigint;
+}
+
+@Injectable()
+export class FeesService extends PrismaClient {
+  constructor(
+    private ledgerService: LedgerService,
+    private transactionStateService: TransactionStateService,
+  ) {
+    super();
+  }
+
+  // ==================== QUOTES ====================
+
+  async getFee(operation: FeeOperation, amount: bigint): Promise<bigint> {
+    const schedule = await this.feeSchedule.findUnique({
+      where: { operation },
+    });
+
+    return calculateFee(amount, schedule && this.toSchedule(schedule));
+  }
+
+  // What the user pays before they confirm: deposits are credited net of
+  // the fee, transfers and withdrawals debit the amount plus the fee
+  async quote(operation: string, amount: bigint) {
+    this.assertOperation(operation);
+
+    const fee = await this.getFee(operation, amount);
+
+    return {
+      operation,
+      amount: toMoneyResponse(amount),
+      fee: toMoneyResponse(fee),
+      ...(operation === FEE_OPERATIONS.DEPOSIT
+        ? { net_credit: toMoneyResponse(amount - fee) }
+        : { total_debit: toMoneyResponse(amount + fee) }),
+    };
+  }
+
+  // ==================== CHARGES ====================
+
+  // Move the fee from the wallet to fees revenue and record it as its own
+  // transaction. The ledger refuses it if the wallet can't cover it.
+  async charge(tx: Prisma.TransactionClient, input: ChargeFeeInput) {
+    if (input.amount <= 0n) {
+      return null;
+    }
+
+    const reference = feeReference(input.reference);
+    const walletAccount = await this.ledgerService.getWalletAccount(
+      tx,
+      input.walletId,
+    );
+    const revenue = await this.ledgerService.getSystemAccount(
+      tx,
+      LEDGER_ACCOUNTS.FEES_REVENUE,
+    );
+
+    const journal = await this.ledgerService.post(tx, {
+      reference,
+      type: JOURNAL_TYPES.FEE,
+      description: `${input.operation} fee for ${input.reference}`,
+      lines: [
+        {
+          accountId: walletAccount.id,
+          direction: 'debit',
+          amount: input.amount,
+        },
+        { accountId: revenue.id, direction: 'credit', amount: input.amount },
+      ],
+    });
+
+    return tx.transaction.create({
+      data: {
+        userId: input.userId,
+        reference,
+        amount: input.amount,
+        type: 'fee',
+        status: 'success',
+        journalId: journal.id,
+        completedAt: new Date(),
+        metadata: {
+          operation: input.operation,
+          charged_for: input.reference,
+        },
+      },
+    });
+  }
+
+  // Give a fee back when the operation it paid for is undone; false if no
+  // fee was charged or it was already refunded
+  async refundFee(
+    tx: Prisma.TransactionClient,
+    chargedFor: string,
+    source: TransitionSource,
+    reason: string,
+  ): Promise<boolean> {
+    const reference = feeReference(chargedFor);
+    const fee = await tx.transaction.findUnique({ where: { reference } });
+
+    if (!fee) {
+      return false;
+    }
+
+    const reversed = await this.transactionStateService.transition(
+      {
+        where: { reference },
+        from: 'success',
+        to: 'reversed',
+        source,
+        reason,
+      },
+      tx,
+    );
+
+    if (!reversed) {
+      return false;
+    }
+
+    const wallet = await tx.wallet.findUniqueOrThrow({
+      where: { userId: fee.userId },
+    });
+    const walletAccount = await this.ledgerService.getWalletAccount(
+      tx,
+      wallet.id,
+    );
+    const revenue = await this.ledgerService.getSystemAccount(
+      tx,
+      LEDGER_ACCOUNTS.FEES_REVENUE,
+    );
+
+    await this.ledgerService.post(tx, {
+      reference: `${reference}_refund`,
+      type: JOURNAL_TYPES.REVERSAL,
+      description: `Fee refund for ${chargedFor}`,
+      metadata: { reason },
+      lines: [
+        { accountId: revenue.id, direction: 'debit', amount: fee.amount },
+        {
+          accountId: walletAccount.id,
+          direction: 'credit',
+          amount: fee.amount,
+        },
+      ],
+    });
+
+    return true;
+  }
+
+  // ==================== CONFIGURATION ====================
+
+  async getSchedules() {
+    const schedules = await this.feeSchedule.findMany({
+      orderBy: { operation: 'asc' },
+    });
+
+    return schedules.map((schedule) => this.toResponse(schedule));
+  }
+
+  // Replace the fee schedule of an operation; omitted fields are cleared
+  async setSchedule(operation: string, dto: UpsertFeeScheduleDto) {
+    this.assertOperation(operation);
+
+    const bands: StoredFeeBand[] = (dto.bands ?? []).map((band) => ({
+      up_to: band.up_to ?? null,
+      flat_fee: band.flat_fee ?? 0,
+      percentage_bps: band.percentage_bps ?? 0,
+    }));
+    const data = {
+      flatFee: BigInt(dto.flat_fee ?? 0),
+      percentageBps: dto.percentage_bps ?? 0,
+      capAmount: dto.cap != null ? BigInt(dto.cap) : null,
+      bands,
+    };
+
+    const schedule = await this.feeSchedule.upsert({
+      where: { operation },
+      create: { operation, ...data },
+      update: data,
+    });
+
+    return this.toResponse(schedule);
+  }
+
+  async removeSchedule(operation: string) {
+    await this.feeSchedule.deleteMany({ where: { operation } });
+  }
+
+  private assertOperation(
+    operation: string,
+  ): asserts operation is FeeOperation {
+    if (!Object.values<string>(FEE_OPERATIONS).includes(operation)) {
+      throw new BadRequestException(`Unknown operation: ${operation}`);
+    }
+  }
+
+  private toSchedule(schedule: StoredFeeSchedule): FeeSchedule {
+    return {
+      flatFee: schedule.flatFee,
+      percentageBps: schedule.percentageBps,
+      capAmount: schedule.capAmount,
+      bands: parseFeeBands(schedule.bands),
+    };
+  }
+
+  private toResponse(schedule: StoredFeeSchedule) {
+    return {
+      operation: schedule.operation,
+      flat_fee: toMoneyResponse(schedule.flatFee),
+      percentage_bps: schedule.percentageBps,
+      cap:
+        schedule.capAmount !== null
+          ? toMoneyResponse(schedule.capAmount)
+          : null,
+      bands: parseFeeBands(schedule.bands).map((band) => ({
+        up_to: band.upTo !== null ? toMoneyResponse(band.upTo) : null,
+        flat_fee: toMoneyResponse(band.flatFee),
+        percentage_bps: band.percentageBps,
+      })),
+      updated_at: schedule.updatedAt,
+    };
+  }
+}
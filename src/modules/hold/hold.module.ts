@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { HoldService } from './hold.service';
+import { LedgerModule } from '../ledger/ledger.module';
+
+@Module({
+  imports: [LedgerModule],
+  providers: [HoldService],
+  exports: [HoldService],
+})
+export class HoldModule {}
@@ -0,0 +1,323 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma, PrismaClient, WalletHold } from '@prisma/client';
+import * as crypto from 'crypto';
+import { AppConfig } from '../../config/app.config';
+import { toMoneyResponse } from '../../common/utils/money';
+import { LedgerService } from '../ledger/ledger.service';
+import { assertWalletCanDebit } from '../wallet/wallet-status';
+
+// Holds expired per sweep, so one run never locks too many wallets
+const EXPIRY_BATCH_SIZE = 100;
+
+// Holds a user placed through the API. Other holds (disputes, reversal
+// debts) are placed by the system and only it may release or capture them.
+const USER_HOLD_PREFIX = 'hld_';
+
+export interface PlaceHoldInput {
+  walletId: string;
+  reference: string;
+  amount: bigint;
+  reason?: string;
+  expiresAt?: Date;
+  // Place the hold even if it exceeds the available balance, leaving it
+  // negative: the wallet can't spend until credits cover the hold
+  allowShortfall?: boolean;
+}
+
+export interface CaptureHoldInput {
+  reference: string; // journal reference
+  type: string;
+  description?: string;
+  counterAccountId: string; // ledger account credited with the funds
+  amount?: bigint; // defaults to the whole hold; the rest is released
+}
+
+@Injectable()
+export class HoldService extends PrismaClient {
+  private readonly defaultTtlSeconds: number;
+
+  constructor(
+    private config: ConfigService,
+    private ledgerService: LedgerService,
+  ) {
+    super();
+    const appConfig = this.config.get<AppConfig>('app');
+    if (!appConfig) {
+      throw new Error('App configuration not found');
+    }
+    this.defaultTtlSeconds = appConfig.holdDefaultTtlSeconds;
+  }
+
+  // ==================== HOLD API ====================
+
+  // Reserve funds in the user's wallet until captured, released or expired
+  async createHold(
+    userId: string,
+    amount: bigint,
+    reason?: string,
+    expiresInSeconds?: number,
+  ) {
+    const wallet = await this.wallet.findUnique({ where: { userId } });
+
+    if (!wallet) {
+      throw new BadRequestException('Insufficient available balance');
+    }
+
+    assertWalletCanDebit(wallet);
+
+    const reference = `${USER_HOLD_PREFIX}${crypto.randomUUID().replace(/-/g, '')}`;
+    const expiresAt = new Date(
+      Date.now() + (expiresInSeconds ?? this.defaultTtlSeconds) * 1000,
+    );
+
+    await this.$transaction((tx: Prisma.TransactionClient) =>
+      this.place(tx, {
+        walletId: wallet.id,
+        reference,
+        amount,
+        reason,
+        expiresAt,
+      }),
+    );
+
+    return this.getHold(userId, reference);
+  }
+
+  async releaseHold(userId: string, reference: string) {
+    this.assertUserHold(await this.findOwnHold(userId, reference));
+
+    const released = await this.$transaction((tx: Prisma.TransactionClient) =>
+      this.release(tx, reference),
+    );
+
+    if (!released) {
+      throw new BadRequestException('Hold is no longer active');
+    }
+
+    return this.getHold(userId, reference);
+  }
+
+  async getHolds(userId: string, status?: string) {
+    const holds = await this.walletHold.findMany({
+      where: { wallet: { userId }, ...(status && { status }) },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return holds.map((hold) => this.toResponse(hold));
+  }
+
+  async getHold(userId: string, reference: string) {
+    return this.toResponse(await this.findOwnHold(userId, reference));
+  }
+
+  async findOwnHold(userId: string, reference: string) {
+    const hold = await this.walletHold.findFirst({
+      where: { reference, wallet: { userId } },
+    });
+
+    if (!hold) {
+      throw new NotFoundException('Hold not found');
+    }
+
+    return hold;
+  }
+
+  assertUserHold(hold: { reference: string }) {
+    if (!hold.reference.startsWith(USER_HOLD_PREFIX)) {
+      throw new BadRequestException('Hold is managed by the system');
+    }
+  }
+
+  // Give back the funds of holds that passed their expiry
+  @Cron(CronExpression.EVERY_MINUTE)
+  async expireHolds() {
+    const expired = await this.walletHold.findMany({
+      where: { status: 'active', expiresAt: { lte: new Date() } },
+      orderBy: { expiresAt: 'asc' },
+      take: EXPIRY_BATCH_SIZE,
+    });
+
+    for (const hold of expired) {
+      try {
+        await this.$transaction((tx: Prisma.TransactionClient) =>
+          this.settle(tx, hold.reference, 'expired'),
+        );
+      } catch (error) {
+        console.error(`Error expiring hold ${hold.reference}:`, error);
+      }
+    }
+  }
+
+  // ==================== HOLD OPERATIONS ====================
+
+  // Reserve part of a wallet's available balance (balance - heldBalance)
+  async place(tx: Prisma.TransactionClient, input: PlaceHoldInput) {
+    if (input.amount <= 0n) {
+      throw new BadRequestException('Hold amount must be greater than zero');
+    }
+
+    const updated = input.allowShortfall
+      ? await tx.$executeRaw`
+          UPDATE "Wallet"
+          SET "heldBalance" = "heldBalance" + ${input.amount}, "updatedAt" = NOW()
+          WHERE "id" = ${input.walletId}
+        `
+      : await tx.$executeRaw`
+          UPDATE "Wallet"
+          SET "heldBalance" = "heldBalance" + ${input.amount}, "updatedAt" = NOW()
+          WHERE "id" = ${input.walletId}
+            AND "balance" - "heldBalance" >= ${input.amount}
+        `;
+
+    if (updated === 0) {
+      throw new BadRequestException('Insufficient available balance');
+    }
+
+    return tx.walletHold.create({
+      data: {
+        walletId: input.walletId,
+        reference: input.reference,
+        amount: input.amount,
+        status: 'active',
+        reason: input.reason,
+        expiresAt: input.expiresAt,
+      },
+    });
+  }
+
+  // Free an active hold; false if it was already released or captured
+  async release(
+    tx: Prisma.TransactionClient,
+    holdReference: string,
+  ): Promise<boolean> {
+    const hold = await this.settle(tx, holdReference, 'released');
+    return hold !== null;
+  }
+
+  // Debit the held funds from the wallet and credit them to another ledger
+  // account. Returns the journal, or null if the hold was no longer active.
+  async capture(
+    tx: Prisma.TransactionClient,
+    holdReference: string,
+    journal: CaptureHoldInput,
+  ) {
+    const active = await tx.walletHold.findUnique({
+      where: { reference: holdReference },
+    });
+
+    if (!active) {
+      return null;
+    }
+
+    const amount = journal.amount ?? active.amount;
+    if (amount > active.amount) {
+      throw new BadRequestException('Capture exceeds the held amount');
+    }
+
+    const hold = await this.settle(tx, holdReference, 'captured', amount);
+
+    if (!hold) {
+      return null;
+    }
+
+    const walletAccount = await this.ledgerService.getWalletAccount(
+      tx,
+      hold.walletId,
+    );
+
+    return this.ledgerService.post(tx, {
+      reference: journal.reference,
+      type: journal.type,
+      description: journal.description,
+      lines: [
+        { accountId: walletAccount.id, direction: 'debit', amount },
+        { accountId: journal.counterAccountId, direction: 'credit', amount },
+      ],
+    });
+  }
+
+  // Close a hold so the caller can spend `amount` of it in the same database
+  // transaction; whatever is not spent becomes available again
+  async consume(
+    tx: Prisma.TransactionClient,
+    holdReference: string,
+    walletId: string,
+    amount: bigint,
+  ) {
+    const hold = await tx.walletHold.findUnique({
+      where: { reference: holdReference },
+    });
+
+    if (!hold || hold.walletId !== walletId) {
+      throw new NotFoundException('Hold not found');
+    }
+
+    if (amount > hold.amount) {
+      throw new BadRequestException('Capture exceeds the held amount');
+    }
+
+    const settled = await this.settle(tx, holdReference, 'captured', amount);
+
+    if (!settled) {
+      throw new BadRequestException('Hold is no longer active');
+    }
+
+    return settled;
+  }
+
+  // Move an active hold to its final status and give back the reservation
+  private async settle(
+    tx: Prisma.TransactionClient,
+    holdReference: string,
+    status: 'released' | 'captured' | 'expired',
+    capturedAmount?: bigint,
+  ) {
+    const claimed = await tx.walletHold.updateMany({
+      where: { reference: holdReference, status: 'active' },
+      data: {
+        status,
+        ...(status === 'captured'
+          ? { capturedAt: new Date(), capturedAmount }
+          : { releasedAt: new Date() }),
+      },
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const hold = await tx.walletHold.findUniqueOrThrow({
+      where: { reference: holdReference },
+    });
+
+    await tx.wallet.update({
+      where: { id: hold.walletId },
+      data: { heldBalance: { decrement: hold.amount } },
+    });
+
+    return hold;
+  }
+
+  private toResponse(hold: WalletHold) {
+    return {
+      reference: hold.reference,
+      status: hold.status,
+      amount: toMoneyResponse(hold.amount),
+      captured_amount:
+        hold.capturedAmount !== null
+          ? toMoneyResponse(hold.capturedAmount)
+          : null,
+      reason: hold.reason,
+      expires_at: hold.expiresAt,
+      created_at: hold.createdAt,
+      released_at: hold.releasedAt,
+      captured_at: hold.capturedAt,
+    };
+  }
+}
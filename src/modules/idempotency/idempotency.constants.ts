@@ -0,0 +1,7 @@
+// Swagger description of the optional Idempotency-Key request header
+export const IDEMPOTENCY_HEADER = {
+  name: 'Idempotency-Key',
+  required: false,
+  description:
+    'Unique key for safely retrying this request; retries replay the first response',
+};
@@ -0,0 +1,191 @@
+import {
+  BadRequestException,
+  ConflictException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import * as crypto from 'crypto';
+import { IdempotencyService } from './idempotency.service';
+
+type Args = { where?: object; data: Record<string, unknown> };
+
+describe('IdempotencyService', () => {
+  const idempotencyKey = {
+    findUnique: jest.fn(),
+    create: jest.fn<Promise<{ id: string }>, [Args]>(),
+    updateMany: jest.fn<Promise<{ count: number }>, [Args]>(),
+    delete: jest.fn(),
+    deleteMany: jest.fn(),
+  };
+
+  const service = new IdempotencyService(
+    new ConfigService({ app: { idempotencyKeyTtlHours: 24 } }),
+  );
+  Object.assign(service, { idempotencyKey });
+
+  const scope = 'wallet.transfer';
+  const body = { amount: 5000, wallet_number: '4566678954356' };
+  const requestHash = crypto
+    .createHash('sha256')
+    .update(`${scope}:${JSON.stringify(body)}`)
+    .digest('hex');
+
+  const stored = (overrides: Record<string, unknown> = {}) => ({
+    id: 'key_1',
+    requestHash,
+    status: 'completed',
+    responseBody: { reference: 'trf_1' },
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    updatedAt: new Date(),
+    ...overrides,
+  });
+
+  const execute = (handler: () => Promise<unknown>, key = 'key-123') =>
+    service.execute('user_1', key, scope, body, handler);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    idempotencyKey.create.mockResolvedValue({ id: 'key_1' });
+    idempotencyKey.updateMany.mockResolvedValue({ count: 1 });
+    idempotencyKey.deleteMany.mockResolvedValue({ count: 0 });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('runs the handler directly without a key', async () => {
+    const handler = jest.fn().mockResolvedValue('done');
+
+    await expect(
+      service.execute('user_1', undefined, scope, body, handler),
+    ).resolves.toBe('done');
+    expect(idempotencyKey.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('rejects a key that is too long', async () => {
+    await expect(execute(jest.fn(), 'k'.repeat(256))).rejects.toThrow(
+      BadRequestException,
+    );
+  });
+
+  it('claims a new key, runs the handler and stores its response', async () => {
+    const handler = jest.fn().mockResolvedValue({ reference: 'trf_1' });
+
+    await expect(execute(handler)).resolves.toEqual({ reference: 'trf_1' });
+
+    expect(idempotencyKey.create.mock.calls[0][0].data).toMatchObject({
+      userId: 'user_1',
+      key: 'key-123',
+      scope,
+      requestHash,
+      status: 'in_progress',
+    });
+    expect(idempotencyKey.updateMany).toHaveBeenCalledWith({
+      where: { id: 'key_1' },
+      data: { status: 'completed', responseBody: { reference: 'trf_1' } },
+    });
+  });
+
+  it('replays a completed response without running the handler again', async () => {
+    idempotencyKey.findUnique.mockResolvedValue(stored());
+    const handler = jest.fn();
+
+    await expect(execute(handler)).resolves.toEqual({ reference: 'trf_1' });
+    expect(handler).not.toHaveBeenCalled();
+    expect(idempotencyKey.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects a key reused with a different body', async () => {
+    idempotencyKey.findUnique.mockResolvedValue(
+      stored({ requestHash: 'other' }),
+    );
+
+    await expect(execute(jest.fn())).rejects.toThrow(
+      UnprocessableEntityException,
+    );
+  });
+
+  it('rejects a retry while the first request is still running', async () => {
+    idempotencyKey.findUnique.mockResolvedValue(
+      stored({ status: 'in_progress', responseBody: null }),
+    );
+    const handler = jest.fn();
+
+    await expect(execute(handler)).rejects.toThrow(ConflictException);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('reclaims a key whose request stopped renewing it', async () => {
+    idempotencyKey.findUnique.mockResolvedValue(
+      stored({
+        status: 'in_progress',
+        responseBody: null,
+        updatedAt: new Date(Date.now() - 3 * 60 * 1000),
+      }),
+    );
+    const handler = jest.fn().mockResolvedValue({ reference: 'trf_2' });
+
+    await expect(execute(handler)).resolves.toEqual({ reference: 'trf_2' });
+
+    expect(idempotencyKey.deleteMany).toHaveBeenCalledWith({
+      where: { id: 'key_1', status: 'in_progress' },
+    });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('replays the winner when a concurrent request claims the key first', async () => {
+    idempotencyKey.findUnique
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(stored());
+    idempotencyKey.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed', {
+        code: 'P2002',
+        clientVersion: Prisma.prismaVersion.client,
+      }),
+    );
+    const handler = jest.fn();
+
+    await expect(execute(handler)).resolves.toEqual({ reference: 'trf_1' });
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('releases the key when the handler fails so the client can retry', async () => {
+    const error = new Error('Insufficient balance');
+
+    await expect(execute(jest.fn().mockRejectedValue(error))).rejects.toBe(
+      error,
+    );
+    expect(idempotencyKey.deleteMany).toHaveBeenLastCalledWith({
+      where: { id: 'key_1' },
+    });
+  });
+
+  it('keeps renewing the key while a slow handler runs', async () => {
+    jest.useFakeTimers();
+    let finish: (value: string) => void = () => undefined;
+    const handler = jest.fn(
+      () => new Promise<string>((resolve) => (finish = resolve)),
+    );
+
+    const result = execute(handler);
+    await jest.advanceTimersByTimeAsync(3 * 60 * 1000);
+
+    const renewals = idempotencyKey.updateMany.mock.calls.filter(
+      ([args]) => args.data.updatedAt,
+    );
+    expect(renewals).toHaveLength(6);
+    expect(renewals[0][0].where).toEqual({
+      id: 'key_1',
+      status: 'in_progress',
+    });
+
+    finish('done');
+    await expect(result).resolves.toBe('done');
+
+    idempotencyKey.updateMany.mockClear();
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+    expect(idempotencyKey.updateMany).not.toHaveBeenCalled();
+  });
+});
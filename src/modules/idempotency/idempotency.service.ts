@@ -0,0 +1,193 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaClient } from '@prisma/client';
+import * as crypto from 'crypto';
+import { AppConfig } from '../../config/app.config';
+import { isUniqueViolation } from '../../common/utils/prisma-errors';
+
+const MAX_KEY_LENGTH = 255;
+
+// A request renews its claim on the key this often while its handler runs
+const LEASE_RENEW_MS = 30 * 1000;
+
+// A key in progress whose claim hasn't been renewed for this long belongs
+// to a request that crashed, and a retry may claim it again
+const STALE_IN_PROGRESS_MS = 2 * 60 * 1000;
+
+@Injectable()
+export class IdempotencyService extends PrismaClient {
+  private readonly ttlHours: number;
+
+  constructor(private config: ConfigService) {
+    super();
+    const appConfig = this.config.get<AppConfig>('app');
+    if (!appConfig) {
+      throw new Error('App configuration not found');
+    }
+    this.ttlHours = appConfig.idempotencyKeyTtlHours;
+  }
+
+  /**
+   * Runs a handler at most once per caller and Idempotency-Key.
+   * Retries with the same key and body replay the stored response; the same
+   * key with a different body is rejected.
+   * @param userId - Caller the key is scoped to
+   * @param key - Client supplied Idempotency-Key (handler runs directly if absent)
+   * @param scope - Operation name, e.g. "wallet.transfer"
+   * @param body - Request body used to detect key reuse
+   * @param handler - Operation to run
+   */
+  async execute<T>(
+    userId: string,
+    key: string | undefined,
+    scope: string,
+    body: unknown,
+    handler: () => Promise<T>,
+  ): Promise<T> {
+    if (!key) {
+      return handler();
+    }
+
+    if (key.length > MAX_KEY_LENGTH) {
+      throw new BadRequestException(
+        `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+      );
+    }
+
+    const requestHash = crypto
+      .createHash('sha256')
+      .update(`${scope}:${JSON.stringify(body ?? {})}`)
+      .digest('hex');
+
+    const existing = await this.findActive(userId, key);
+    if (existing) {
+      return this.replay<T>(existing, requestHash);
+    }
+
+    // Opportunistically clear this caller's expired keys
+    await this.idempotencyKey.deleteMany({
+      where: { userId, expiresAt: { lt: new Date() } },
+    });
+
+    const expiresAt = new Date(Date.now() + this.ttlHours * 60 * 60 * 1000);
+
+    let record: { id: string };
+    try {
+      record = await this.idempotencyKey.create({
+        data: {
+          userId,
+          key,
+          scope,
+          requestHash,
+          status: 'in_progress',
+          expiresAt,
+        },
+      });
+    } catch (error) {
+      // Lost a race with a concurrent request using the same key
+      if (isUniqueViolation(error)) {
+        const concurrent = await this.findActive(userId, key);
+        if (concurrent) {
+          return this.replay<T>(concurrent, requestHash);
+        }
+      }
+      throw error;
+    }
+
+    // If this request stalled past its lease and a retry took the key over,
+    // the record is already gone and there is nothing left to update
+    try {
+      const response = await this.holdWhileRunning(record.id, handler);
+
+      await this.idempotencyKey.updateMany({
+        where: { id: record.id },
+        data: {
+          status: 'completed',
+          responseBody: response ?? {},
+        },
+      });
+
+      return response;
+    } catch (error) {
+      // Failed requests are not cached so the client can retry
+      await this.idempotencyKey.deleteMany({ where: { id: record.id } });
+      throw error;
+    }
+  }
+
+  // Renew the claim while the handler runs, so a slow request (one waiting
+  // on Paystack, say) isn't taken for a crashed one and run a second time
+  private async holdWhileRunning<T>(id: string, handler: () => Promise<T>) {
+    const lease = setInterval(() => {
+      this.idempotencyKey
+        .updateMany({
+          where: { id, status: 'in_progress' },
+          data: { updatedAt: new Date() },
+        })
+        .catch((error) =>
+          console.error(`Error renewing idempotency key ${id}:`, error),
+        );
+    }, LEASE_RENEW_MS);
+    lease.unref();
+
+    try {
+      return await handler();
+    } finally {
+      clearInterval(lease);
+    }
+  }
+
+  private async findActive(userId: string, key: string) {
+    const record = await this.idempotencyKey.findUnique({
+      where: { userId_key: { userId, key } },
+    });
+
+    if (!record) {
+      return null;
+    }
+
+    if (record.expiresAt <= new Date()) {
+      await this.idempotencyKey.delete({ where: { id: record.id } });
+      return null;
+    }
+
+    // Release a key whose request crashed mid-way. Only one of several
+    // retries deletes it; the others lose the create race and see the new
+    // claim.
+    if (
+      record.status === 'in_progress' &&
+      record.updatedAt.getTime() <= Date.now() - STALE_IN_PROGRESS_MS
+    ) {
+      await this.idempotencyKey.deleteMany({
+        where: { id: record.id, status: 'in_progress' },
+      });
+      return null;
+    }
+
+    return record;
+  }
+
+  private replay<T>(
+    record: { requestHash: string; status: string; responseBody: unknown },
+    requestHash: string,
+  ): T {
+    if (record.requestHash !== requestHash) {
+      throw new UnprocessableEntityException(
+        'Idempotency-Key has already been used with a different request',
+      );
+    }
+
+    if (record.status !== 'completed') {
+      throw new ConflictException(
+        'A request with this Idempotency-Key is still being processed',
+      );
+    }
+
+    return record.responseBody as T;
+  }
+}
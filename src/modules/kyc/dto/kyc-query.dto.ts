@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+
+export const KYC_STATUSES = ['pending', 'verified', 'rejected'];
+
+export class KycQueryDto {
+  @ApiProperty({
+    example: 'pending',
+    description: 'Only return submissions with this status (optional)',
+    enum: KYC_STATUSES,
+    required: false,
+  })
+  @IsIn(KYC_STATUSES)
+  @IsOptional()
+  status?: string;
+}
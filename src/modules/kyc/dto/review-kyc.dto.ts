@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsString, IsOptional, MaxLength } from 'class-validator';
+
+export class ReviewKycDto {
+  @ApiProperty({
+    example: 'approve',
+    description: 'Review decision',
+    enum: ['approve', 'reject'],
+  })
+  @IsIn(['approve', 'reject'])
+  decision: 'approve' | 'reject';
+
+  @ApiProperty({
+    example: 'ID matches BVN record',
+    description: 'Reviewer notes; shown to the user when rejected (optional)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  notes?: string;
+}
@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, Matches } from 'class-validator';
+
+export class SubmitTier2Dto {
+  @ApiProperty({
+    example: '22212345678',
+    description: 'Bank Verification Number (11 digits)',
+  })
+  @Matches(/^\d{11}$/, { message: 'bvn must be 11 digits' })
+  bvn: string;
+
+  @ApiProperty({
+    example: '08012345678',
+    description: 'Phone number linked to the BVN',
+  })
+  @Matches(/^(\+234|0)\d{10}$/, {
+    message: 'phone must be a Nigerian phone number',
+  })
+  phone: string;
+
+  @ApiProperty({
+    example: '1990-04-12',
+    description: 'Date of birth as registered on the BVN',
+  })
+  @IsDateString()
+  date_of_birth: string;
+}
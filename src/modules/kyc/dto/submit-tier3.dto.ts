@@ -0,0 +1,60 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsString, IsNotEmpty, IsUrl, MaxLength } from 'class-validator';
+
+export const ID_DOCUMENT_TYPES = [
+  'nin',
+  'passport',
+  'drivers_license',
+  'voters_card',
+];
+
+export class SubmitTier3Dto {
+  @ApiProperty({
+    example: 'nin',
+    description: 'Type of government ID',
+    enum: ID_DOCUMENT_TYPES,
+  })
+  @IsIn(ID_DOCUMENT_TYPES)
+  id_type: string;
+
+  @ApiProperty({ example: '12345678901', description: 'ID document number' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(30)
+  id_number: string;
+
+  @ApiProperty({
+    example: 'https://files.example.com/kyc/id-front.jpg',
+    description: 'Link to an uploaded image of the ID document',
+  })
+  @IsUrl()
+  id_document_url: string;
+
+  @ApiProperty({
+    example: '12 Marina Road',
+    description: 'Residential street address',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  address: string;
+
+  @ApiProperty({ example: 'Lagos Island', description: 'City' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  city: string;
+
+  @ApiProperty({ example: 'Lagos', description: 'State' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  state: string;
+
+  @ApiProperty({
+    example: 'https://files.example.com/kyc/utility-bill.pdf',
+    description: 'Link to a proof of address, e.g. a utility bill',
+  })
+  @IsUrl()
+  proof_of_address_url: string;
+}
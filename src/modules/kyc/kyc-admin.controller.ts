@@ -0,0 +1,67 @@
+import {
+  Controller,
+  Post,
+  Get,
+  UseGuards,
+  Body,
+  Param,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiParam,
+} from '@nestjs/swagger';
+import { KycService } from './kyc.service';
+import { ReviewKycDto } from './dto/review-kyc.dto';
+import { KycQueryDto } from './dto/kyc-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import type { AuthenticatedUser } from '../auth/decorators/get-user.decorator';
+import { buildSuccessResponse } from 'src/common/utils/api-response';
+
+@ApiTags('KYC Admin')
+@ApiBearerAuth()
+@ApiSecurity('api_key', ['x-api-key'])
+@Controller('admin/kyc')
+@UseGuards(JwtAuthGuard, ApiKeyGuard, AdminGuard)
+export class KycAdminController {
+  constructor(private readonly kycService: KycService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List KYC submissions, oldest first' })
+  @ApiResponse({ status: 200, description: 'KYC submissions retrieved' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+  })
+  async getVerifications(@Query() query: KycQueryDto) {
+    const result = await this.kycService.getVerifications(query.status);
+    return buildSuccessResponse('KYC submissions retrieved', result);
+  }
+
+  @Post(':id/review')
+  @ApiOperation({ summary: 'Approve or reject a pending KYC submission' })
+  @ApiResponse({ status: 200, description: 'KYC submission reviewed' })
+  @ApiResponse({ status: 400, description: 'Submission already reviewed' })
+  @ApiResponse({ status: 404, description: 'Submission not found' })
+  @ApiParam({ name: 'id', description: 'KYC submission id' })
+  async review(
+    @GetUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Body() dto: ReviewKycDto,
+  ) {
+    const result = await this.kycService.review(
+      id,
+      dto.decision,
+      dto.notes,
+      user.id,
+    );
+    return buildSuccessResponse('KYC submission reviewed', result);
+  }
+}
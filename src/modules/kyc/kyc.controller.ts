@@ -0,0 +1,80 @@
+import { Controller, Post, Get, UseGuards, Body } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { KycService } from './kyc.service';
+import { SubmitTier2Dto } from './dto/submit-tier2.dto';
+import { SubmitTier3Dto } from './dto/submit-tier3.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import type { AuthenticatedUser } from '../auth/decorators/get-user.decorator';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
+import { buildSuccessResponse } from 'src/common/utils/api-response';
+
+@ApiTags('KYC')
+@ApiBearerAuth()
+@ApiSecurity('api_key', ['x-api-key'])
+@Controller('kyc')
+@UseGuards(JwtAuthGuard, ApiKeyGuard)
+export class KycController {
+  constructor(private readonly kycService: KycService) {}
+
+  @Get()
+  @RequirePermission('read')
+  @ApiOperation({ summary: 'Get the current KYC tier and submissions' })
+  @ApiResponse({ status: 200, description: 'KYC status retrieved' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async getStatus(@GetUser() user: AuthenticatedUser) {
+    const result = await this.kycService.getKycStatus(user.id);
+    return buildSuccessResponse('KYC status retrieved', result);
+  }
+
+  @Post('tier-2')
+  @ApiOperation({ summary: 'Submit BVN and phone number for tier 2' })
+  @ApiResponse({ status: 200, description: 'Tier 2 verification submitted' })
+  @ApiResponse({
+    status: 400,
+    description: 'Already at this tier or above',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A submission for this tier is awaiting review',
+  })
+  async submitTier2(
+    @GetUser() user: AuthenticatedUser,
+    @Body() dto: SubmitTier2Dto,
+  ) {
+    const result = await this.kycService.submitTier2(user.id, dto);
+    return buildSuccessResponse('Tier 2 verification submitted', result);
+  }
+
+  @Post('tier-3')
+  @ApiOperation({
+    summary: 'Submit an ID document and proof of address for tier 3',
+  })
+  @ApiResponse({ status: 200, description: 'Tier 3 verification submitted' })
+  @ApiResponse({
+    status: 400,
+    description: 'Tier 2 not completed, or already at tier 3',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'A submission for this tier is awaiting review',
+  })
+  async submitTier3(
+    @GetUser() user: AuthenticatedUser,
+    @Body() dto: SubmitTier3Dto,
+  ) {
+    const result = await this.kycService.submitTier3(user.id, dto);
+    return buildSuccessResponse('Tier 3 verification submitted', result);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { WalletModule } from '../wallet/wallet.module';
+import { KycController } from './kyc.controller';
+import { KycAdminController } from './kyc-admin.controller';
+import { KycService } from './kyc.service';
+import { identityVerifierProvider } from './verifiers/identity-verifier.provider';
+
+@Module({
+  imports: [WalletModule],
+  controllers: [KycController, KycAdminController],
+  providers: [KycService, identityVerifierProvider],
+})
+export class KycModule {}
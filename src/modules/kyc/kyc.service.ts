@@ -0,0 +1,233 @@
+import {
+  Injectable,
+  Inject,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { KycVerification, Prisma, PrismaClient } from '@prisma/client';
+import { WalletService } from '../wallet/wallet.service';
+import { WALLET_TIERS } from '../limits/limits.constants';
+import { IDENTITY_VERIFIER } from './verifiers/identity-verifier.interface';
+import type { IdentityVerifier } from './verifiers/identity-verifier.interface';
+import { SubmitTier2Dto } from './dto/submit-tier2.dto';
+import { SubmitTier3Dto } from './dto/submit-tier3.dto';
+
+// Verifier outcome -> stored verification status
+const OUTCOME_STATUSES = {
+  verified: 'verified',
+  rejected: 'rejected',
+  manual_review: 'pending',
+} as const;
+
+@Injectable()
+export class KycService extends PrismaClient {
+  constructor(
+    @Inject(IDENTITY_VERIFIER) private verifier: IdentityVerifier,
+    private walletService: WalletService,
+  ) {
+    super();
+  }
+
+  // ==================== SUBMISSIONS ====================
+
+  // Tier 2: BVN and the phone number linked to it
+  async submitTier2(userId: string, dto: SubmitTier2Dto) {
+    return this.submit(
+      userId,
+      'tier_2',
+      { ...dto },
+      { ...dto, bvn: this.mask(dto.bvn) },
+    );
+  }
+
+  // Tier 3: government ID and proof of address
+  async submitTier3(userId: string, dto: SubmitTier3Dto) {
+    return this.submit(
+      userId,
+      'tier_3',
+      { ...dto },
+      { ...dto, id_number: this.mask(dto.id_number) },
+    );
+  }
+
+  // Check the details with the verifier; a verified submission upgrades the
+  // wallet tier straight away, manual review leaves it pending for an admin
+  private async submit(
+    userId: string,
+    tier: string,
+    details: Record<string, string>,
+    storedData: Record<string, any>,
+  ) {
+    const wallet = await this.walletService.getOrCreateWallet(userId);
+    const currentRank = WALLET_TIERS.indexOf(wallet.tier);
+    const rank = WALLET_TIERS.indexOf(tier);
+
+    if (currentRank >= rank) {
+      throw new BadRequestException(`Wallet is already ${wallet.tier}`);
+    }
+
+    if (currentRank < rank - 1) {
+      throw new BadRequestException(
+        `Complete ${WALLET_TIERS[rank - 1]} verification first`,
+      );
+    }
+
+    const pending = await this.kycVerification.findFirst({
+      where: { userId, tier, status: 'pending' },
+    });
+
+    if (pending) {
+      throw new ConflictException(
+        `A ${tier} verification is already awaiting review`,
+      );
+    }
+
+    const user = await this.user.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const result = await this.verifier.verify({
+      userId,
+      tier,
+      fullName: user.fullName,
+      details,
+    });
+    const status = OUTCOME_STATUSES[result.outcome];
+
+    const verification = await this.$transaction(
+      async (tx: Prisma.TransactionClient) => {
+        const created = await tx.kycVerification.create({
+          data: {
+            userId,
+            tier,
+            status,
+            data: storedData,
+            provider: result.provider,
+            providerReference: result.reference,
+            failureReason: result.reason,
+          },
+        });
+
+        if (status === 'verified') {
+          await this.upgradeTier(tx, userId, tier);
+        }
+
+        return created;
+      },
+    );
+
+    return this.toResponse(verification);
+  }
+
+  // ==================== REVIEW ====================
+
+  async getVerifications(status?: string) {
+    const verifications = await this.kycVerification.findMany({
+      where: status ? { status } : {},
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return verifications.map((verification) => ({
+      user_id: verification.userId,
+      ...this.toResponse(verification),
+    }));
+  }
+
+  // Approve or reject a pending submission (tier 3, or a verifier referral)
+  async review(
+    id: string,
+    decision: 'approve' | 'reject',
+    notes: string | undefined,
+    reviewerId: string,
+  ) {
+    const verification = await this.kycVerification.findUnique({
+      where: { id },
+    });
+
+    if (!verification) {
+      throw new NotFoundException('Verification not found');
+    }
+
+    const approved = decision === 'approve';
+
+    const updated = await this.$transaction(
+      async (tx: Prisma.TransactionClient) => {
+        const claimed = await tx.kycVerification.updateMany({
+          where: { id, status: 'pending' },
+          data: {
+            status: approved ? 'verified' : 'rejected',
+            reviewNotes: notes,
+            reviewedBy: reviewerId,
+            reviewedAt: new Date(),
+            ...(!approved && { failureReason: notes ?? 'Rejected on review' }),
+          },
+        });
+
+        if (claimed.count === 0) {
+          throw new BadRequestException('Verification was already reviewed');
+        }
+
+        if (approved) {
+          await this.upgradeTier(tx, verification.userId, verification.tier);
+        }
+
+        return tx.kycVerification.findUniqueOrThrow({ where: { id } });
+      },
+    );
+
+    return { user_id: updated.userId, ...this.toResponse(updated) };
+  }
+
+  // ==================== STATUS ====================
+
+  async getKycStatus(userId: string) {
+    const wallet = await this.walletService.getOrCreateWallet(userId);
+    const verifications = await this.kycVerification.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return {
+      tier: wallet.tier,
+      verifications: verifications.map((verification) =>
+        this.toResponse(verification),
+      ),
+    };
+  }
+
+  // Raise the wallet tier; never lowers a tier set by an admin or later KYC
+  private async upgradeTier(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    tier: string,
+  ) {
+    const lowerTiers = WALLET_TIERS.slice(0, WALLET_TIERS.indexOf(tier));
+
+    await tx.wallet.updateMany({
+      where: { userId, tier: { in: lowerTiers } },
+      data: { tier },
+    });
+  }
+
+  // Keep only the last four characters of an identifier
+  private mask(value: string): string {
+    return value.slice(-4).padStart(value.length, '*');
+  }
+
+  private toResponse(verification: KycVerification) {
+    return {
+      id: verification.id,
+      tier: verification.tier,
+      status: verification.status,
+      data: verification.data,
+      provider: verification.provider,
+      failure_reason: verification.failureReason,
+      review_notes: verification.reviewNotes,
+      reviewed_at: verification.reviewedAt,
+      created_at: verification.createdAt,
+    };
+  }
+}
@@ -0,0 +1,28 @@
+// Injection token for the active IdentityVerifier implementation
+export const IDENTITY_VERIFIER = 'IDENTITY_VERIFIER';
+
+export interface IdentityVerificationRequest {
+  userId: string;
+  tier: string;
+  fullName: string;
+  // Unmasked details as submitted (BVN, phone, ID number, address, ...)
+  details: Record<string, string>;
+}
+
+export interface IdentityVerificationResult {
+  // manual_review leaves the submission pending for an admin
+  outcome: 'verified' | 'rejected' | 'manual_review';
+  provider: string;
+  reference?: string;
+  reason?: string;
+}
+
+/**
+ * Checks identity details with a KYC provider. Add a real provider to
+ * identityVerifierProvider and select it with KYC_VERIFIER.
+ */
+export interface IdentityVerifier {
+  verify(
+    request: IdentityVerificationRequest,
+  ): Promise<IdentityVerificationResult>;
+}
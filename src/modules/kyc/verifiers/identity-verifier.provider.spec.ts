@@ -0,0 +1,53 @@
+import { FactoryProvider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { identityVerifierProvider } from './identity-verifier.provider';
+import { IdentityVerifier } from './identity-verifier.interface';
+import { LocalIdentityVerifier } from './local-identity.verifier';
+import { ManualReviewIdentityVerifier } from './manual-review-identity.verifier';
+
+describe('identityVerifierProvider', () => {
+  const { useFactory } =
+    identityVerifierProvider as FactoryProvider<IdentityVerifier>;
+
+  const build = (env: string, kycVerifier: string) =>
+    useFactory(
+      new ConfigService({ app: { env, kycVerifier } }),
+    ) as IdentityVerifier;
+
+  describe.each(['development', 'test', 'production'])('in %s', (env) => {
+    it('uses manual review', () => {
+      expect(build(env, 'manual')).toBeInstanceOf(ManualReviewIdentityVerifier);
+    });
+
+    it('rejects an unknown verifier', () => {
+      expect(() => build(env, 'acme')).toThrow('Unknown KYC_VERIFIER "acme"');
+    });
+  });
+
+  it.each(['development', 'test'])('uses the local stub in %s', (env) => {
+    expect(build(env, 'local')).toBeInstanceOf(LocalIdentityVerifier);
+  });
+
+  it('refuses the local stub in production', () => {
+    expect(() => build('production', 'local')).toThrow(
+      'KYC_VERIFIER=local is not allowed in production',
+    );
+  });
+
+  it('fails without app configuration', () => {
+    expect(() => useFactory(new ConfigService({}))).toThrow(
+      'App configuration not found',
+    );
+  });
+
+  it('leaves every submission pending with manual review', async () => {
+    await expect(
+      build('production', 'manual').verify({
+        userId: 'user_1',
+        tier: 'tier_2',
+        fullName: 'Ada Obi',
+        details: { bvn: '12345678901', phone: '08012345678' },
+      }),
+    ).resolves.toEqual({ outcome: 'manual_review', provider: 'manual' });
+  });
+});
@@ -0,0 +1,38 @@
+import { Provider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AppConfig } from '../../../config/app.config';
+import {
+  IDENTITY_VERIFIER,
+  IdentityVerifier,
+} from './identity-verifier.interface';
+import { LocalIdentityVerifier } from './local-identity.verifier';
+import { ManualReviewIdentityVerifier } from './manual-review-identity.verifier';
+
+/**
+ * Binds IDENTITY_VERIFIER to the verifier named by KYC_VERIFIER (manual
+ * review by default). Startup fails for an unknown name, or for the local
+ * stub in production, so a deployment can't verify users on format checks
+ * alone.
+ */
+export const identityVerifierProvider: Provider = {
+  provide: IDENTITY_VERIFIER,
+  inject: [ConfigService],
+  useFactory: (config: ConfigService): IdentityVerifier => {
+    const appConfig = config.get<AppConfig>('app');
+    if (!appConfig) {
+      throw new Error('App configuration not found');
+    }
+
+    switch (appConfig.kycVerifier) {
+      case 'manual':
+        return new ManualReviewIdentityVerifier();
+      case 'local':
+        if (appConfig.env === 'production') {
+          throw new Error('KYC_VERIFIER=local is not allowed in production');
+        }
+        return new LocalIdentityVerifier();
+      default:
+        throw new Error(`Unknown KYC_VERIFIER "${appConfig.kycVerifier}"`);
+    }
+  },
+};
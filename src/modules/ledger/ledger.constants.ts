@@ -0,0 +1,67 @@
+// System ledger accounts (seeded by migration, created on demand otherwise)
+export const LEDGER_ACCOUNTS = {
+  PAYSTACK_CLEARING: 'paystack_clearing',
+  FEES_REVENUE: 'fees_revenue',
+  OPENING_BALANCE: 'opening_balance',
+  PAYOUTS_PENDING: 'payouts_pending',
+  REFUNDS_PENDING: 'refunds_pending',
+  PROCESSOR_FEES: 'processor_fees',
+  SUBSCRIPTION_REVENUE: 'subscription_revenue',
+} as const;
+
+export type LedgerAccountType =
+  | 'asset'
+  | 'liability'
+  | 'equity'
+  | 'revenue'
+  | 'expense';
+
+export const SYSTEM_ACCOUNT_DEFINITIONS: Record<
+  string,
+  { name: string; type: LedgerAccountType }
+> = {
+  [LEDGER_ACCOUNTS.PAYSTACK_CLEARING]: {
+    name: 'Paystack clearing',
+    type: 'asset',
+  },
+  [LEDGER_ACCOUNTS.FEES_REVENUE]: { name: 'Fees revenue', type: 'revenue' },
+  [LEDGER_ACCOUNTS.OPENING_BALANCE]: {
+    name: 'Opening balances',
+    type: 'equity',
+  },
+  [LEDGER_ACCOUNTS.PAYOUTS_PENDING]: {
+    name: 'Payouts pending',
+    type: 'liability',
+  },
+  [LEDGER_ACCOUNTS.REFUNDS_PENDING]: {
+    name: 'Refunds pending',
+    type: 'liability',
+  },
+  [LEDGER_ACCOUNTS.PROCESSOR_FEES]: {
+    name: 'Payment processor fees',
+    type: 'expense',
+  },
+  [LEDGER_ACCOUNTS.SUBSCRIPTION_REVENUE]: {
+    name: 'Subscription revenue',
+    type: 'revenue',
+  },
+};
+
+// Accounts whose balance grows with debits; all others grow with credits
+export const DEBIT_NORMAL_TYPES: LedgerAccountType[] = ['asset', 'expense'];
+
+export const JOURNAL_TYPES = {
+  DEPOSIT: 'deposit',
+  TRANSFER: 'transfer',
+  WITHDRAWAL: 'withdrawal',
+  FEE: 'fee',
+  REFUND: 'refund',
+  CHARGEBACK: 'chargeback',
+  REVERSAL: 'reversal',
+  SUBSCRIPTION: 'subscription',
+  OPENING_BALANCE: 'opening_balance',
+} as const;
+
+export type LedgerDirection = 'debit' | 'credit';
+
+export const walletAccountCode = (walletId: string) => `wallet:${walletId}`;
@@ -0,0 +1,57 @@
+import { Controller, Get, Param, UseGuards } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiParam,
+} from '@nestjs/swagger';
+import { LedgerService } from './ledger.service';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { buildSuccessResponse } from 'src/common/utils/api-response';
+
+@ApiTags('Ledger')
+@ApiBearerAuth()
+@ApiSecurity('api_key', ['x-api-key'])
+@Controller('ledger')
+@UseGuards(JwtAuthGuard, ApiKeyGuard, AdminGuard)
+export class LedgerController {
+  constructor(private readonly ledgerService: LedgerService) {}
+
+  @Get('trial-balance')
+  @ApiOperation({ summary: 'Get debit and credit totals for every account' })
+  @ApiResponse({ status: 200, description: 'Trial balance retrieved' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+  })
+  async getTrialBalance() {
+    const result = await this.ledgerService.getTrialBalance();
+    return buildSuccessResponse('Trial balance retrieved', result);
+  }
+
+  @Get('journals/:reference')
+  @ApiOperation({ summary: 'Get a journal and its entries' })
+  @ApiResponse({ status: 200, description: 'Journal retrieved' })
+  @ApiResponse({ status: 404, description: 'Journal not found' })
+  @ApiParam({ name: 'reference', description: 'Journal reference' })
+  async getJournal(@Param('reference') reference: string) {
+    const result = await this.ledgerService.getJournal(reference);
+    return buildSuccessResponse('Journal retrieved', result);
+  }
+
+  @Get('wallets/:walletNumber/check')
+  @ApiOperation({
+    summary: 'Compare a wallet balance against its ledger entries',
+  })
+  @ApiResponse({ status: 200, description: 'Wallet balance checked' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiParam({ name: 'walletNumber', description: 'Wallet number' })
+  async checkWallet(@Param('walletNumber') walletNumber: string) {
+    const result = await this.ledgerService.checkWalletBalance(walletNumber);
+    return buildSuccessResponse('Wallet balance checked', result);
+  }
+}
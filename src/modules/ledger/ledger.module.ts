@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { LedgerController } from './ledger.controller';
+import { LedgerService } from './ledger.service';
+
+@Module({
+  controllers: [LedgerController],
+  providers: [LedgerService],
+  exports: [LedgerService],
+})
+export class LedgerModule {}
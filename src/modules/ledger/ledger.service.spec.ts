@@ -0,0 +1,165 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { LedgerService, LedgerPosting } from './ledger.service';
+import { JOURNAL_TYPES } from './ledger.constants';
+
+describe('LedgerService', () => {
+  const tx = {
+    ledgerJournal: { create: jest.fn(), findUnique: jest.fn() },
+    ledgerAccount: { findMany: jest.fn() },
+    wallet: { update: jest.fn() },
+    $executeRaw: jest.fn<
+      Promise<number>,
+      [TemplateStringsArray, ...unknown[]]
+    >(),
+  };
+  const client = tx as unknown as Prisma.TransactionClient;
+  const service = new LedgerService();
+
+  // A transfer of 5,000 kobo between two wallets
+  const transfer: LedgerPosting = {
+    reference: 'trf_1',
+    type: JOURNAL_TYPES.TRANSFER,
+    lines: [
+      { accountId: 'acct_sender', direction: 'debit', amount: 5000n },
+      { accountId: 'acct_recipient', direction: 'credit', amount: 5000n },
+    ],
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    tx.ledgerJournal.create.mockResolvedValue({ id: 'journal_1' });
+    tx.ledgerAccount.findMany.mockResolvedValue([
+      { id: 'acct_sender', walletId: 'wallet_sender' },
+      { id: 'acct_recipient', walletId: 'wallet_recipient' },
+    ]);
+    tx.$executeRaw.mockResolvedValue(1);
+  });
+
+  describe('post', () => {
+    it('records the journal with its entries', async () => {
+      await expect(service.post(client, transfer)).resolves.toEqual({
+        id: 'journal_1',
+      });
+
+      expect(tx.ledgerJournal.create).toHaveBeenCalledWith({
+        data: {
+          reference: 'trf_1',
+          type: JOURNAL_TYPES.TRANSFER,
+          description: undefined,
+          metadata: undefined,
+          entries: {
+            create: [
+              { accountId: 'acct_sender', direction: 'debit', amount: 5000n },
+              {
+                accountId: 'acct_recipient',
+                direction: 'credit',
+                amount: 5000n,
+              },
+            ],
+          },
+        },
+      });
+    });
+
+    it('debits the sender conditionally and credits the recipient', async () => {
+      await service.post(client, transfer);
+
+      expect(tx.$executeRaw).toHaveBeenCalledTimes(1);
+      expect(tx.$executeRaw.mock.calls[0].slice(1)).toEqual([
+        5000n,
+        'wallet_sender',
+        5000n,
+      ]);
+      expect(tx.wallet.update).toHaveBeenCalledWith({
+        where: { id: 'wallet_recipient' },
+        data: { balance: { increment: 5000n } },
+      });
+    });
+
+    it('refuses a debit the wallet balance cannot cover', async () => {
+      tx.$executeRaw.mockResolvedValue(0);
+
+      await expect(service.post(client, transfer)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(tx.wallet.update).not.toHaveBeenCalled();
+    });
+
+    it('leaves system accounts without a wallet alone', async () => {
+      tx.ledgerAccount.findMany.mockResolvedValue([
+        { id: 'acct_recipient', walletId: 'wallet_recipient' },
+      ]);
+
+      await service.post(client, {
+        reference: 'dep_1',
+        type: JOURNAL_TYPES.DEPOSIT,
+        lines: [
+          { accountId: 'acct_clearing', direction: 'debit', amount: 5000n },
+          { accountId: 'acct_recipient', direction: 'credit', amount: 5000n },
+        ],
+      });
+
+      expect(tx.$executeRaw).not.toHaveBeenCalled();
+      expect(tx.wallet.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('rejects an unbalanced journal before writing anything', async () => {
+      await expect(
+        service.post(client, {
+          ...transfer,
+          lines: [
+            { accountId: 'acct_sender', direction: 'debit', amount: 5000n },
+            { accountId: 'acct_recipient', direction: 'credit', amount: 4000n },
+          ],
+        }),
+      ).rejects.toThrow('Unbalanced journal trf_1');
+      expect(tx.ledgerJournal.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects a journal with fewer than two entries', async () => {
+      await expect(
+        service.post(client, { ...transfer, lines: [transfer.lines[0]] }),
+      ).rejects.toThrow('A journal needs at least two entries');
+    });
+
+    it('rejects entries that are not positive', async () => {
+      await expect(
+        service.post(client, {
+          ...transfer,
+          lines: [
+            { accountId: 'acct_sender', direction: 'debit', amount: 0n },
+            { accountId: 'acct_recipient', direction: 'credit', amount: 0n },
+          ],
+        }),
+      ).rejects.toThrow('Ledger entry amounts must be positive');
+    });
+  });
+
+  describe('reverse', () => {
+    it('posts the mirror image of the original journal', async () => {
+      tx.ledgerJournal.findUnique.mockResolvedValue({
+        entries: [
+          { accountId: 'acct_sender', direction: 'debit', amount: 5000n },
+          { accountId: 'acct_recipient', direction: 'credit', amount: 5000n },
+        ],
+      });
+
+      await service.reverse(client, 'trf_1', 'rev_1');
+
+      const [[{ data }]] = tx.ledgerJournal.create.mock.calls as [
+        [{ data: Prisma.LedgerJournalCreateInput }],
+      ];
+      expect(data.type).toBe(JOURNAL_TYPES.REVERSAL);
+      expect(data.entries?.create).toEqual([
+        { accountId: 'acct_sender', direction: 'credit', amount: 5000n },
+        { accountId: 'acct_recipient', direction: 'debit', amount: 5000n },
+      ]);
+      expect(tx.$executeRaw.mock.calls[0].slice(1)).toEqual([
+        5000n,
+        'wallet_recipient',
+        5000n,
+      ]);
+    });
+  });
+});
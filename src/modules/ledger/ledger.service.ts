@@ -0,0 +1,308 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { toMoneyResponse } from '../../common/utils/money';
+import {
+  DEBIT_NORMAL_TYPES,
+  JOURNAL_TYPES,
+  LedgerAccountType,
+  LedgerDirection,
+  SYSTEM_ACCOUNT_DEFINITIONS,
+  walletAccountCode,
+} from './ledger.constants';
+
+export interface LedgerLine {
+  accountId: string;
+  direction: LedgerDirection;
+  amount: bigint; // kobo, always positive
+}
+
+export interface LedgerPosting {
+  reference: string;
+  type: string;
+  description?: string;
+  metadata?: Record<string, any>;
+  lines: LedgerLine[];
+}
+
+@Injectable()
+export class LedgerService extends PrismaClient {
+  constructor() {
+    super();
+  }
+
+  // ==================== ACCOUNTS ====================
+
+  // Get (or lazily create) the liability account backing a wallet
+  getWalletAccount(tx: Prisma.TransactionClient, walletId: string) {
+    return tx.ledgerAccount.upsert({
+      where: { walletId },
+      create: {
+        walletId,
+        code: walletAccountCode(walletId),
+        name: `Wallet ${walletId}`,
+        type: 'liability',
+      },
+      update: {},
+    });
+  }
+
+  // Get (or lazily create) one of the system accounts
+  getSystemAccount(tx: Prisma.TransactionClient, code: string) {
+    const definition = SYSTEM_ACCOUNT_DEFINITIONS[code];
+    if (!definition) {
+      throw new Error(`Unknown system ledger account: ${code}`);
+    }
+
+    return tx.ledgerAccount.upsert({
+      where: { code },
+      create: { code, name: definition.name, type: definition.type },
+      update: {},
+    });
+  }
+
+  // ==================== POSTING ====================
+
+  // Post a balanced journal and apply its effect to any wallet balances
+  async post(tx: Prisma.TransactionClient, posting: LedgerPosting) {
+    if (posting.lines.length < 2) {
+      throw new Error('A journal needs at least two entries');
+    }
+
+    let debits = 0n;
+    let credits = 0n;
+    for (const line of posting.lines) {
+      if (line.amount <= 0n) {
+        throw new Error('Ledger entry amounts must be positive');
+      }
+      if (line.direction === 'debit') {
+        debits += line.amount;
+      } else {
+        credits += line.amount;
+      }
+    }
+
+    if (debits !== credits) {
+      throw new Error(
+        `Unbalanced journal ${posting.reference}: debits ${debits} != credits ${credits}`,
+      );
+    }
+
+    const journal = await tx.ledgerJournal.create({
+      data: {
+        reference: posting.reference,
+        type: posting.type,
+        description: posting.description,
+        metadata: posting.metadata,
+        entries: {
+          create: posting.lines.map((line) => ({
+            accountId: line.accountId,
+            direction: line.direction,
+            amount: line.amount,
+          })),
+        },
+      },
+    });
+
+    await this.applyWalletBalances(tx, posting.lines);
+
+    return journal;
+  }
+
+  // Post the mirror image of an existing journal
+  async reverse(
+    tx: Prisma.TransactionClient,
+    originalReference: string,
+    reference: string,
+    description?: string,
+  ) {
+    const original = await tx.ledgerJournal.findUnique({
+      where: { reference: originalReference },
+      include: { entries: true },
+    });
+
+    if (!original) {
+      throw new NotFoundException('Journal not found');
+    }
+
+    return this.post(tx, {
+      reference,
+      type: JOURNAL_TYPES.REVERSAL,
+      description: description ?? `Reversal of ${originalReference}`,
+      metadata: { reversal_of: originalReference },
+      lines: original.entries.map((entry) => ({
+        accountId: entry.accountId,
+        direction: entry.direction === 'debit' ? 'credit' : 'debit',
+        amount: entry.amount,
+      })),
+    });
+  }
+
+  // Wallet.balance is a cached projection of the wallet's ledger account
+  private async applyWalletBalances(
+    tx: Prisma.TransactionClient,
+    lines: LedgerLine[],
+  ) {
+    const accounts = await tx.ledgerAccount.findMany({
+      where: {
+        id: { in: [...new Set(lines.map((line) => line.accountId))] },
+        walletId: { not: null },
+      },
+    });
+    const walletByAccount = new Map<string, string | null>(
+      accounts.map((account) => [account.id, account.walletId]),
+    );
+
+    for (const line of lines) {
+      const walletId = walletByAccount.get(line.accountId);
+      if (!walletId) {
+        continue;
+      }
+
+      if (line.direction === 'credit') {
+        await tx.wallet.update({
+          where: { id: walletId },
+          data: { balance: { increment: line.amount } },
+        });
+        continue;
+      }
+
+      // Conditional decrement: never lets a concurrent debit overdraw or
+      // spend funds that are on hold
+      const updated = await tx.$executeRaw`
+        UPDATE "Wallet"
+        SET "balance" = "balance" - ${line.amount}, "updatedAt" = NOW()
+        WHERE "id" = ${walletId}
+          AND "balance" - "heldBalance" >= ${line.amount}
+      `;
+
+      if (updated === 0) {
+        throw new BadRequestException('Insufficient balance');
+      }
+    }
+  }
+
+  // ==================== AUDIT ====================
+
+  // Compute an account balance from its entries, signed by normal side
+  async getAccountBalance(accountId: string, type: string): Promise<bigint> {
+    const sums = await this.ledgerEntry.groupBy({
+      by: ['direction'],
+      where: { accountId },
+      _sum: { amount: true },
+    });
+
+    return this.normalBalance(type, sums);
+  }
+
+  // Compare a wallet's cached balance against its ledger entries
+  async checkWalletBalance(walletNumber: string) {
+    const wallet = await this.wallet.findUnique({
+      where: { walletNumber },
+      include: { ledgerAccount: true },
+    });
+
+    if (!wallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    const ledgerBalance = wallet.ledgerAccount
+      ? await this.getAccountBalance(
+          wallet.ledgerAccount.id,
+          wallet.ledgerAccount.type,
+        )
+      : 0n;
+
+    return {
+      wallet_number: wallet.walletNumber,
+      wallet_balance: toMoneyResponse(wallet.balance),
+      ledger_balance: toMoneyResponse(ledgerBalance),
+      in_balance: ledgerBalance === wallet.balance,
+    };
+  }
+
+  // Debit and credit totals per account; total debits must equal total credits
+  async getTrialBalance() {
+    const [accounts, sums] = await Promise.all([
+      this.ledgerAccount.findMany({ orderBy: { code: 'asc' } }),
+      this.ledgerEntry.groupBy({
+        by: ['accountId', 'direction'],
+        _sum: { amount: true },
+      }),
+    ]);
+
+    let totalDebits = 0n;
+    let totalCredits = 0n;
+
+    const rows = accounts.map((account) => {
+      const accountSums = sums.filter((sum) => sum.accountId === account.id);
+      const debits = this.sumFor(accountSums, 'debit');
+      const credits = this.sumFor(accountSums, 'credit');
+      totalDebits += debits;
+      totalCredits += credits;
+
+      return {
+        code: account.code,
+        name: account.name,
+        type: account.type,
+        debits: toMoneyResponse(debits),
+        credits: toMoneyResponse(credits),
+        balance: toMoneyResponse(this.normalBalance(account.type, accountSums)),
+      };
+    });
+
+    return {
+      accounts: rows,
+      total_debits: toMoneyResponse(totalDebits),
+      total_credits: toMoneyResponse(totalCredits),
+      balanced: totalDebits === totalCredits,
+    };
+  }
+
+  async getJournal(reference: string) {
+    const journal = await this.ledgerJournal.findUnique({
+      where: { reference },
+      include: { entries: { include: { account: true } } },
+    });
+
+    if (!journal) {
+      throw new NotFoundException('Journal not found');
+    }
+
+    return {
+      reference: journal.reference,
+      type: journal.type,
+      description: journal.description,
+      metadata: journal.metadata,
+      created_at: journal.createdAt,
+      entries: journal.entries.map((entry) => ({
+        account: entry.account.code,
+        direction: entry.direction,
+        amount: toMoneyResponse(entry.amount),
+      })),
+    };
+  }
+
+  private sumFor(
+    sums: { direction: string; _sum: { amount: bigint | null } }[],
+    direction: LedgerDirection,
+  ): bigint {
+    return sums
+      .filter((sum) => sum.direction === direction)
+      .reduce((total, sum) => total + (sum._sum.amount ?? 0n), 0n);
+  }
+
+  private normalBalance(
+    type: string,
+    sums: { direction: string; _sum: { amount: bigint | null } }[],
+  ): bigint {
+    const debits = this.sumFor(sums, 'debit');
+    const credits = this.sumFor(sums, 'credit');
+    return DEBIT_NORMAL_TYPES.includes(type as LedgerAccountType)
+      ? debits - credits
+      : credits - debits;
+  }
+}
@@ -0,0 +1,67 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsOptional, IsString, Min, MaxLength } from 'class-validator';
+
+export class UpsertLimitDto {
+  @ApiProperty({
+    example: 5000000,
+    description: 'Largest single operation in kobo (omit for no limit)',
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  per_transaction?: number;
+
+  @ApiProperty({
+    example: 20000000,
+    description: 'Total per UTC day in kobo (omit for no limit)',
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  daily?: number;
+
+  @ApiProperty({
+    example: 100000000,
+    description: 'Total per UTC month in kobo (omit for no limit)',
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @IsOptional()
+  monthly?: number;
+
+  @ApiProperty({
+    example: 10,
+    description:
+      'Most operations allowed within velocity_window_seconds (optional)',
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  velocity_count?: number;
+
+  @ApiProperty({
+    example: 60,
+    description: 'Length of the velocity window in seconds (optional)',
+    required: false,
+  })
+  @IsInt()
+  @Min(1)
+  @IsOptional()
+  velocity_window_seconds?: number;
+}
+
+export class UpsertUserLimitDto extends UpsertLimitDto {
+  @ApiProperty({
+    example: 'Verified merchant with high volume',
+    description: 'Why the user gets different limits (optional)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,97 @@
+import { findLimitViolation, mergeLimits, LimitUsage } from './limit-rules';
+
+describe('limit rules', () => {
+  const now = new Date('2026-10-19T15:30:00.000Z');
+  const noUsage: LimitUsage = {
+    daily: 0n,
+    monthly: 0n,
+    velocityCount: 0,
+    oldestInWindow: null,
+  };
+
+  describe('mergeLimits', () => {
+    it('prefers user overrides and falls back to the tier', () => {
+      const limits = mergeLimits(
+        { perTransaction: 1000n, daily: 5000n, velocityCount: 5 },
+        { daily: 9000n, velocityCount: null },
+      );
+
+      expect(limits).toEqual({
+        perTransaction: 1000n,
+        daily: 9000n,
+        monthly: null,
+        velocityCount: 5,
+        velocityWindowSeconds: null,
+      });
+    });
+  });
+
+  describe('findLimitViolation', () => {
+    const limits = mergeLimits(
+      {
+        perTransaction: 1000n,
+        daily: 3000n,
+        monthly: 10000n,
+        velocityCount: 3,
+        velocityWindowSeconds: 60,
+      },
+      null,
+    );
+
+    it('allows operations inside every limit', () => {
+      expect(findLimitViolation(limits, noUsage, 1000n, now)).toBeNull();
+    });
+
+    it('rejects amounts above the per-transaction cap', () => {
+      expect(findLimitViolation(limits, noUsage, 1001n, now)).toMatchObject({
+        limit: 'per_transaction',
+        resetsAt: null,
+      });
+    });
+
+    it('resets the daily cap at the next UTC midnight', () => {
+      const violation = findLimitViolation(
+        limits,
+        { ...noUsage, daily: 2500n, monthly: 2500n },
+        600n,
+        now,
+      );
+
+      expect(violation).toMatchObject({ limit: 'daily' });
+      expect(violation?.resetsAt?.toISOString()).toBe(
+        '2026-10-20T00:00:00.000Z',
+      );
+    });
+
+    it('resets the monthly cap on the first of next month', () => {
+      const violation = findLimitViolation(
+        limits,
+        { ...noUsage, monthly: 9500n },
+        600n,
+        now,
+      );
+
+      expect(violation?.resetsAt?.toISOString()).toBe(
+        '2026-11-01T00:00:00.000Z',
+      );
+    });
+
+    it('frees a velocity slot when the oldest operation leaves the window', () => {
+      const violation = findLimitViolation(
+        limits,
+        {
+          ...noUsage,
+          velocityCount: 3,
+          oldestInWindow: new Date('2026-10-19T15:29:30.000Z'),
+        },
+        100n,
+        now,
+      );
+
+      expect(violation).toMatchObject({ limit: 'velocity', max: 3 });
+      expect(violation?.resetsAt?.toISOString()).toBe(
+        '2026-10-19T15:30:30.000Z',
+      );
+    });
+  });
+});
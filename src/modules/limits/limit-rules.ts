@@ -0,0 +1,120 @@
+// Null means "no limit" for every field
+export interface EffectiveLimits {
+  perTransaction: bigint | null;
+  daily: bigint | null;
+  monthly: bigint | null;
+  velocityCount: number | null;
+  velocityWindowSeconds: number | null;
+}
+
+export interface LimitUsage {
+  daily: bigint; // kobo since the start of the UTC day
+  monthly: bigint; // kobo since the start of the UTC month
+  velocityCount: number; // operations inside the velocity window
+  oldestInWindow: Date | null;
+}
+
+export interface LimitViolation {
+  limit: 'per_transaction' | 'daily' | 'monthly' | 'velocity';
+  code: string;
+  max: bigint | number;
+  resetsAt: Date | null;
+}
+
+export const LIMIT_ERROR_CODES = {
+  per_transaction: 'PER_TRANSACTION_LIMIT_EXCEEDED',
+  daily: 'DAILY_LIMIT_EXCEEDED',
+  monthly: 'MONTHLY_LIMIT_EXCEEDED',
+  velocity: 'VELOCITY_LIMIT_EXCEEDED',
+} as const;
+
+type LimitFields = {
+  [K in keyof EffectiveLimits]?: EffectiveLimits[K];
+};
+
+/**
+ * Combines tier limits with a user's overrides; override fields left null
+ * fall back to the tier
+ */
+export function mergeLimits(
+  tier: LimitFields | null,
+  override: LimitFields | null,
+): EffectiveLimits {
+  const pick = <K extends keyof EffectiveLimits>(key: K) =>
+    override?.[key] ?? tier?.[key] ?? null;
+
+  return {
+    perTransaction: pick('perTransaction'),
+    daily: pick('daily'),
+    monthly: pick('monthly'),
+    velocityCount: pick('velocityCount'),
+    velocityWindowSeconds: pick('velocityWindowSeconds'),
+  } as EffectiveLimits;
+}
+
+export const startOfUtcDay = (now: Date) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+
+export const startOfUtcMonth = (now: Date) =>
+  new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+/**
+ * Returns the first limit that `amount` would break, with when it resets,
+ * or null when the operation is allowed
+ */
+export function findLimitViolation(
+  limits: EffectiveLimits,
+  usage: LimitUsage,
+  amount: bigint,
+  now: Date,
+): LimitViolation | null {
+  if (limits.perTransaction !== null && amount > limits.perTransaction) {
+    return {
+      limit: 'per_transaction',
+      code: LIMIT_ERROR_CODES.per_transaction,
+      max: limits.perTransaction,
+      resetsAt: null,
+    };
+  }
+
+  if (limits.daily !== null && usage.daily + amount > limits.daily) {
+    const resetsAt = startOfUtcDay(now);
+    resetsAt.setUTCDate(resetsAt.getUTCDate() + 1);
+    return {
+      limit: 'daily',
+      code: LIMIT_ERROR_CODES.daily,
+      max: limits.daily,
+      resetsAt,
+    };
+  }
+
+  if (limits.monthly !== null && usage.monthly + amount > limits.monthly) {
+    const resetsAt = startOfUtcMonth(now);
+    resetsAt.setUTCMonth(resetsAt.getUTCMonth() + 1);
+    return {
+      limit: 'monthly',
+      code: LIMIT_ERROR_CODES.monthly,
+      max: limits.monthly,
+      resetsAt,
+    };
+  }
+
+  if (
+    limits.velocityCount !== null &&
+    limits.velocityWindowSeconds !== null &&
+    usage.velocityCount >= limits.velocityCount
+  ) {
+    // A slot frees up when the oldest operation leaves the window
+    const oldest = usage.oldestInWindow ?? now;
+    return {
+      limit: 'velocity',
+      code: LIMIT_ERROR_CODES.velocity,
+      max: limits.velocityCount,
+      resetsAt: new Date(
+        oldest.getTime() + limits.velocityWindowSeconds * 1000,
+      ),
+    };
+  }
+
+  return null;
+}
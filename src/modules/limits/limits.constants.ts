@@ -0,0 +1,17 @@
+export const WALLET_TIERS = ['tier_1', 'tier_2', 'tier_3'];
+
+export const DEFAULT_WALLET_TIER = 'tier_1';
+
+export const LIMIT_OPERATIONS = {
+  TRANSFER: 'transfer',
+  DEPOSIT: 'deposit',
+} as const;
+
+export type LimitOperation =
+  (typeof LIMIT_OPERATIONS)[keyof typeof LIMIT_OPERATIONS];
+
+// Transaction types that count towards each operation's usage
+export const LIMIT_TRANSACTION_TYPES: Record<LimitOperation, string[]> = {
+  transfer: ['transfer_out'],
+  deposit: ['deposit'],
+};
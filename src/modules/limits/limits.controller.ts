@@ -0,0 +1,101 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  UseGuards,
+  Body,
+  Param,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiParam,
+} from '@nestjs/swagger';
+import { LimitsService } from './limits.service';
+import { UpsertLimitDto, UpsertUserLimitDto } from './dto/upsert-limit.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { buildSuccessResponse } from 'src/common/utils/api-response';
+
+@ApiTags('Limits')
+@ApiBearerAuth()
+@ApiSecurity('api_key', ['x-api-key'])
+@Controller('admin/limits')
+@UseGuards(JwtAuthGuard, ApiKeyGuard, AdminGuard)
+export class LimitsController {
+  constructor(private readonly limitsService: LimitsService) {}
+
+  @Get('tiers')
+  @ApiOperation({ summary: 'List the limits of every wallet tier' })
+  @ApiResponse({ status: 200, description: 'Tier limits retrieved' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+  })
+  async getTierLimits() {
+    const result = await this.limitsService.getTierLimits();
+    return buildSuccessResponse('Tier limits retrieved', result);
+  }
+
+  @Put('tiers/:tier/:operation')
+  @ApiOperation({ summary: 'Set the limits of a tier for an operation' })
+  @ApiResponse({ status: 200, description: 'Tier limit updated' })
+  @ApiResponse({ status: 400, description: 'Unknown tier or operation' })
+  @ApiParam({ name: 'tier', description: 'tier_1, tier_2 or tier_3' })
+  @ApiParam({ name: 'operation', description: 'transfer or deposit' })
+  async setTierLimit(
+    @Param('tier') tier: string,
+    @Param('operation') operation: string,
+    @Body() dto: UpsertLimitDto,
+  ) {
+    const result = await this.limitsService.setTierLimit(tier, operation, dto);
+    return buildSuccessResponse('Tier limit updated', result);
+  }
+
+  @Get('users/:userId')
+  @ApiOperation({ summary: "List a user's limit overrides" })
+  @ApiResponse({ status: 200, description: 'User limits retrieved' })
+  @ApiParam({ name: 'userId', description: 'User ID' })
+  async getUserLimits(@Param('userId') userId: string) {
+    const result = await this.limitsService.getUserLimits(userId);
+    return buildSuccessResponse('User limits retrieved', result);
+  }
+
+  @Put('users/:userId/:operation')
+  @ApiOperation({ summary: "Override a user's limits for an operation" })
+  @ApiResponse({ status: 200, description: 'User limit updated' })
+  @ApiResponse({ status: 400, description: 'Unknown operation' })
+  @ApiParam({ name: 'userId', description: 'User ID' })
+  @ApiParam({ name: 'operation', description: 'transfer or deposit' })
+  async setUserLimit(
+    @Param('userId') userId: string,
+    @Param('operation') operation: string,
+    @Body() dto: UpsertUserLimitDto,
+  ) {
+    const result = await this.limitsService.setUserLimit(
+      userId,
+      operation,
+      dto,
+      dto.reason,
+    );
+    return buildSuccessResponse('User limit updated', result);
+  }
+
+  @Delete('users/:userId/:operation')
+  @ApiOperation({ summary: 'Remove a user override so tier limits apply' })
+  @ApiResponse({ status: 200, description: 'User limit removed' })
+  @ApiParam({ name: 'userId', description: 'User ID' })
+  @ApiParam({ name: 'operation', description: 'transfer or deposit' })
+  async removeUserLimit(
+    @Param('userId') userId: string,
+    @Param('operation') operation: string,
+  ) {
+    await this.limitsService.removeUserLimit(userId, operation);
+    return buildSuccessResponse('User limit removed');
+  }
+}
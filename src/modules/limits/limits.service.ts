@@ -0,0 +1,300 @@
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Prisma, PrismaClient, TierLimit } from '@prisma/client';
+import { formatMinorUnits, toMoneyResponse } from '../../common/utils/money';
+import {
+  DEFAULT_WALLET_TIER,
+  LIMIT_OPERATIONS,
+  LIMIT_TRANSACTION_TYPES,
+  WALLET_TIERS,
+  LimitOperation,
+} from './limits.constants';
+import {
+  EffectiveLimits,
+  LimitUsage,
+  findLimitViolation,
+  mergeLimits,
+  startOfUtcDay,
+  startOfUtcMonth,
+} from './limit-rules';
+import { UpsertLimitDto } from './dto/upsert-limit.dto';
+
+export interface LimitCheckOptions {
+  // Check inside the caller's transaction, with the user's wallet row
+  // locked until it commits
+  tx?: Prisma.TransactionClient;
+  // False for amounts that continue an operation already counted against
+  // the velocity limit, such as later rows of a best-effort batch
+  countsTowardVelocity?: boolean;
+}
+
+const LIMIT_LABELS = {
+  per_transaction: 'Per-transaction',
+  daily: 'Daily',
+  monthly: 'Monthly',
+  velocity: 'Velocity',
+};
+
+@Injectable()
+export class LimitsService extends PrismaClient {
+  constructor() {
+    super();
+  }
+
+  // ==================== ENFORCEMENT ====================
+
+  // Throw a 403 naming the limit and its reset time if `amount` breaks one.
+  // Run it in the transaction that posts the operation: the wallet lock
+  // makes concurrent operations check one after another, each seeing what
+  // the previous one committed, so together they can't exceed a limit.
+  async assertWithinLimits(
+    userId: string,
+    operation: LimitOperation,
+    amount: bigint,
+    tx?: Prisma.TransactionClient,
+  ) {
+    return this.assertBatchWithinLimits(userId, operation, [amount], { tx });
+  }
+
+  // A batch counts as one operation: its largest amount is checked against
+  // the per-transaction limit and its total against the daily and monthly
+  // limits
+  async assertBatchWithinLimits(
+    userId: string,
+    operation: LimitOperation,
+    amounts: bigint[],
+    options: LimitCheckOptions = {},
+  ) {
+    const client = options.tx ?? this;
+    if (options.tx) {
+      await options.tx
+        .$queryRaw`SELECT "id" FROM "Wallet" WHERE "userId" = ${userId} FOR UPDATE`;
+    }
+
+    const now = new Date();
+    const effective = await this.getEffectiveLimits(userId, operation, client);
+    const limits =
+      options.countsTowardVelocity === false
+        ? { ...effective, velocityCount: null }
+        : effective;
+    const usage = await this.getUsage(client, userId, operation, limits, now);
+    const largest = amounts.reduce((max, amount) =>
+      amount > max ? amount : max,
+    );
+    const total = amounts.reduce((sum, amount) => sum + amount, 0n);
+    const violation =
+      findLimitViolation(limits, usage, largest, now) ??
+      findLimitViolation(
+        { ...limits, perTransaction: null },
+        usage,
+        total,
+        now,
+      );
+
+    if (!violation) {
+      return;
+    }
+
+    const max =
+      violation.limit === 'velocity'
+        ? `${violation.max} per ${limits.velocityWindowSeconds}s`
+        : formatMinorUnits(violation.max as bigint);
+
+    throw new ForbiddenException({
+      statusCode: 403,
+      error: 'Forbidden',
+      code: violation.code,
+      limit: violation.limit,
+      max:
+        violation.limit === 'velocity'
+          ? violation.max
+          : toMoneyResponse(violation.max as bigint),
+      resets_at: violation.resetsAt,
+      message: `${LIMIT_LABELS[violation.limit]} ${operation} limit of ${max} exceeded${
+        violation.resetsAt
+          ? `; resets at ${violation.resetsAt.toISOString()}`
+          : ''
+      }`,
+    });
+  }
+
+  async getEffectiveLimits(
+    userId: string,
+    operation: LimitOperation,
+    client: Prisma.TransactionClient = this,
+  ): Promise<EffectiveLimits> {
+    const wallet = await client.wallet.findUnique({ where: { userId } });
+    const tierLimit = await client.tierLimit.findUnique({
+      where: {
+        tier_operation: {
+          tier: wallet?.tier ?? DEFAULT_WALLET_TIER,
+          operation,
+        },
+      },
+    });
+    const override = await client.userLimitOverride.findUnique({
+      where: { userId_operation: { userId, operation } },
+    });
+
+    return mergeLimits(tierLimit, override);
+  }
+
+  // Settled amounts this day and month, and every attempt in the velocity
+  // window (pending ones included, so bursts are caught)
+  private async getUsage(
+    client: Prisma.TransactionClient,
+    userId: string,
+    operation: LimitOperation,
+    limits: EffectiveLimits,
+    now: Date,
+  ): Promise<LimitUsage> {
+    const type = { in: LIMIT_TRANSACTION_TYPES[operation] };
+
+    const [daily, monthly] = await Promise.all(
+      [startOfUtcDay(now), startOfUtcMonth(now)].map((since) =>
+        client.transaction.aggregate({
+          where: { userId, type, status: 'success', createdAt: { gte: since } },
+          _sum: { amount: true },
+        }),
+      ),
+    );
+
+    let recent: { createdAt: Date }[] = [];
+    if (
+      limits.velocityCount !== null &&
+      limits.velocityWindowSeconds !== null
+    ) {
+      recent = await client.transaction.findMany({
+        where: {
+          userId,
+          type,
+          createdAt: {
+            gte: new Date(now.getTime() - limits.velocityWindowSeconds * 1000),
+          },
+        },
+        select: { createdAt: true },
+        orderBy: { createdAt: 'desc' },
+        take: limits.velocityCount,
+      });
+    }
+
+    return {
+      daily: daily._sum.amount ?? 0n,
+      monthly: monthly._sum.amount ?? 0n,
+      velocityCount: recent.length,
+      // The slot that frees up first belongs to the oldest of the last N
+      oldestInWindow: recent.length
+        ? recent[recent.length - 1].createdAt
+        : null,
+    };
+  }
+
+  // ==================== CONFIGURATION ====================
+
+  async getTierLimits() {
+    const limits = await this.tierLimit.findMany({
+      orderBy: [{ tier: 'asc' }, { operation: 'asc' }],
+    });
+
+    return limits.map((limit) => ({
+      tier: limit.tier,
+      operation: limit.operation,
+      ...this.toResponse(limit),
+    }));
+  }
+
+  async setTierLimit(tier: string, operation: string, dto: UpsertLimitDto) {
+    if (!WALLET_TIERS.includes(tier)) {
+      throw new BadRequestException(`Unknown tier: ${tier}`);
+    }
+    this.assertOperation(operation);
+
+    const data = this.toData(dto);
+    const limit = await this.tierLimit.upsert({
+      where: { tier_operation: { tier, operation } },
+      create: { tier, operation, ...data },
+      update: data,
+    });
+
+    return { tier, operation, ...this.toResponse(limit) };
+  }
+
+  async getUserLimits(userId: string) {
+    const overrides = await this.userLimitOverride.findMany({
+      where: { userId },
+      orderBy: { operation: 'asc' },
+    });
+
+    return overrides.map((override) => ({
+      operation: override.operation,
+      reason: override.reason,
+      ...this.toResponse(override),
+    }));
+  }
+
+  async setUserLimit(
+    userId: string,
+    operation: string,
+    dto: UpsertLimitDto,
+    reason?: string,
+  ) {
+    this.assertOperation(operation);
+
+    const data = { ...this.toData(dto), reason };
+    const override = await this.userLimitOverride.upsert({
+      where: { userId_operation: { userId, operation } },
+      create: { userId, operation, ...data },
+      update: data,
+    });
+
+    return { operation, reason: override.reason, ...this.toResponse(override) };
+  }
+
+  async removeUserLimit(userId: string, operation: string) {
+    await this.userLimitOverride.deleteMany({ where: { userId, operation } });
+  }
+
+  private assertOperation(operation: string) {
+    if (!Object.values<string>(LIMIT_OPERATIONS).includes(operation)) {
+      throw new BadRequestException(`Unknown operation: ${operation}`);
+    }
+  }
+
+  // Omitted fields clear the limit (tier) or inherit it (override)
+  private toData(dto: UpsertLimitDto) {
+    return {
+      perTransaction:
+        dto.per_transaction != null ? BigInt(dto.per_transaction) : null,
+      daily: dto.daily != null ? BigInt(dto.daily) : null,
+      monthly: dto.monthly != null ? BigInt(dto.monthly) : null,
+      velocityCount: dto.velocity_count ?? null,
+      velocityWindowSeconds: dto.velocity_window_seconds ?? null,
+    };
+  }
+
+  // Shared by tier limits and user overrides, which have the same fields
+  private toResponse(
+    limit: Pick<
+      TierLimit,
+      | 'perTransaction'
+      | 'daily'
+      | 'monthly'
+      | 'velocityCount'
+      | 'velocityWindowSeconds'
+    >,
+  ) {
+    const money = (value: bigint | null) =>
+      value !== null ? toMoneyResponse(value) : null;
+
+    return {
+      per_transaction: money(limit.perTransaction),
+      daily: money(limit.daily),
+      monthly: money(limit.monthly),
+      velocity_count: limit.velocityCount,
+      velocity_window_seconds: limit.velocityWindowSeconds,
+    };
+  }
+}
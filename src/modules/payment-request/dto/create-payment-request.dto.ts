@@ -0,0 +1,51 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Length,
+  MaxLength,
+  Max,
+} from 'class-validator';
+import { MAX_MINOR_UNITS } from '../../../common/utils/money';
+
+export class CreatePaymentRequestDto {
+  @ApiProperty({
+    example: '1234567890',
+    description: 'Wallet number of the user asked to pay (10-20 digits)',
+  })
+  @IsString()
+  @Length(10, 20)
+  wallet_number: string;
+
+  @ApiProperty({
+    example: 250000,
+    description: 'Amount requested in kobo (100 kobo = 1 Naira)',
+  })
+  @IsInt()
+  @IsPositive()
+  @Max(MAX_MINOR_UNITS)
+  amount: number;
+
+  @ApiProperty({
+    example: 'Dinner on Friday',
+    description: 'What the money is for (optional)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(200)
+  memo?: string;
+
+  @ApiProperty({
+    example: '2026-10-27T18:00:00Z',
+    description:
+      'When the request lapses (optional, at most 30 days ahead; default 7 days)',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  expires_at?: string;
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class DeclinePaymentRequestDto {
+  @ApiProperty({
+    example: 'Already paid in cash',
+    description:
+      'Why the request is declined (optional, shown to the requester)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(200)
+  reason?: string;
+}
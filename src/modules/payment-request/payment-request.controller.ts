@@ -0,0 +1,151 @@
+import {
+  Controller,
+  Post,
+  Get,
+  UseGuards,
+  Body,
+  Param,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { PaymentRequestService } from './payment-request.service';
+import { CreatePaymentRequestDto } from './dto/create-payment-request.dto';
+import { DeclinePaymentRequestDto } from './dto/decline-payment-request.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import type { AuthenticatedUser } from '../auth/decorators/get-user.decorator';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
+import { buildSuccessResponse } from 'src/common/utils/api-response';
+
+const STATUS_QUERY = {
+  name: 'status',
+  required: false,
+  description: 'pending, processing, paid, declined, cancelled or expired',
+};
+
+@ApiTags('Payment Requests')
+@ApiBearerAuth()
+@ApiSecurity('api_key', ['x-api-key'])
+@Controller('wallet/payment-requests')
+@UseGuards(JwtAuthGuard, ApiKeyGuard)
+export class PaymentRequestController {
+  constructor(private paymentRequestService: PaymentRequestService) {}
+
+  @Post()
+  @RequirePermission('transfer')
+  @ApiOperation({ summary: 'Ask another wallet to pay you' })
+  @ApiResponse({ status: 200, description: 'Payment request sent' })
+  @ApiResponse({ status: 400, description: 'Invalid expiry or own wallet' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async create(
+    @GetUser() user: AuthenticatedUser,
+    @Body() dto: CreatePaymentRequestDto,
+  ) {
+    const result = await this.paymentRequestService.createRequest(user.id, dto);
+    return buildSuccessResponse('Payment request sent', result);
+  }
+
+  @Get('incoming')
+  @RequirePermission('read')
+  @ApiOperation({ summary: 'Requests addressed to you (pending by default)' })
+  @ApiResponse({ status: 200, description: 'Payment requests retrieved' })
+  @ApiQuery(STATUS_QUERY)
+  async getIncoming(
+    @GetUser() user: AuthenticatedUser,
+    @Query('status') status?: string,
+  ) {
+    const result = await this.paymentRequestService.getIncoming(
+      user.id,
+      status,
+    );
+    return buildSuccessResponse('Payment requests retrieved', result);
+  }
+
+  @Get('outgoing')
+  @RequirePermission('read')
+  @ApiOperation({ summary: 'Requests you sent' })
+  @ApiResponse({ status: 200, description: 'Payment requests retrieved' })
+  @ApiQuery(STATUS_QUERY)
+  async getOutgoing(
+    @GetUser() user: AuthenticatedUser,
+    @Query('status') status?: string,
+  ) {
+    const result = await this.paymentRequestService.getOutgoing(
+      user.id,
+      status,
+    );
+    return buildSuccessResponse('Payment requests retrieved', result);
+  }
+
+  @Get(':id')
+  @RequirePermission('read')
+  @ApiOperation({ summary: 'Get a request you sent or received' })
+  @ApiResponse({ status: 200, description: 'Payment request retrieved' })
+  @ApiResponse({ status: 404, description: 'Payment request not found' })
+  @ApiParam({ name: 'id', description: 'Payment request id' })
+  async getRequest(
+    @GetUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    const result = await this.paymentRequestService.getRequest(user.id, id);
+    return buildSuccessResponse('Payment request retrieved', result);
+  }
+
+  @Post(':id/accept')
+  @RequirePermission('transfer')
+  @ApiOperation({ summary: 'Pay a request addressed to you' })
+  @ApiResponse({ status: 200, description: 'Payment request paid' })
+  @ApiResponse({
+    status: 400,
+    description: 'Not pending, not the payer or insufficient balance',
+  })
+  @ApiResponse({ status: 404, description: 'Payment request not found' })
+  @ApiParam({ name: 'id', description: 'Payment request id' })
+  async accept(@GetUser() user: AuthenticatedUser, @Param('id') id: string) {
+    const result = await this.paymentRequestService.accept(user.id, id);
+    return buildSuccessResponse('Payment request paid', result);
+  }
+
+  @Post(':id/decline')
+  @RequirePermission('transfer')
+  @ApiOperation({ summary: 'Decline a request addressed to you' })
+  @ApiResponse({ status: 200, description: 'Payment request declined' })
+  @ApiResponse({ status: 400, description: 'Not pending or not the payer' })
+  @ApiParam({ name: 'id', description: 'Payment request id' })
+  async decline(
+    @GetUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Body() dto: DeclinePaymentRequestDto,
+  ) {
+    const result = await this.paymentRequestService.decline(
+      user.id,
+      id,
+      dto.reason,
+    );
+    return buildSuccessResponse('Payment request declined', result);
+  }
+
+  @Post(':id/cancel')
+  @RequirePermission('transfer')
+  @ApiOperation({ summary: 'Withdraw a request you sent' })
+  @ApiResponse({ status: 200, description: 'Payment request cancelled' })
+  @ApiResponse({ status: 400, description: 'Not pending or not the requester' })
+  @ApiParam({ name: 'id', description: 'Payment request id' })
+  async cancel(@GetUser() user: AuthenticatedUser, @Param('id') id: string) {
+    const result = await this.paymentRequestService.cancel(user.id, id);
+    return buildSuccessResponse('Payment request cancelled', result);
+  }
+}
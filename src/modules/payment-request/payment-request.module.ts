@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { WalletModule } from '../wallet/wallet.module';
+import { PaymentRequestController } from './payment-request.controller';
+import { PaymentRequestService } from './payment-request.service';
+
+@Module({
+  imports: [WalletModule],
+  controllers: [PaymentRequestController],
+  providers: [PaymentRequestService],
+})
+export class PaymentRequestModule {}
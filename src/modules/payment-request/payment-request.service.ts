@@ -0,0 +1,269 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { toMinorUnits, toMoneyResponse } from '../../common/utils/money';
+import { WalletService } from '../wallet/wallet.service';
+import { assertWalletCanCredit } from '../wallet/wallet-status';
+import { CreatePaymentRequestDto } from './dto/create-payment-request.dto';
+
+const DEFAULT_EXPIRY_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_EXPIRY_MS = 30 * 24 * 60 * 60 * 1000;
+
+const INCLUDE_PARTIES = {
+  requester: { include: { wallet: true } },
+  payer: true,
+} satisfies Prisma.PaymentRequestInclude;
+
+type PaymentRequestWithParties = Prisma.PaymentRequestGetPayload<{
+  include: typeof INCLUDE_PARTIES;
+}>;
+
+@Injectable()
+export class PaymentRequestService extends PrismaClient {
+  constructor(private walletService: WalletService) {
+    super();
+  }
+
+  // ==================== REQUESTER ====================
+
+  async createRequest(userId: string, dto: CreatePaymentRequestDto) {
+    const now = Date.now();
+    const expiresAt = dto.expires_at
+      ? new Date(dto.expires_at)
+      : new Date(now + DEFAULT_EXPIRY_MS);
+
+    if (expiresAt.getTime() <= now) {
+      throw new BadRequestException('expires_at must be in the future');
+    }
+
+    if (expiresAt.getTime() > now + MAX_EXPIRY_MS) {
+      throw new BadRequestException(
+        'expires_at must be within 30 days from now',
+      );
+    }
+
+    const requesterWallet = await this.wallet.findUnique({
+      where: { userId },
+    });
+
+    if (!requesterWallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    // The money lands in the requester's wallet, so it must accept credits
+    assertWalletCanCredit(requesterWallet);
+
+    const payerWallet = await this.wallet.findUnique({
+      where: { walletNumber: dto.wallet_number },
+    });
+
+    if (!payerWallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    if (payerWallet.userId === userId) {
+      throw new BadRequestException('Cannot request money from yourself');
+    }
+
+    const request = await this.paymentRequest.create({
+      data: {
+        requesterId: userId,
+        payerId: payerWallet.userId,
+        payerWalletNumber: payerWallet.walletNumber,
+        amount: toMinorUnits(dto.amount),
+        memo: dto.memo,
+        status: 'pending',
+        expiresAt,
+      },
+      include: INCLUDE_PARTIES,
+    });
+
+    return this.toResponse(request, userId);
+  }
+
+  async getOutgoing(userId: string, status?: string) {
+    const requests = await this.paymentRequest.findMany({
+      where: { requesterId: userId, ...(status && { status }) },
+      include: INCLUDE_PARTIES,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return requests.map((request) => this.toResponse(request, userId));
+  }
+
+  async cancel(userId: string, id: string) {
+    const request = await this.findRequest(userId, id);
+
+    if (request.requesterId !== userId) {
+      throw new BadRequestException('Only the requester can cancel a request');
+    }
+
+    await this.close(
+      id,
+      'cancelled',
+      'Only a pending request can be cancelled',
+    );
+
+    return this.getRequest(userId, id);
+  }
+
+  // ==================== PAYER ====================
+
+  // Requests waiting for the user to pay; pass a status to see others
+  async getIncoming(userId: string, status = 'pending') {
+    const requests = await this.paymentRequest.findMany({
+      where: { payerId: userId, status },
+      include: INCLUDE_PARTIES,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return requests.map((request) => this.toResponse(request, userId));
+  }
+
+  // Pay the request with a normal transfer, so fees, limits and wallet
+  // status apply. A failed transfer leaves the request pending.
+  async accept(userId: string, id: string) {
+    const request = await this.findRequest(userId, id);
+
+    if (request.payerId !== userId) {
+      throw new BadRequestException('Only the payer can accept a request');
+    }
+
+    const requesterWallet = request.requester.wallet;
+    if (!requesterWallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    const claimed = await this.paymentRequest.updateMany({
+      where: { id, status: 'pending', expiresAt: { gt: new Date() } },
+      data: { status: 'processing' },
+    });
+
+    if (claimed.count === 0) {
+      throw new BadRequestException('Request is no longer pending');
+    }
+
+    let reference: string;
+    try {
+      const result = await this.walletService.transfer(
+        userId,
+        requesterWallet.walletNumber,
+        request.amount,
+        { idempotencyKey: `preq_${id}` },
+      );
+      reference = result.reference;
+    } catch (error) {
+      await this.paymentRequest.updateMany({
+        where: { id, status: 'processing' },
+        data: { status: 'pending' },
+      });
+      throw error;
+    }
+
+    await this.paymentRequest.update({
+      where: { id },
+      data: {
+        status: 'paid',
+        transferReference: reference,
+        respondedAt: new Date(),
+      },
+    });
+
+    return this.getRequest(userId, id);
+  }
+
+  async decline(userId: string, id: string, reason?: string) {
+    const request = await this.findRequest(userId, id);
+
+    if (request.payerId !== userId) {
+      throw new BadRequestException('Only the payer can decline a request');
+    }
+
+    await this.close(
+      id,
+      'declined',
+      'Only a pending request can be declined',
+      reason,
+    );
+
+    return this.getRequest(userId, id);
+  }
+
+  // ==================== SHARED ====================
+
+  // Visible to both the requester and the payer
+  async getRequest(userId: string, id: string) {
+    return this.toResponse(await this.findRequest(userId, id), userId);
+  }
+
+  private async findRequest(userId: string, id: string) {
+    const request = await this.paymentRequest.findFirst({
+      where: { id, OR: [{ requesterId: userId }, { payerId: userId }] },
+      include: INCLUDE_PARTIES,
+    });
+
+    if (!request) {
+      throw new NotFoundException('Payment request not found');
+    }
+
+    return request;
+  }
+
+  private async close(
+    id: string,
+    status: string,
+    conflictMessage: string,
+    declineReason?: string,
+  ) {
+    const closed = await this.paymentRequest.updateMany({
+      where: { id, status: 'pending' },
+      data: { status, declineReason, respondedAt: new Date() },
+    });
+
+    if (closed.count === 0) {
+      throw new BadRequestException(conflictMessage);
+    }
+  }
+
+  // ==================== EXPIRY ====================
+
+  // Close pending requests whose expiry has passed
+  @Cron(CronExpression.EVERY_MINUTE)
+  async expireRequests() {
+    try {
+      await this.paymentRequest.updateMany({
+        where: { status: 'pending', expiresAt: { lte: new Date() } },
+        data: { status: 'expired', respondedAt: new Date() },
+      });
+    } catch (error) {
+      console.error('Error expiring payment requests:', error);
+    }
+  }
+
+  private toResponse(request: PaymentRequestWithParties, userId: string) {
+    return {
+      id: request.id,
+      direction: request.requesterId === userId ? 'outgoing' : 'incoming',
+      amount: toMoneyResponse(request.amount),
+      memo: request.memo,
+      status: request.status,
+      requester: {
+        name: request.requester.fullName,
+        wallet_number: request.requester.wallet?.walletNumber ?? null,
+      },
+      payer: {
+        name: request.payer.fullName,
+        wallet_number: request.payerWalletNumber,
+      },
+      expires_at: request.expiresAt,
+      transfer_reference: request.transferReference,
+      decline_reason: request.declineReason,
+      responded_at: request.respondedAt,
+      created_at: request.createdAt,
+    };
+  }
+}
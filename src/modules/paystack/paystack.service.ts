@@ -0,0 +1,210 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import * as crypto from 'crypto';
+import { AppConfig } from '../../config/app.config';
+import {
+  PaystackBank,
+  PaystackEnvelope,
+  PaystackInitializedTransaction,
+  PaystackPlan,
+  PaystackRefund,
+  PaystackRejection,
+  PaystackResolvedAccount,
+  PaystackSubscription,
+  PaystackTransaction,
+  PaystackTransfer,
+  PaystackTransferRecipient,
+} from './paystack.types';
+
+/**
+ * Whether a Paystack call failed with a 4xx, i.e. Paystack refused the
+ * request and nothing happened. A timeout or 5xx leaves the outcome unknown.
+ * @param error - Whatever the PaystackService call threw
+ */
+export function isPaystackRejection(
+  error: unknown,
+): error is PaystackRejection {
+  return (
+    axios.isAxiosError(error) &&
+    error.response !== undefined &&
+    error.response.status < 500
+  );
+}
+
+/**
+ * Thin client for the Paystack REST API.
+ * Methods return the `data` field of Paystack's response envelope and let
+ * axios errors propagate; isPaystackRejection tells a refusal from an
+ * unknown outcome.
+ */
+@Injectable()
+export class PaystackService {
+  private readonly secretKey: string;
+  private readonly baseUrl = 'https://api.paystack.co';
+
+  constructor(private config: ConfigService) {
+    const appConfig = this.config.get<AppConfig>('app');
+    if (!appConfig) {
+      throw new Error('App configuration not found');
+    }
+    this.secretKey = appConfig.paystackSecretKey;
+  }
+
+  // Verify the x-paystack-signature header of a webhook payload
+  verifySignature(payload: string, signature: string): boolean {
+    const hash = crypto
+      .createHmac('sha512', this.secretKey)
+      .update(payload)
+      .digest('hex');
+    return hash === signature;
+  }
+
+  // ==================== TRANSACTIONS ====================
+
+  async initializeTransaction(payload: Record<string, any>) {
+    return this.post<PaystackInitializedTransaction>(
+      '/transaction/initialize',
+      payload,
+    );
+  }
+
+  async verifyTransaction(reference: string) {
+    return this.get<PaystackTransaction>(
+      `/transaction/verify/${encodeURIComponent(reference)}`,
+    );
+  }
+
+  // Fetch every transaction created between two dates, following Paystack's
+  // page-numbered pagination
+  async listTransactions(from: Date, to: Date) {
+    const transactions: PaystackTransaction[] = [];
+    let page = 1;
+    let pageCount: number;
+
+    do {
+      const body = await this.request<PaystackTransaction[]>(
+        'get',
+        '/transaction',
+        {
+          params: {
+            from: from.toISOString(),
+            to: to.toISOString(),
+            perPage: 100,
+            page,
+          },
+        },
+      );
+      transactions.push(...body.data);
+      pageCount = body.meta?.pageCount ?? 1;
+      page++;
+    } while (page <= pageCount);
+
+    return transactions;
+  }
+
+  // Charge a saved card without the hosted page (amount in kobo). The
+  // result's status may be success, failed, or a step such as send_otp
+  // that completes later through the charge webhooks.
+  async chargeAuthorization(payload: Record<string, any>) {
+    return this.post<PaystackTransaction>(
+      '/transaction/charge_authorization',
+      payload,
+    );
+  }
+
+  // ==================== REFUNDS ====================
+
+  // Refund all or part of a charge (amount in kobo)
+  async createRefund(payload: Record<string, any>) {
+    return this.post<PaystackRefund>('/refund', payload);
+  }
+
+  // ==================== DISPUTES ====================
+
+  async addDisputeEvidence(disputeId: string, payload: Record<string, any>) {
+    return this.post(
+      `/dispute/${encodeURIComponent(disputeId)}/evidence`,
+      payload,
+    );
+  }
+
+  // ==================== SUBSCRIPTIONS ====================
+
+  async createPlan(payload: Record<string, any>) {
+    return this.post<PaystackPlan>('/plan', payload);
+  }
+
+  async createSubscription(payload: Record<string, any>) {
+    return this.post<PaystackSubscription>('/subscription', payload);
+  }
+
+  // Needs the subscription code and its email token
+  async disableSubscription(code: string, token: string) {
+    return this.post('/subscription/disable', { code, token });
+  }
+
+  // ==================== BANKS ====================
+
+  // Fetch every bank for a country, following Paystack's cursor pagination
+  async listBanks(country = 'nigeria') {
+    const banks: PaystackBank[] = [];
+    let next: string | undefined;
+
+    do {
+      const body = await this.request<PaystackBank[]>('get', '/bank', {
+        params: { country, use_cursor: true, perPage: 100, next },
+      });
+      banks.push(...body.data);
+      next = body.meta?.next ?? undefined;
+    } while (next);
+
+    return banks;
+  }
+
+  async resolveAccount(accountNumber: string, bankCode: string) {
+    return this.get<PaystackResolvedAccount>('/bank/resolve', {
+      account_number: accountNumber,
+      bank_code: bankCode,
+    });
+  }
+
+  async createTransferRecipient(payload: Record<string, any>) {
+    return this.post<PaystackTransferRecipient>('/transferrecipient', payload);
+  }
+
+  async initiateTransfer(payload: Record<string, any>) {
+    return this.post<PaystackTransfer>('/transfer', payload);
+  }
+
+  // ==================== HTTP ====================
+
+  private async get<T>(path: string, params?: Record<string, any>): Promise<T> {
+    const body = await this.request<T>('get', path, { params });
+    return body.data;
+  }
+
+  private async post<T>(path: string, data: Record<string, any>): Promise<T> {
+    const body = await this.request<T>('post', path, { data });
+    return body.data;
+  }
+
+  // Full Paystack envelope: { status, message, data, meta }
+  private async request<T>(
+    method: 'get' | 'post',
+    path: string,
+    options: { params?: Record<string, any>; data?: Record<string, any> },
+  ): Promise<PaystackEnvelope<T>> {
+    const response = await axios.request<PaystackEnvelope<T>>({
+      method,
+      url: `${this.baseUrl}${path}`,
+      params: options.params,
+      data: options.data,
+      headers: {
+        Authorization: `Bearer ${this.secretKey}`,
+        'Content-Type': 'application/json',
+      },
+    });
+    return response.data;
+  }
+}
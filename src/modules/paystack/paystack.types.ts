@@ -0,0 +1,175 @@
+import { AxiosError, AxiosResponse } from 'axios';
+
+// Paystack API and webhook payloads, limited to the fields this app reads.
+// Paystack sends more; add a field here before relying on it.
+
+// Envelope of every Paystack API response
+export interface PaystackEnvelope<T> {
+  status: boolean;
+  message: string;
+  data: T;
+  meta?: {
+    // Cursor of the next page, on endpoints called with use_cursor
+    next?: string | null;
+    // Number of pages, on page-numbered list endpoints
+    pageCount?: number;
+  };
+}
+
+// Body of a request Paystack refused
+export interface PaystackErrorBody {
+  status?: boolean;
+  message?: string;
+}
+
+// What a PaystackService call throws when Paystack answers with a 4xx
+export type PaystackRejection = AxiosError<PaystackErrorBody | undefined> & {
+  response: AxiosResponse<PaystackErrorBody | undefined>;
+};
+
+// ==================== TRANSACTIONS ====================
+
+export interface PaystackInitializedTransaction {
+  authorization_url: string;
+  access_code: string;
+  reference: string;
+}
+
+// A charge, as returned by verify and sent with charge.* webhooks. Amounts
+// are in kobo.
+export interface PaystackTransaction {
+  reference: string;
+  status: string;
+  amount: number;
+  currency: string;
+  fees?: number | null;
+  gateway_response: string;
+  authorization?: PaystackAuthorization | null;
+  customer?: { email?: string | null } | null;
+  // Set on charges a subscription made; the transaction list carries the
+  // plan in plan_object instead
+  plan?: { plan_code?: string } | null;
+  plan_object?: { plan_code?: string } | null;
+}
+
+// How a charge was paid. A reusable card authorization can be charged
+// again with charge_authorization.
+export interface PaystackAuthorization {
+  authorization_code: string;
+  channel: string;
+  reusable: boolean;
+  signature?: string | null;
+  last4: string;
+  exp_month: string;
+  exp_year: string;
+  card_type?: string | null;
+  brand?: string | null;
+  bank?: string | null;
+  country_code?: string | null;
+}
+
+// ==================== REFUNDS ====================
+
+// A refund, as returned on creation and sent with refund.* webhooks. The
+// webhooks identify the charge by transaction_reference.
+export interface PaystackRefund {
+  id: number;
+  status: string;
+  amount?: number;
+  transaction_reference?: string;
+  reason?: string | null;
+}
+
+// ==================== DISPUTES ====================
+
+// A chargeback, as sent with charge.dispute.* webhooks
+export interface PaystackDispute {
+  id: number;
+  status: string;
+  resolution?: string | null;
+  refund_amount?: number | null;
+  due_at?: string | null;
+  transaction: { reference: string; amount: number };
+}
+
+// ==================== BANKS ====================
+
+export interface PaystackBank {
+  name: string;
+  code: string;
+  slug: string;
+  type: string;
+  currency: string;
+  active: boolean;
+  is_deleted: boolean;
+}
+
+export interface PaystackResolvedAccount {
+  account_number: string;
+  account_name: string;
+}
+
+// ==================== SUBSCRIPTIONS ====================
+
+export interface PaystackPlan {
+  plan_code: string;
+}
+
+// A subscription, as returned on creation and sent with subscription.*
+// webhooks. Disabling it needs its email_token.
+export interface PaystackSubscription {
+  subscription_code: string;
+  status?: string;
+  email_token?: string | null;
+  next_payment_date?: string | null;
+  plan?: { plan_code?: string } | null;
+  customer?: { email?: string | null } | null;
+}
+
+// A subscription payment, as sent with invoice.* webhooks. The amount is in
+// kobo.
+export interface PaystackInvoice {
+  invoice_code: string;
+  amount: number;
+  status?: string;
+  paid?: boolean;
+  paid_at?: string | null;
+  period_start?: string | null;
+  period_end?: string | null;
+  description?: string | null;
+  subscription?: {
+    subscription_code?: string;
+    next_payment_date?: string | null;
+  } | null;
+}
+
+// ==================== TRANSFERS ====================
+
+export interface PaystackTransferRecipient {
+  recipient_code: string;
+  details?: { bank_name?: string | null };
+}
+
+// A payout, as returned on initiation and sent with transfer.* webhooks
+export interface PaystackTransfer {
+  reference: string;
+  transfer_code: string;
+  status: string;
+  reason?: string | null;
+}
+
+// ==================== WEBHOOKS ====================
+
+// Body of a webhook. data is the subject of the event (a charge, transfer,
+// refund, ...), and only the fields any subject may carry are listed. A type
+// alias so the body can be stored as it is in a Json column.
+export type PaystackWebhookPayload = {
+  event?: string;
+  data?: {
+    id?: string | number;
+    reference?: string;
+    status?: string;
+    updatedAt?: string;
+    updated_at?: string;
+  } | null;
+};
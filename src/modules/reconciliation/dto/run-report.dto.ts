@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsOptional } from 'class-validator';
+
+export class RunReportDto {
+  @ApiProperty({
+    example: '2026-10-18',
+    description: 'UTC day to reconcile (optional, default yesterday)',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  date?: string;
+}
@@ -0,0 +1,60 @@
+import { Controller, Get, Post, UseGuards, Body, Param } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiParam,
+} from '@nestjs/swagger';
+import { ReconciliationService } from './reconciliation.service';
+import { RunReportDto } from './dto/run-report.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { buildSuccessResponse } from 'src/common/utils/api-response';
+
+@ApiTags('Reconciliation')
+@ApiBearerAuth()
+@ApiSecurity('api_key', ['x-api-key'])
+@Controller('admin/reconciliation')
+@UseGuards(JwtAuthGuard, ApiKeyGuard, AdminGuard)
+export class ReconciliationController {
+  constructor(private readonly reconciliationService: ReconciliationService) {}
+
+  @Post('reports')
+  @ApiOperation({
+    summary: "Compare a day's Paystack transactions with our deposits",
+  })
+  @ApiResponse({ status: 200, description: 'Report completed' })
+  @ApiResponse({ status: 400, description: 'Day has not ended yet' })
+  @ApiResponse({ status: 409, description: 'Report for this day is running' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+  })
+  async runReport(@Body() dto: RunReportDto) {
+    const result = await this.reconciliationService.runReport(
+      dto.date ? new Date(dto.date) : undefined,
+    );
+    return buildSuccessResponse('Report completed', result);
+  }
+
+  @Get('reports')
+  @ApiOperation({ summary: 'List reconciliation reports, newest day first' })
+  @ApiResponse({ status: 200, description: 'Reports retrieved' })
+  async getReports() {
+    const result = await this.reconciliationService.getReports();
+    return buildSuccessResponse('Reports retrieved', result);
+  }
+
+  @Get('reports/:id')
+  @ApiOperation({ summary: 'Get a report with its mismatches' })
+  @ApiResponse({ status: 200, description: 'Report retrieved' })
+  @ApiResponse({ status: 404, description: 'Report not found' })
+  @ApiParam({ name: 'id', description: 'Report id' })
+  async getReport(@Param('id') id: string) {
+    const result = await this.reconciliationService.getReport(id);
+    return buildSuccessResponse('Report retrieved', result);
+  }
+}
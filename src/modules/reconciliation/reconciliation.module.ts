@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PaystackModule } from '../paystack/paystack.module';
+import { WalletModule } from '../wallet/wallet.module';
+import { ReconciliationController } from './reconciliation.controller';
+import { ReconciliationService } from './reconciliation.service';
+
+@Module({
+  imports: [PaystackModule, WalletModule],
+  controllers: [ReconciliationController],
+  providers: [ReconciliationService],
+})
+export class ReconciliationModule {}
@@ -0,0 +1,361 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  Prisma,
+  PrismaClient,
+  ReconciliationReport,
+  Transaction,
+} from '@prisma/client';
+import { AppConfig } from '../../config/app.config';
+import {
+  MoneyResponse,
+  toMinorUnits,
+  toMoneyResponse,
+} from '../../common/utils/money';
+import { isUniqueViolation } from '../../common/utils/prisma-errors';
+import { PaystackService } from '../paystack/paystack.service';
+import { PaystackTransaction } from '../paystack/paystack.types';
+import { WalletService } from '../wallet/wallet.service';
+import { TRANSITION_SOURCES } from '../transaction-state/transaction-state.constants';
+
+// Deposits checked per sweep, so one run stays within Paystack's rate limits
+const SWEEP_BATCH_SIZE = 50;
+
+// A deposit is left to the webhook and callback for this long before the
+// sweep first checks it, and then rechecked at most this often
+const SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A report still running after this long is assumed dead and can be rerun
+const STALE_REPORT_MS = 60 * 60 * 1000;
+
+// Paystack statuses meaning the money was collected, even if later refunded
+const PAYSTACK_PAID_STATUSES = ['success', 'reversed'];
+
+// Local statuses meaning we've accepted the money
+const LOCAL_PAID_STATUSES = ['success', 'requires_review'];
+
+// Stored on the report as JSON, hence a type alias rather than an interface
+type Mismatch = {
+  kind:
+    | 'missing_locally'
+    | 'missing_on_paystack'
+    | 'status_mismatch'
+    | 'amount_mismatch';
+  reference: string;
+  paystack_status: string | null;
+  local_status: string | null;
+  paystack_amount: MoneyResponse | null;
+  local_amount: MoneyResponse | null;
+};
+
+@Injectable()
+export class ReconciliationService extends PrismaClient {
+  private readonly depositTtlMs: number;
+
+  constructor(
+    private config: ConfigService,
+    private paystackService: PaystackService,
+    private walletService: WalletService,
+  ) {
+    super();
+    const appConfig = this.config.get<AppConfig>('app');
+    if (!appConfig) {
+      throw new Error('App configuration not found');
+    }
+    this.depositTtlMs = appConfig.depositTtlMinutes * 60 * 1000;
+  }
+
+  // ==================== PENDING DEPOSIT SWEEP ====================
+
+  // Settle deposits whose webhook never arrived and whose user never came
+  // back to verify. Unfinished checkouts stay pending until the deposit
+  // TTL, then expire.
+  @Cron(CronExpression.EVERY_5_MINUTES)
+  async sweepPendingDeposits() {
+    const now = Date.now();
+    const recheckBefore = new Date(now - SWEEP_INTERVAL_MS);
+
+    const deposits = await this.transaction.findMany({
+      where: {
+        type: 'deposit',
+        status: 'pending',
+        createdAt: { lte: recheckBefore },
+        OR: [
+          { lastReconciledAt: null },
+          { lastReconciledAt: { lte: recheckBefore } },
+        ],
+      },
+      orderBy: { createdAt: 'asc' },
+      take: SWEEP_BATCH_SIZE,
+    });
+
+    for (const deposit of deposits) {
+      try {
+        // Claim the deposit so a concurrent sweep skips it
+        const claimed = await this.transaction.updateMany({
+          where: {
+            id: deposit.id,
+            status: 'pending',
+            lastReconciledAt: deposit.lastReconciledAt,
+          },
+          data: { lastReconciledAt: new Date() },
+        });
+
+        if (claimed.count === 0) {
+          continue;
+        }
+
+        const expired = deposit.createdAt.getTime() <= now - this.depositTtlMs;
+        await this.walletService.verifyDepositWithPaystack(
+          deposit.reference,
+          TRANSITION_SOURCES.RECONCILIATION,
+          { onIncomplete: expired ? 'expire' : 'keep' },
+        );
+      } catch (error) {
+        console.error(`Error reconciling deposit ${deposit.reference}:`, error);
+      }
+    }
+  }
+
+  // ==================== DAILY REPORT ====================
+
+  // Compare yesterday's transactions (UTC) on both sides
+  @Cron(CronExpression.EVERY_DAY_AT_1AM)
+  async runDailyReport() {
+    try {
+      await this.runReport();
+    } catch (error) {
+      console.error('Error running reconciliation report:', error);
+    }
+  }
+
+  // Build the report for one UTC day (yesterday by default), replacing any
+  // earlier run of it
+  async runReport(date = new Date(Date.now() - DAY_MS)) {
+    const periodStart = this.startOfDay(date);
+    const periodEnd = new Date(periodStart.getTime() + DAY_MS);
+
+    if (periodEnd.getTime() > Date.now()) {
+      throw new BadRequestException('Only past days can be reconciled');
+    }
+
+    const report = await this.claimReport(periodStart, periodEnd);
+
+    try {
+      const [paystackTransactions, deposits] = await Promise.all([
+        this.paystackService.listTransactions(periodStart, periodEnd),
+        this.transaction.findMany({
+          where: {
+            type: 'deposit',
+            createdAt: { gte: periodStart, lt: periodEnd },
+          },
+        }),
+      ]);
+      const charges = paystackTransactions.filter(
+        (charge) => !this.isPlanCharge(charge),
+      );
+      const mismatches = await this.compare(charges, deposits);
+
+      await this.reconciliationReport.update({
+        where: { id: report.id },
+        data: {
+          status: 'completed',
+          paystackCount: charges.length,
+          localCount: deposits.length,
+          mismatchCount: mismatches.length,
+          mismatches: mismatches satisfies Prisma.InputJsonValue,
+          completedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      await this.reconciliationReport.update({
+        where: { id: report.id },
+        data: {
+          status: 'failed',
+          failureReason:
+            error instanceof Error ? error.message : 'Report failed',
+          completedAt: new Date(),
+        },
+      });
+      throw error;
+    }
+
+    return this.getReport(report.id);
+  }
+
+  // Create the day's report, or take over a finished (or stale) one to run
+  // it again
+  private async claimReport(periodStart: Date, periodEnd: Date) {
+    try {
+      return await this.reconciliationReport.create({
+        data: { periodStart, periodEnd, status: 'running' },
+      });
+    } catch (error) {
+      if (!isUniqueViolation(error)) {
+        throw error;
+      }
+    }
+
+    const claimed = await this.reconciliationReport.updateMany({
+      where: {
+        periodStart,
+        OR: [
+          { status: { not: 'running' } },
+          { updatedAt: { lte: new Date(Date.now() - STALE_REPORT_MS) } },
+        ],
+      },
+      data: {
+        status: 'running',
+        paystackCount: 0,
+        localCount: 0,
+        mismatchCount: 0,
+        mismatches: [],
+        failureReason: null,
+        completedAt: null,
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new ConflictException('Report for this day is already running');
+    }
+
+    return this.reconciliationReport.findUniqueOrThrow({
+      where: { periodStart },
+    });
+  }
+
+  // Charges for a Paystack plan are subscription invoices, not deposits
+  private isPlanCharge(charge: PaystackTransaction): boolean {
+    return Boolean(charge.plan?.plan_code ?? charge.plan_object?.plan_code);
+  }
+
+  private async compare(
+    charges: PaystackTransaction[],
+    deposits: Transaction[],
+  ) {
+    const depositsByReference = new Map<string, Transaction>(
+      deposits.map((deposit) => [deposit.reference, deposit]),
+    );
+    const chargeReferences = new Set(charges.map((charge) => charge.reference));
+    const mismatches: Mismatch[] = [];
+
+    for (const charge of charges) {
+      const paystackPaid = PAYSTACK_PAID_STATUSES.includes(charge.status);
+      let deposit = depositsByReference.get(charge.reference) ?? null;
+
+      // Created just before the period started on our side
+      if (!deposit && paystackPaid) {
+        deposit = await this.transaction.findUnique({
+          where: { reference: charge.reference },
+        });
+      }
+
+      if (!deposit) {
+        if (paystackPaid) {
+          mismatches.push(this.toMismatch('missing_locally', charge, null));
+        }
+        continue;
+      }
+
+      const localPaid = LOCAL_PAID_STATUSES.includes(deposit.status);
+      if (paystackPaid !== localPaid) {
+        mismatches.push(this.toMismatch('status_mismatch', charge, deposit));
+      } else if (
+        paystackPaid &&
+        (toMinorUnits(charge.amount) !==
+          (deposit.receivedAmount ?? deposit.amount) ||
+          charge.currency !== (deposit.receivedCurrency ?? deposit.currency))
+      ) {
+        mismatches.push(this.toMismatch('amount_mismatch', charge, deposit));
+      }
+    }
+
+    for (const deposit of deposits) {
+      if (
+        LOCAL_PAID_STATUSES.includes(deposit.status) &&
+        !chargeReferences.has(deposit.reference)
+      ) {
+        mismatches.push(this.toMismatch('missing_on_paystack', null, deposit));
+      }
+    }
+
+    return mismatches;
+  }
+
+  private toMismatch(
+    kind: Mismatch['kind'],
+    charge: PaystackTransaction | null,
+    deposit: Transaction | null,
+  ): Mismatch {
+    return {
+      kind,
+      // Every mismatch has a charge, a deposit or both
+      reference: (charge ?? (deposit as Transaction)).reference,
+      paystack_status: charge?.status ?? null,
+      local_status: deposit?.status ?? null,
+      paystack_amount: charge
+        ? toMoneyResponse(toMinorUnits(charge.amount), charge.currency)
+        : null,
+      local_amount: deposit
+        ? toMoneyResponse(
+            deposit.receivedAmount ?? deposit.amount,
+            deposit.receivedCurrency ?? deposit.currency,
+          )
+        : null,
+    };
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(
+      Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+    );
+  }
+
+  // ==================== QUERIES ====================
+
+  async getReports() {
+    const reports = await this.reconciliationReport.findMany({
+      orderBy: { periodStart: 'desc' },
+    });
+
+    return reports.map((report) => this.toResponse(report));
+  }
+
+  async getReport(id: string) {
+    const report = await this.reconciliationReport.findUnique({
+      where: { id },
+    });
+
+    if (!report) {
+      throw new NotFoundException('Report not found');
+    }
+
+    return {
+      ...this.toResponse(report),
+      mismatches: report.mismatches ?? [],
+    };
+  }
+
+  private toResponse(report: ReconciliationReport) {
+    return {
+      id: report.id,
+      period_start: report.periodStart,
+      period_end: report.periodEnd,
+      status: report.status,
+      paystack_count: report.paystackCount,
+      local_count: report.localCount,
+      mismatch_count: report.mismatchCount,
+      failure_reason: report.failureReason,
+      created_at: report.createdAt,
+      completed_at: report.completedAt,
+    };
+  }
+}
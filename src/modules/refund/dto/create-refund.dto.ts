@@ -0,0 +1,43 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsPositive,
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  MaxLength,
+  Max,
+} from 'class-validator';
+import { MAX_MINOR_UNITS } from '../../../common/utils/money';
+
+export class CreateRefundDto {
+  @ApiProperty({
+    example: 'dep_1765300000000_3f1c9a52-6f0e-4a3b-9d61-2b8f0c7e5a14',
+    description: 'Reference of the successful deposit to refund',
+  })
+  @IsString()
+  @IsNotEmpty()
+  deposit_reference: string;
+
+  @ApiProperty({
+    example: 250000,
+    description:
+      'Amount to refund in kobo; defaults to the rest of the deposit (optional)',
+    required: false,
+  })
+  @IsInt()
+  @IsPositive()
+  @Max(MAX_MINOR_UNITS)
+  @IsOptional()
+  amount?: number;
+
+  @ApiProperty({
+    example: 'Customer disputed the top-up with their bank',
+    description: 'Note recorded with the refund (optional)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(200)
+  reason?: string;
+}
@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsNotEmpty } from 'class-validator';
+
+export class RefundQueryDto {
+  @ApiProperty({
+    example: 'dep_1765300000000_3f1c9a52-6f0e-4a3b-9d61-2b8f0c7e5a14',
+    description: 'Deposit reference whose refunds to list',
+  })
+  @IsString()
+  @IsNotEmpty()
+  deposit_reference: string;
+}
@@ -0,0 +1,94 @@
+import {
+  Controller,
+  Post,
+  Get,
+  UseGuards,
+  Headers,
+  Body,
+  Param,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiParam,
+  ApiHeader,
+} from '@nestjs/swagger';
+import { RefundService } from './refund.service';
+import { CreateRefundDto } from './dto/create-refund.dto';
+import { RefundQueryDto } from './dto/refund-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import type { AuthenticatedUser } from '../auth/decorators/get-user.decorator';
+import { IdempotencyService } from '../idempotency/idempotency.service';
+import { IDEMPOTENCY_HEADER } from '../idempotency/idempotency.constants';
+import { buildSuccessResponse } from 'src/common/utils/api-response';
+import { toMinorUnits } from 'src/common/utils/money';
+
+@ApiTags('Refunds')
+@ApiBearerAuth()
+@ApiSecurity('api_key', ['x-api-key'])
+@Controller('refunds')
+@UseGuards(JwtAuthGuard, ApiKeyGuard, AdminGuard)
+export class RefundController {
+  constructor(
+    private refundService: RefundService,
+    private idempotencyService: IdempotencyService,
+  ) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Refund all or part of a successful deposit' })
+  @ApiHeader(IDEMPOTENCY_HEADER)
+  @ApiResponse({ status: 200, description: 'Refund initiated' })
+  @ApiResponse({
+    status: 400,
+    description: 'Deposit not refundable or amount too large',
+  })
+  @ApiResponse({ status: 404, description: 'Deposit not found' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+  })
+  async createRefund(
+    @GetUser() user: AuthenticatedUser,
+    @Body() dto: CreateRefundDto,
+    @Headers('idempotency-key') idempotencyKey?: string,
+  ) {
+    const result = await this.idempotencyService.execute(
+      user.id,
+      idempotencyKey,
+      'refund.create',
+      dto,
+      () =>
+        this.refundService.initiateRefund(
+          dto.deposit_reference,
+          dto.amount !== undefined ? toMinorUnits(dto.amount) : undefined,
+          dto.reason,
+        ),
+    );
+    return buildSuccessResponse('Refund initiated', result);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List refunds of a deposit' })
+  @ApiResponse({ status: 200, description: 'Refunds retrieved' })
+  async getRefunds(@Query() query: RefundQueryDto) {
+    const result = await this.refundService.getRefunds(query.deposit_reference);
+    return buildSuccessResponse('Refunds retrieved', result);
+  }
+
+  @Get(':reference')
+  @ApiOperation({ summary: 'Get a refund' })
+  @ApiResponse({ status: 200, description: 'Refund retrieved' })
+  @ApiResponse({ status: 404, description: 'Refund not found' })
+  @ApiParam({ name: 'reference', description: 'Refund reference' })
+  async getRefund(@Param('reference') reference: string) {
+    const result = await this.refundService.getRefund(reference);
+    return buildSuccessResponse('Refund retrieved', result);
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { RefundController } from './refund.controller';
+import { RefundService } from './refund.service';
+import { LedgerModule } from '../ledger/ledger.module';
+import { PaystackModule } from '../paystack/paystack.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { TransactionStateModule } from '../transaction-state/transaction-state.module';
+
+@Module({
+  imports: [
+    LedgerModule,
+    PaystackModule,
+    IdempotencyModule,
+    TransactionStateModule,
+  ],
+  controllers: [RefundController],
+  providers: [RefundService],
+  exports: [RefundService],
+})
+export class RefundModule {}
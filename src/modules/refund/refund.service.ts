@@ -0,0 +1,403 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, PrismaClient } from '@prisma/client';
+import * as crypto from 'crypto';
+import { toMoneyResponse } from '../../common/utils/money';
+import { unknownReference } from '../../common/utils/webhook-result';
+import { LedgerService } from '../ledger/ledger.service';
+import { JOURNAL_TYPES, LEDGER_ACCOUNTS } from '../ledger/ledger.constants';
+import {
+  isPaystackRejection,
+  PaystackService,
+} from '../paystack/paystack.service';
+import { PaystackRefund } from '../paystack/paystack.types';
+import { TransactionStateService } from '../transaction-state/transaction-state.service';
+import {
+  TRANSITION_SOURCES,
+  TransitionSource,
+} from '../transaction-state/transaction-state.constants';
+
+type RefundWithDeposit = Prisma.RefundGetPayload<{
+  include: { deposit: true };
+}>;
+
+@Injectable()
+export class RefundService extends PrismaClient {
+  constructor(
+    private ledgerService: LedgerService,
+    private paystackService: PaystackService,
+    private transactionStateService: TransactionStateService,
+  ) {
+    super();
+  }
+
+  // ==================== REFUND OPERATIONS ====================
+
+  // Debit the wallet into refunds pending, then ask Paystack to refund the
+  // card. Without an amount the rest of the deposit is refunded.
+  async initiateRefund(
+    depositReference: string,
+    amount?: bigint,
+    reason?: string,
+  ) {
+    const deposit = await this.transaction.findUnique({
+      where: { reference: depositReference },
+    });
+
+    if (!deposit || deposit.type !== 'deposit') {
+      throw new NotFoundException('Deposit not found');
+    }
+
+    if (deposit.status !== 'success') {
+      throw new BadRequestException('Only successful deposits can be refunded');
+    }
+
+    const reference = `rfd_${crypto.randomUUID().replace(/-/g, '')}`;
+
+    const refundAmount = await this.$transaction(
+      async (tx: Prisma.TransactionClient) => {
+        // Serialize refunds of the same deposit so they can't overshoot it
+        await tx.$queryRaw`SELECT "id" FROM "Transaction" WHERE "id" = ${deposit.id} FOR UPDATE`;
+
+        const refundable =
+          deposit.amount - (await this.refunded(tx, deposit.id));
+        const value = amount ?? refundable;
+
+        if (value <= 0n || value > refundable) {
+          throw new BadRequestException(
+            `Refund exceeds the refundable amount of ${refundable} kobo`,
+          );
+        }
+
+        const wallet = await tx.wallet.findUniqueOrThrow({
+          where: { userId: deposit.userId },
+        });
+        const walletAccount = await this.ledgerService.getWalletAccount(
+          tx,
+          wallet.id,
+        );
+        const refundsPending = await this.ledgerService.getSystemAccount(
+          tx,
+          LEDGER_ACCOUNTS.REFUNDS_PENDING,
+        );
+
+        const journal = await this.ledgerService.post(tx, {
+          reference,
+          type: JOURNAL_TYPES.REFUND,
+          description: `Refund of deposit ${depositReference}`,
+          metadata: { reason },
+          lines: [
+            { accountId: walletAccount.id, direction: 'debit', amount: value },
+            {
+              accountId: refundsPending.id,
+              direction: 'credit',
+              amount: value,
+            },
+          ],
+        });
+
+        await tx.refund.create({
+          data: {
+            userId: deposit.userId,
+            depositId: deposit.id,
+            reference,
+            amount: value,
+            status: 'pending',
+            reason,
+          },
+        });
+
+        await tx.transaction.create({
+          data: {
+            userId: deposit.userId,
+            reference,
+            amount: value,
+            type: 'refund',
+            status: 'pending',
+            journalId: journal.id,
+            metadata: { deposit_reference: depositReference },
+          },
+        });
+
+        return value;
+      },
+    );
+
+    try {
+      const paystackRefund = await this.paystackService.createRefund({
+        transaction: depositReference,
+        amount: Number(refundAmount),
+        merchant_note: reason,
+      });
+
+      // A fast webhook may already have settled it, so only move from pending
+      await this.refund.updateMany({
+        where: { reference, status: 'pending' },
+        data: {
+          status: 'processing',
+          paystackRefundId: String(paystackRefund.id),
+        },
+      });
+    } catch (error) {
+      if (isPaystackRejection(error)) {
+        // Paystack rejected the refund outright: give the money back
+        await this.fail(
+          reference,
+          error.response.data?.message ?? 'Refund rejected by Paystack',
+          TRANSITION_SOURCES.API,
+        );
+      } else {
+        // Outcome unknown (timeout or 5xx); the refund webhooks settle it
+        console.error('Error creating Paystack refund:', error);
+      }
+    }
+
+    return this.getRefund(reference);
+  }
+
+  // Total of a deposit's refunds that have not failed
+  private async refunded(
+    tx: Prisma.TransactionClient,
+    depositId: string,
+  ): Promise<bigint> {
+    const result = await tx.refund.aggregate({
+      where: { depositId, status: { not: 'failed' } },
+      _sum: { amount: true },
+    });
+
+    return result._sum.amount ?? 0n;
+  }
+
+  // ==================== WEBHOOK OPERATIONS ====================
+
+  // Handle Paystack refund.* webhook events (IDEMPOTENT)
+  async handleRefundEvent(event: string, data: PaystackRefund) {
+    const refund = await this.findRefundForEvent(data);
+
+    if (!refund) {
+      return unknownReference('Refund not found');
+    }
+
+    let applied: boolean;
+    switch (event) {
+      case 'refund.pending': {
+        const claimed = await this.refund.updateMany({
+          where: { id: refund.id, status: 'pending' },
+          data: { status: 'processing', paystackRefundId: String(data.id) },
+        });
+        applied = claimed.count > 0;
+        break;
+      }
+      case 'refund.processed':
+        applied = await this.complete(
+          refund.reference,
+          TRANSITION_SOURCES.WEBHOOK,
+        );
+        break;
+      case 'refund.failed':
+        applied = await this.fail(
+          refund.reference,
+          data.reason || 'Refund failed',
+          TRANSITION_SOURCES.WEBHOOK,
+        );
+        break;
+      default:
+        return { status: true, message: 'Event ignored' };
+    }
+
+    return applied
+      ? { status: true }
+      : { status: true, message: 'Already processed' };
+  }
+
+  // Refund events carry Paystack's refund id and the original charge
+  // reference. The id is unknown until /refund answers, so fall back to the
+  // oldest open refund of that deposit for the same amount.
+  private async findRefundForEvent(data: PaystackRefund) {
+    if (data.id) {
+      const refund = await this.refund.findUnique({
+        where: { paystackRefundId: String(data.id) },
+      });
+
+      if (refund) {
+        return refund;
+      }
+    }
+
+    return this.refund.findFirst({
+      where: {
+        deposit: { reference: data.transaction_reference },
+        status: { in: ['pending', 'processing'] },
+        ...(data.amount && { amount: BigInt(data.amount) }),
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  // Paystack returned the money to the card: move it out of refunds pending
+  private complete(
+    reference: string,
+    source: TransitionSource,
+  ): Promise<boolean> {
+    return this.$transaction(async (tx: Prisma.TransactionClient) => {
+      const claimed = await tx.refund.updateMany({
+        where: { reference, status: { in: ['pending', 'processing'] } },
+        data: { status: 'processed', completedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      const refund = await tx.refund.findUniqueOrThrow({
+        where: { reference },
+      });
+      const refundsPending = await this.ledgerService.getSystemAccount(
+        tx,
+        LEDGER_ACCOUNTS.REFUNDS_PENDING,
+      );
+      const clearing = await this.ledgerService.getSystemAccount(
+        tx,
+        LEDGER_ACCOUNTS.PAYSTACK_CLEARING,
+      );
+
+      await this.ledgerService.post(tx, {
+        reference: `${reference}_processed`,
+        type: JOURNAL_TYPES.REFUND,
+        description: `Refund ${reference} processed`,
+        lines: [
+          {
+            accountId: refundsPending.id,
+            direction: 'debit',
+            amount: refund.amount,
+          },
+          {
+            accountId: clearing.id,
+            direction: 'credit',
+            amount: refund.amount,
+          },
+        ],
+      });
+
+      await this.transactionStateService.transition(
+        {
+          where: { reference },
+          from: 'pending',
+          to: 'success',
+          source,
+          data: { completedAt: new Date() },
+        },
+        tx,
+      );
+
+      return true;
+    });
+  }
+
+  // Paystack could not refund: put the money back in the wallet
+  private fail(
+    reference: string,
+    failureReason: string,
+    source: TransitionSource,
+  ): Promise<boolean> {
+    return this.$transaction(async (tx: Prisma.TransactionClient) => {
+      const claimed = await tx.refund.updateMany({
+        where: { reference, status: { in: ['pending', 'processing'] } },
+        data: { status: 'failed', failureReason, completedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      const refund = await tx.refund.findUniqueOrThrow({
+        where: { reference },
+      });
+      const refundsPending = await this.ledgerService.getSystemAccount(
+        tx,
+        LEDGER_ACCOUNTS.REFUNDS_PENDING,
+      );
+      const wallet = await tx.wallet.findUniqueOrThrow({
+        where: { userId: refund.userId },
+      });
+      const walletAccount = await this.ledgerService.getWalletAccount(
+        tx,
+        wallet.id,
+      );
+
+      await this.ledgerService.post(tx, {
+        reference: `${reference}_failed`,
+        type: JOURNAL_TYPES.REVERSAL,
+        description: `Refund ${reference} failed`,
+        metadata: { reason: failureReason },
+        lines: [
+          {
+            accountId: refundsPending.id,
+            direction: 'debit',
+            amount: refund.amount,
+          },
+          {
+            accountId: walletAccount.id,
+            direction: 'credit',
+            amount: refund.amount,
+          },
+        ],
+      });
+
+      await this.transactionStateService.transition(
+        {
+          where: { reference },
+          from: 'pending',
+          to: 'failed',
+          source,
+          reason: failureReason,
+          data: { gatewayResponse: failureReason, completedAt: new Date() },
+        },
+        tx,
+      );
+
+      return true;
+    });
+  }
+
+  // ==================== REFUND HISTORY ====================
+
+  async getRefunds(depositReference: string) {
+    const refunds = await this.refund.findMany({
+      where: { deposit: { reference: depositReference } },
+      include: { deposit: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return refunds.map((refund) => this.toResponse(refund));
+  }
+
+  async getRefund(reference: string) {
+    const refund = await this.refund.findUnique({
+      where: { reference },
+      include: { deposit: true },
+    });
+
+    if (!refund) {
+      throw new NotFoundException('Refund not found');
+    }
+
+    return this.toResponse(refund);
+  }
+
+  private toResponse(refund: RefundWithDeposit) {
+    return {
+      reference: refund.reference,
+      deposit_reference: refund.deposit.reference,
+      status: refund.status,
+      amount: toMoneyResponse(refund.amount),
+      reason: refund.reason,
+      failure_reason: refund.failureReason,
+      created_at: refund.createdAt,
+      completed_at: refund.completedAt,
+    };
+  }
+}
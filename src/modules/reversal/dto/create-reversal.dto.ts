@@ -0,0 +1,62 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export const SHORTFALL_MODES = ['partial', 'debt'];
+
+export class CreateReversalDto {
+  @ApiProperty({
+    example: 'txf_1765300000000_3f1c9a52-6f0e-4a3b-9d61-2b8f0c7e5a14',
+    description:
+      'Reference of either side of the transfer (give this or idempotency_key)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  reference?: string;
+
+  @ApiProperty({
+    example: 'payroll-2026-10-row-14',
+    description:
+      'Idempotency key the transfer was made with (give this or reference)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  idempotency_key?: string;
+
+  @ApiProperty({
+    example: 'Sent to the wrong wallet number; confirmed with both users',
+    description: 'Why the transfer is reversed',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  reason: string;
+
+  @ApiProperty({
+    example: 'debt',
+    description:
+      'If the recipient has already spent the funds: partial reverses what is available, debt also puts the rest on a hold the recipient must cover (required only then)',
+    enum: SHORTFALL_MODES,
+    required: false,
+  })
+  @IsIn(SHORTFALL_MODES)
+  @IsOptional()
+  shortfall?: string;
+
+  @ApiProperty({
+    example: true,
+    description: "Also refund the sender's transfer fee (optional)",
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  refund_fee?: boolean;
+}
@@ -0,0 +1,94 @@
+import {
+  Controller,
+  Post,
+  Get,
+  UseGuards,
+  Body,
+  Param,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { ReversalService } from './reversal.service';
+import { CreateReversalDto } from './dto/create-reversal.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import type { AuthenticatedUser } from '../auth/decorators/get-user.decorator';
+import { buildSuccessResponse } from 'src/common/utils/api-response';
+
+@ApiTags('Transfer Reversals')
+@ApiBearerAuth()
+@ApiSecurity('api_key', ['x-api-key'])
+@Controller('admin/transfer-reversals')
+@UseGuards(JwtAuthGuard, ApiKeyGuard, AdminGuard)
+export class ReversalController {
+  constructor(private readonly reversalService: ReversalService) {}
+
+  @Post()
+  @ApiOperation({
+    summary: 'Reverse a completed transfer with compensating transactions',
+  })
+  @ApiResponse({ status: 200, description: 'Transfer reversed' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Transfer not completed, or recipient short of funds and no shortfall given',
+  })
+  @ApiResponse({ status: 404, description: 'Transfer not found' })
+  @ApiResponse({ status: 409, description: 'Transfer already reversed' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+  })
+  async reverse(
+    @GetUser() user: AuthenticatedUser,
+    @Body() dto: CreateReversalDto,
+  ) {
+    const result = await this.reversalService.reverse(user.id, dto);
+    return buildSuccessResponse('Transfer reversed', result);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List transfer reversals' })
+  @ApiResponse({ status: 200, description: 'Reversals retrieved' })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    description: 'completed, partial, outstanding or written_off',
+  })
+  async getReversals(@Query('status') status?: string) {
+    const result = await this.reversalService.getReversals(status);
+    return buildSuccessResponse('Reversals retrieved', result);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a reversal and its compensating transactions' })
+  @ApiResponse({ status: 200, description: 'Reversal retrieved' })
+  @ApiResponse({ status: 404, description: 'Reversal not found' })
+  @ApiParam({ name: 'id', description: 'Reversal id' })
+  async getReversal(@Param('id') id: string) {
+    const result = await this.reversalService.getReversal(id);
+    return buildSuccessResponse('Reversal retrieved', result);
+  }
+
+  @Post(':id/write-off')
+  @ApiOperation({
+    summary: "Stop collecting a reversal's debt and release its hold",
+  })
+  @ApiResponse({ status: 200, description: 'Debt written off' })
+  @ApiResponse({ status: 400, description: 'No outstanding debt' })
+  @ApiParam({ name: 'id', description: 'Reversal id' })
+  async writeOff(@Param('id') id: string) {
+    const result = await this.reversalService.writeOff(id);
+    return buildSuccessResponse('Debt written off', result);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ReversalController } from './reversal.controller';
+import { ReversalService } from './reversal.service';
+import { LedgerModule } from '../ledger/ledger.module';
+import { HoldModule } from '../hold/hold.module';
+import { FeesModule } from '../fees/fees.module';
+
+@Module({
+  imports: [LedgerModule, HoldModule, FeesModule],
+  controllers: [ReversalController],
+  providers: [ReversalService],
+})
+export class ReversalModule {}
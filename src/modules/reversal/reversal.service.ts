@@ -0,0 +1,516 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma, PrismaClient, TransferReversal, Wallet } from '@prisma/client';
+import * as crypto from 'crypto';
+import { formatMinorUnits, toMoneyResponse } from '../../common/utils/money';
+import { LedgerService } from '../ledger/ledger.service';
+import { JOURNAL_TYPES } from '../ledger/ledger.constants';
+import { HoldService } from '../hold/hold.service';
+import { FeesService } from '../fees/fees.service';
+import { TRANSITION_SOURCES } from '../transaction-state/transaction-state.constants';
+import { assertWalletCanCredit } from '../wallet/wallet-status';
+import { CreateReversalDto } from './dto/create-reversal.dto';
+
+// Outstanding debts checked per sweep
+const DEBT_BATCH_SIZE = 100;
+
+// A debt nothing could be collected from is looked at again after 1, 2,
+// 4, ... minutes, at most every six hours, so it can't crowd out the rest
+const DEBT_RETRY_BASE_DELAY_MS = 60 * 1000;
+const DEBT_RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+const randomHex = () => crypto.randomUUID().replace(/-/g, '');
+
+@Injectable()
+export class ReversalService extends PrismaClient {
+  constructor(
+    private ledgerService: LedgerService,
+    private holdService: HoldService,
+    private feesService: FeesService,
+  ) {
+    super();
+  }
+
+  // ==================== REVERSALS ====================
+
+  // Move a completed transfer back from the recipient to the sender. If
+  // the recipient has spent part of it, the admin chooses: reverse what is
+  // available (partial) or also hold the rest against the recipient's
+  // future credits (debt).
+  async reverse(adminId: string, dto: CreateReversalDto) {
+    const transferOut = await this.findTransfer(dto);
+
+    if (transferOut.status !== 'success') {
+      throw new BadRequestException(
+        'Only a completed transfer can be reversed',
+      );
+    }
+
+    const transferIn = await this.transaction.findFirst({
+      where: { journalId: transferOut.journalId, type: 'transfer_in' },
+    });
+
+    if (!transferIn) {
+      throw new NotFoundException('Transfer not found');
+    }
+
+    if (transferIn.userId === transferOut.userId) {
+      throw new BadRequestException('Cannot reverse a transfer to yourself');
+    }
+
+    const existing = await this.transferReversal.findUnique({
+      where: { transferReference: transferOut.reference },
+    });
+
+    if (existing) {
+      throw new ConflictException('Transfer has already been reversed');
+    }
+
+    const senderWallet = await this.wallet.findUniqueOrThrow({
+      where: { userId: transferOut.userId },
+    });
+    assertWalletCanCredit(senderWallet, 'Sender wallet');
+
+    const amount = transferOut.amount;
+
+    const id = await this.$transaction(async (tx: Prisma.TransactionClient) => {
+      const recipientWallet = await tx.wallet.findUniqueOrThrow({
+        where: { userId: transferIn.userId },
+      });
+
+      const available = recipientWallet.balance - recipientWallet.heldBalance;
+      const recoverable =
+        available >= amount ? amount : available > 0n ? available : 0n;
+      const shortfall = amount - recoverable;
+
+      if (shortfall > 0n && !dto.shortfall) {
+        throw new BadRequestException({
+          statusCode: 400,
+          error: 'Bad Request',
+          message: `Recipient can only cover ${formatMinorUnits(recoverable)} of ${formatMinorUnits(amount)}; choose a shortfall of partial or debt`,
+          recoverable: toMoneyResponse(recoverable),
+        });
+      }
+
+      if (recoverable === 0n && dto.shortfall === 'partial') {
+        throw new BadRequestException(
+          'Recipient has no available balance to reverse',
+        );
+      }
+
+      const debt = dto.shortfall === 'debt' ? shortfall : 0n;
+      const holdReference = debt > 0n ? `rvd_${randomHex()}` : null;
+
+      const reversal = await tx.transferReversal.create({
+        data: {
+          transferReference: transferOut.reference,
+          recipientReference: transferIn.reference,
+          senderUserId: transferOut.userId,
+          recipientUserId: transferIn.userId,
+          amount,
+          recoveredAmount: recoverable,
+          outstandingAmount: debt,
+          shortfallMode: shortfall > 0n ? dto.shortfall : null,
+          status:
+            debt > 0n
+              ? 'outstanding'
+              : recoverable === amount
+                ? 'completed'
+                : 'partial',
+          holdReference,
+          nextAttemptAt: debt > 0n ? new Date() : null,
+          reason: dto.reason,
+          adminId,
+          completedAt: debt > 0n ? null : new Date(),
+        },
+      });
+
+      if (recoverable > 0n) {
+        await this.postRecovery(
+          tx,
+          reversal,
+          senderWallet,
+          recipientWallet,
+          recoverable,
+        );
+      }
+
+      if (holdReference) {
+        await this.holdService.place(tx, {
+          walletId: recipientWallet.id,
+          reference: holdReference,
+          amount: debt,
+          reason: `Debt from reversal of transfer ${transferIn.reference}`,
+          allowShortfall: true,
+        });
+      }
+
+      if (dto.refund_fee) {
+        const refunded = await this.feesService.refundFee(
+          tx,
+          transferOut.reference,
+          TRANSITION_SOURCES.API,
+          dto.reason,
+        );
+        await tx.transferReversal.update({
+          where: { id: reversal.id },
+          data: { feeRefunded: refunded },
+        });
+      }
+
+      return reversal.id;
+    });
+
+    return this.getReversal(id);
+  }
+
+  // Stop collecting an outstanding debt and free the recipient's wallet
+  async writeOff(id: string) {
+    await this.findReversal(id);
+
+    await this.$transaction(async (tx: Prisma.TransactionClient) => {
+      // Read inside the transaction: debt collection swaps the hold
+      const reversal = await tx.transferReversal.findUniqueOrThrow({
+        where: { id },
+      });
+
+      if (!reversal.holdReference) {
+        throw new BadRequestException('Reversal has no outstanding debt');
+      }
+
+      const claimed = await tx.transferReversal.updateMany({
+        where: {
+          id,
+          status: 'outstanding',
+          holdReference: reversal.holdReference,
+        },
+        data: {
+          status: 'written_off',
+          holdReference: null,
+          nextAttemptAt: null,
+          completedAt: new Date(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        throw new BadRequestException('Reversal has no outstanding debt');
+      }
+
+      await this.holdService.release(tx, reversal.holdReference);
+    });
+
+    return this.getReversal(id);
+  }
+
+  async getReversals(status?: string) {
+    const reversals = await this.transferReversal.findMany({
+      where: status ? { status } : {},
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return reversals.map((reversal) => this.toResponse(reversal));
+  }
+
+  async getReversal(id: string) {
+    const reversal = await this.findReversal(id);
+    const transactions = await this.transaction.findMany({
+      where: {
+        type: { in: ['reversal_in', 'reversal_out'] },
+        metadata: { path: ['reversal_id'], equals: id },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return {
+      ...this.toResponse(reversal),
+      transactions: transactions.map((transaction) => ({
+        reference: transaction.reference,
+        type: transaction.type,
+        amount: toMoneyResponse(transaction.amount),
+        created_at: transaction.createdAt,
+      })),
+    };
+  }
+
+  private async findReversal(id: string) {
+    const reversal = await this.transferReversal.findUnique({ where: { id } });
+
+    if (!reversal) {
+      throw new NotFoundException('Reversal not found');
+    }
+
+    return reversal;
+  }
+
+  // Resolve the transfer_out side from either reference or the
+  // idempotency key the transfer was made with
+  private async findTransfer(dto: CreateReversalDto) {
+    if (!dto.reference === !dto.idempotency_key) {
+      throw new BadRequestException('Give either reference or idempotency_key');
+    }
+
+    if (dto.idempotency_key) {
+      const matches = await this.transaction.findMany({
+        where: {
+          type: 'transfer_out',
+          metadata: {
+            path: ['idempotency_key'],
+            equals: dto.idempotency_key,
+          },
+        },
+        take: 2,
+      });
+
+      if (matches.length > 1) {
+        throw new ConflictException(
+          'Several transfers used this idempotency key; give the reference',
+        );
+      }
+
+      if (matches.length === 0) {
+        throw new NotFoundException('Transfer not found');
+      }
+
+      return matches[0];
+    }
+
+    const transaction = await this.transaction.findUnique({
+      where: { reference: dto.reference },
+    });
+
+    if (transaction?.type === 'transfer_out') {
+      return transaction;
+    }
+
+    if (transaction?.type === 'transfer_in') {
+      const transferOut = await this.transaction.findFirst({
+        where: { journalId: transaction.journalId, type: 'transfer_out' },
+      });
+
+      if (transferOut) {
+        return transferOut;
+      }
+    }
+
+    throw new NotFoundException('Transfer not found');
+  }
+
+  // Post a compensating journal from the recipient back to the sender,
+  // with a reversal_out/reversal_in transaction pair linked to the reversal
+  private async postRecovery(
+    tx: Prisma.TransactionClient,
+    reversal: TransferReversal,
+    senderWallet: Wallet,
+    recipientWallet: Wallet,
+    amount: bigint,
+  ) {
+    const prefix = `rvs_${randomHex()}`;
+    const recipientAccount = await this.ledgerService.getWalletAccount(
+      tx,
+      recipientWallet.id,
+    );
+    const senderAccount = await this.ledgerService.getWalletAccount(
+      tx,
+      senderWallet.id,
+    );
+
+    const journal = await this.ledgerService.post(tx, {
+      reference: prefix,
+      type: JOURNAL_TYPES.REVERSAL,
+      description: `Reversal of transfer ${reversal.transferReference}`,
+      metadata: {
+        reversal_id: reversal.id,
+        reversal_of: reversal.transferReference,
+      },
+      lines: [
+        { accountId: recipientAccount.id, direction: 'debit', amount },
+        { accountId: senderAccount.id, direction: 'credit', amount },
+      ],
+    });
+
+    await tx.transaction.createMany({
+      data: [
+        {
+          userId: reversal.recipientUserId,
+          type: 'reversal_out',
+          amount,
+          status: 'success',
+          reference: `${prefix}_${reversal.recipientUserId}`,
+          journalId: journal.id,
+          completedAt: new Date(),
+          metadata: {
+            reversal_id: reversal.id,
+            reversal_of: reversal.recipientReference,
+            to: senderWallet.walletNumber,
+          },
+        },
+        {
+          userId: reversal.senderUserId,
+          type: 'reversal_in',
+          amount,
+          status: 'success',
+          reference: `${prefix}_${reversal.senderUserId}`,
+          journalId: journal.id,
+          completedAt: new Date(),
+          metadata: {
+            reversal_id: reversal.id,
+            reversal_of: reversal.transferReference,
+            from: recipientWallet.walletNumber,
+          },
+        },
+      ],
+    });
+  }
+
+  // ==================== DEBT COLLECTION ====================
+
+  // Recover outstanding debts from whatever the recipients have received
+  // since; the debt hold keeps those credits from being spent meanwhile
+  @Cron(CronExpression.EVERY_MINUTE)
+  async collectDebts() {
+    const reversals = await this.transferReversal.findMany({
+      where: { status: 'outstanding', nextAttemptAt: { lte: new Date() } },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: DEBT_BATCH_SIZE,
+    });
+
+    for (const reversal of reversals) {
+      let collected = false;
+      try {
+        collected = await this.$transaction((tx: Prisma.TransactionClient) =>
+          this.collectDebt(tx, reversal),
+        );
+      } catch (error) {
+        console.error(`Error collecting reversal debt ${reversal.id}:`, error);
+      }
+
+      if (!collected) {
+        await this.deferCollection(reversal);
+      }
+    }
+  }
+
+  // Returns false if nothing could be collected this time
+  private async collectDebt(
+    tx: Prisma.TransactionClient,
+    reversal: TransferReversal,
+  ): Promise<boolean> {
+    const recipientWallet = await tx.wallet.findUniqueOrThrow({
+      where: { userId: reversal.recipientUserId },
+    });
+    const outstanding = reversal.outstandingAmount;
+
+    // The balance not reserved by other holds can go towards the debt
+    const free =
+      recipientWallet.balance - (recipientWallet.heldBalance - outstanding);
+
+    if (free <= 0n) {
+      return false;
+    }
+
+    const amount = free < outstanding ? free : outstanding;
+    const remaining = outstanding - amount;
+    const holdReference = remaining > 0n ? `rvd_${randomHex()}` : null;
+
+    const claimed = await tx.transferReversal.updateMany({
+      where: {
+        id: reversal.id,
+        status: 'outstanding',
+        outstandingAmount: outstanding,
+      },
+      data: {
+        recoveredAmount: { increment: amount },
+        outstandingAmount: remaining,
+        holdReference,
+        collectionAttempts: 0,
+        nextAttemptAt: remaining > 0n ? new Date() : null,
+        ...(remaining === 0n && {
+          status: 'completed',
+          completedAt: new Date(),
+        }),
+      },
+    });
+
+    // Another run got to it first
+    if (claimed.count === 0) {
+      return true;
+    }
+
+    const senderWallet = await tx.wallet.findUniqueOrThrow({
+      where: { userId: reversal.senderUserId },
+    });
+    assertWalletCanCredit(senderWallet, 'Sender wallet');
+
+    // Swap the debt hold for a smaller one after taking what is there
+    if (reversal.holdReference) {
+      await this.holdService.release(tx, reversal.holdReference);
+    }
+    await this.postRecovery(
+      tx,
+      reversal,
+      senderWallet,
+      recipientWallet,
+      amount,
+    );
+
+    if (holdReference) {
+      await this.holdService.place(tx, {
+        walletId: recipientWallet.id,
+        reference: holdReference,
+        amount: remaining,
+        reason: `Debt from reversal of transfer ${reversal.recipientReference}`,
+        allowShortfall: true,
+      });
+    }
+
+    return true;
+  }
+
+  // Back off a debt that can't be collected now: the recipient has nothing
+  // free, or a wallet is frozen or closed
+  private async deferCollection(reversal: {
+    id: string;
+    collectionAttempts: number;
+  }) {
+    const delay = Math.min(
+      DEBT_RETRY_BASE_DELAY_MS * 2 ** reversal.collectionAttempts,
+      DEBT_RETRY_MAX_DELAY_MS,
+    );
+
+    await this.transferReversal.updateMany({
+      where: {
+        id: reversal.id,
+        status: 'outstanding',
+        collectionAttempts: reversal.collectionAttempts,
+      },
+      data: {
+        collectionAttempts: { increment: 1 },
+        nextAttemptAt: new Date(Date.now() + delay),
+      },
+    });
+  }
+
+  private toResponse(reversal: TransferReversal) {
+    return {
+      id: reversal.id,
+      transfer_reference: reversal.transferReference,
+      recipient_reference: reversal.recipientReference,
+      amount: toMoneyResponse(reversal.amount),
+      recovered_amount: toMoneyResponse(reversal.recoveredAmount),
+      outstanding_amount: toMoneyResponse(reversal.outstandingAmount),
+      shortfall: reversal.shortfallMode,
+      status: reversal.status,
+      hold_reference: reversal.holdReference,
+      fee_refunded: reversal.feeRefunded,
+      reason: reversal.reason,
+      admin_id: reversal.adminId,
+      completed_at: reversal.completedAt,
+      created_at: reversal.createdAt,
+    };
+  }
+}
@@ -0,0 +1,93 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Length,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { RECURRENCE_FREQUENCIES } from '../recurrence';
+import { MAX_MINOR_UNITS } from '../../../common/utils/money';
+
+export class CreateScheduledTransferDto {
+  @ApiProperty({
+    example: '1234567890',
+    description: 'Recipient wallet number (10-20 digits)',
+  })
+  @IsString()
+  @Length(10, 20)
+  wallet_number: string;
+
+  @ApiProperty({
+    example: 15000000,
+    description: 'Amount of each transfer in kobo (100 kobo = 1 Naira)',
+  })
+  @IsInt()
+  @IsPositive()
+  @Max(MAX_MINOR_UNITS)
+  amount: number;
+
+  @ApiProperty({
+    example: 'monthly',
+    description:
+      'once, weekly, monthly (same day of month, clamped to short months) or last_business_day',
+    enum: RECURRENCE_FREQUENCIES,
+  })
+  @IsIn(RECURRENCE_FREQUENCIES)
+  frequency: string;
+
+  @ApiProperty({
+    example: '2026-11-01T09:00:00Z',
+    description:
+      'First run (UTC); also sets the time of day, weekday and day of month of later runs',
+  })
+  @IsDateString()
+  start_at: string;
+
+  @ApiProperty({
+    example: '2027-10-31T23:59:59Z',
+    description: 'No runs after this date (optional)',
+    required: false,
+  })
+  @IsDateString()
+  @IsOptional()
+  end_at?: string;
+
+  @ApiProperty({
+    example: 'Rent',
+    description: 'What the transfer is for (optional)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(200)
+  description?: string;
+
+  @ApiProperty({
+    example: 3,
+    description:
+      'Times to retry a run that fails for insufficient funds (optional, 0 to 10; default 3)',
+    required: false,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(10)
+  @IsOptional()
+  max_retries?: number;
+
+  @ApiProperty({
+    example: 60,
+    description: 'Minutes between retries (optional, 5 to 1440; default 60)',
+    required: false,
+  })
+  @IsInt()
+  @Min(5)
+  @Max(1440)
+  @IsOptional()
+  retry_interval_minutes?: number;
+}
@@ -0,0 +1,70 @@
+import { lastBusinessDay, nextOccurrence } from './recurrence';
+
+describe('recurrence', () => {
+  const at = (iso: string) => new Date(iso);
+
+  describe('nextOccurrence', () => {
+    it('runs a one-off schedule once', () => {
+      const start = at('2026-11-01T09:00:00.000Z');
+
+      expect(nextOccurrence('once', start, at('2026-10-19T00:00:00Z'))).toEqual(
+        start,
+      );
+      expect(nextOccurrence('once', start, start)).toBeNull();
+    });
+
+    it('repeats weekly on the start weekday and time', () => {
+      const start = at('2026-10-23T08:00:00.000Z');
+
+      expect(nextOccurrence('weekly', start, start)).toEqual(
+        at('2026-10-30T08:00:00.000Z'),
+      );
+      expect(
+        nextOccurrence('weekly', start, at('2026-11-02T12:00:00.000Z')),
+      ).toEqual(at('2026-11-06T08:00:00.000Z'));
+    });
+
+    it('starts at the start date when asked before it', () => {
+      const start = at('2026-10-23T08:00:00.000Z');
+
+      expect(
+        nextOccurrence('weekly', start, at('2026-10-19T00:00:00.000Z')),
+      ).toEqual(start);
+    });
+
+    it('repeats monthly, clamping to short months', () => {
+      const start = at('2027-01-31T07:30:00.000Z');
+
+      expect(nextOccurrence('monthly', start, start)).toEqual(
+        at('2027-02-28T07:30:00.000Z'),
+      );
+      expect(
+        nextOccurrence('monthly', start, at('2027-02-28T07:30:00.000Z')),
+      ).toEqual(at('2027-03-31T07:30:00.000Z'));
+    });
+
+    it('runs on the last business day of each month', () => {
+      const start = at('2026-10-01T10:00:00.000Z');
+
+      // 31 October 2026 is a Saturday
+      expect(nextOccurrence('last_business_day', start, start)).toEqual(
+        at('2026-10-30T10:00:00.000Z'),
+      );
+      expect(
+        nextOccurrence(
+          'last_business_day',
+          start,
+          at('2026-10-30T10:00:00.000Z'),
+        ),
+      ).toEqual(at('2026-11-30T10:00:00.000Z'));
+    });
+  });
+
+  describe('lastBusinessDay', () => {
+    it('steps back over weekends', () => {
+      // 31 January 2027 is a Sunday, 30 May 2027 a Sunday (31st is Monday)
+      expect(lastBusinessDay(2027, 0)).toBe(29);
+      expect(lastBusinessDay(2027, 4)).toBe(31);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+// Pure schedule maths, kept free of Prisma so it can be unit tested.
+// Everything is in UTC; the start date sets the time of day, the weekday
+// (weekly) and the day of the month (monthly).
+
+export const RECURRENCE_FREQUENCIES = [
+  'once',
+  'weekly',
+  'monthly',
+  'last_business_day',
+];
+
+export type RecurrenceFrequency =
+  | 'once'
+  | 'weekly'
+  | 'monthly'
+  | 'last_business_day';
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function isRecurrenceFrequency(
+  value: string,
+): value is RecurrenceFrequency {
+  return RECURRENCE_FREQUENCIES.includes(value);
+}
+
+// First occurrence of the schedule strictly after `after`, never before
+// `start`; null when a one-off date has passed
+export function nextOccurrence(
+  frequency: RecurrenceFrequency,
+  start: Date,
+  after: Date,
+): Date | null {
+  if (after < start) {
+    after = new Date(start.getTime() - 1);
+  }
+
+  switch (frequency) {
+    case 'once':
+      return start > after ? start : null;
+    case 'weekly': {
+      const weeks = Math.floor((after.getTime() - start.getTime()) / WEEK_MS);
+      return new Date(start.getTime() + (weeks + 1) * WEEK_MS);
+    }
+    case 'monthly':
+      return firstMonthlyAfter(start, after, (year, month) =>
+        Math.min(start.getUTCDate(), daysInMonth(year, month)),
+      );
+    case 'last_business_day':
+      return firstMonthlyAfter(start, after, lastBusinessDay);
+  }
+}
+
+// Walk month by month from `after` until the month's occurrence passes it
+function firstMonthlyAfter(
+  start: Date,
+  after: Date,
+  dayOf: (year: number, month: number) => number,
+): Date {
+  let year = after.getUTCFullYear();
+  let month = after.getUTCMonth();
+
+  for (;;) {
+    const candidate = new Date(
+      Date.UTC(
+        year,
+        month,
+        dayOf(year, month),
+        start.getUTCHours(),
+        start.getUTCMinutes(),
+        start.getUTCSeconds(),
+      ),
+    );
+
+    if (candidate > after) {
+      return candidate;
+    }
+
+    month += 1;
+    if (month === 12) {
+      month = 0;
+      year += 1;
+    }
+  }
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// Last Monday-Friday of the month (public holidays are not considered)
+export function lastBusinessDay(year: number, month: number): number {
+  let day = daysInMonth(year, month);
+  let weekday = new Date(Date.UTC(year, month, day)).getUTCDay();
+
+  while (weekday === 0 || weekday === 6) {
+    day -= 1;
+    weekday = (weekday + 6) % 7;
+  }
+
+  return day;
+}
@@ -0,0 +1,116 @@
+import { Controller, Post, Get, UseGuards, Body, Param } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiParam,
+} from '@nestjs/swagger';
+import { ScheduledTransferService } from './scheduled-transfer.service';
+import { CreateScheduledTransferDto } from './dto/create-scheduled-transfer.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import type { AuthenticatedUser } from '../auth/decorators/get-user.decorator';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
+import { buildSuccessResponse } from 'src/common/utils/api-response';
+
+@ApiTags('Scheduled Transfers')
+@ApiBearerAuth()
+@ApiSecurity('api_key', ['x-api-key'])
+@Controller('wallet/scheduled-transfers')
+@UseGuards(JwtAuthGuard, ApiKeyGuard)
+export class ScheduledTransferController {
+  constructor(private scheduledTransferService: ScheduledTransferService) {}
+
+  @Post()
+  @RequirePermission('transfer')
+  @ApiOperation({ summary: 'Schedule a one-off or recurring transfer' })
+  @ApiResponse({ status: 200, description: 'Transfer scheduled' })
+  @ApiResponse({ status: 400, description: 'Invalid dates or recipient' })
+  @ApiResponse({ status: 404, description: 'Recipient wallet not found' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async create(
+    @GetUser() user: AuthenticatedUser,
+    @Body() dto: CreateScheduledTransferDto,
+  ) {
+    const result = await this.scheduledTransferService.createSchedule(
+      user.id,
+      dto,
+    );
+    return buildSuccessResponse('Transfer scheduled', result);
+  }
+
+  @Get()
+  @RequirePermission('read')
+  @ApiOperation({ summary: 'List scheduled transfers' })
+  @ApiResponse({ status: 200, description: 'Scheduled transfers retrieved' })
+  async getSchedules(@GetUser() user: AuthenticatedUser) {
+    const result = await this.scheduledTransferService.getSchedules(user.id);
+    return buildSuccessResponse('Scheduled transfers retrieved', result);
+  }
+
+  @Get(':id')
+  @RequirePermission('read')
+  @ApiOperation({ summary: 'Get a scheduled transfer' })
+  @ApiResponse({ status: 200, description: 'Scheduled transfer retrieved' })
+  @ApiResponse({ status: 404, description: 'Scheduled transfer not found' })
+  @ApiParam({ name: 'id', description: 'Scheduled transfer id' })
+  async getSchedule(
+    @GetUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    const result = await this.scheduledTransferService.getSchedule(user.id, id);
+    return buildSuccessResponse('Scheduled transfer retrieved', result);
+  }
+
+  @Get(':id/runs')
+  @RequirePermission('read')
+  @ApiOperation({ summary: 'Run history of a scheduled transfer' })
+  @ApiResponse({ status: 200, description: 'Runs retrieved' })
+  @ApiResponse({ status: 404, description: 'Scheduled transfer not found' })
+  @ApiParam({ name: 'id', description: 'Scheduled transfer id' })
+  async getRuns(@GetUser() user: AuthenticatedUser, @Param('id') id: string) {
+    const result = await this.scheduledTransferService.getRuns(user.id, id);
+    return buildSuccessResponse('Runs retrieved', result);
+  }
+
+  @Post(':id/pause')
+  @RequirePermission('transfer')
+  @ApiOperation({ summary: 'Pause a scheduled transfer' })
+  @ApiResponse({ status: 200, description: 'Scheduled transfer paused' })
+  @ApiResponse({ status: 400, description: 'Schedule is not active' })
+  @ApiParam({ name: 'id', description: 'Scheduled transfer id' })
+  async pause(@GetUser() user: AuthenticatedUser, @Param('id') id: string) {
+    const result = await this.scheduledTransferService.pause(user.id, id);
+    return buildSuccessResponse('Scheduled transfer paused', result);
+  }
+
+  @Post(':id/resume')
+  @RequirePermission('transfer')
+  @ApiOperation({
+    summary: 'Resume a paused transfer; runs missed while paused are skipped',
+  })
+  @ApiResponse({ status: 200, description: 'Scheduled transfer resumed' })
+  @ApiResponse({ status: 400, description: 'Schedule is not paused' })
+  @ApiParam({ name: 'id', description: 'Scheduled transfer id' })
+  async resume(@GetUser() user: AuthenticatedUser, @Param('id') id: string) {
+    const result = await this.scheduledTransferService.resume(user.id, id);
+    return buildSuccessResponse('Scheduled transfer resumed', result);
+  }
+
+  @Post(':id/cancel')
+  @RequirePermission('transfer')
+  @ApiOperation({ summary: 'Cancel a scheduled transfer' })
+  @ApiResponse({ status: 200, description: 'Scheduled transfer cancelled' })
+  @ApiResponse({ status: 400, description: 'Schedule has already ended' })
+  @ApiParam({ name: 'id', description: 'Scheduled transfer id' })
+  async cancel(@GetUser() user: AuthenticatedUser, @Param('id') id: string) {
+    const result = await this.scheduledTransferService.cancel(user.id, id);
+    return buildSuccessResponse('Scheduled transfer cancelled', result);
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { WalletModule } from '../wallet/wallet.module';
+import { ScheduledTransferController } from './scheduled-transfer.controller';
+import { ScheduledTransferService } from './scheduled-transfer.service';
+
+@Module({
+  imports: [WalletModule],
+  controllers: [ScheduledTransferController],
+  providers: [ScheduledTransferService],
+})
+export class ScheduledTransferModule {}
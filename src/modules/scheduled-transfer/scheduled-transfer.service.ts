@@ -0,0 +1,336 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PrismaClient, ScheduledTransfer } from '@prisma/client';
+import { toMinorUnits, toMoneyResponse } from '../../common/utils/money';
+import { WalletService } from '../wallet/wallet.service';
+import {
+  RecurrenceFrequency,
+  isRecurrenceFrequency,
+  nextOccurrence,
+} from './recurrence';
+import { CreateScheduledTransferDto } from './dto/create-scheduled-transfer.dto';
+
+// Schedules run per sweep, so one slow run can't hold up the next minute
+const RUN_BATCH_SIZE = 50;
+
+// How long a run owns its schedule. A crashed run is picked up again after
+// this; the transfer's idempotency key keeps it from paying twice.
+const RUN_LEASE_MS = 5 * 60 * 1000;
+
+const INSUFFICIENT_FUNDS = 'Insufficient balance';
+
+@Injectable()
+export class ScheduledTransferService extends PrismaClient {
+  constructor(private walletService: WalletService) {
+    super();
+  }
+
+  // ==================== SCHEDULES ====================
+
+  async createSchedule(userId: string, dto: CreateScheduledTransferDto) {
+    const startAt = new Date(dto.start_at);
+    const endAt = dto.end_at ? new Date(dto.end_at) : null;
+
+    if (startAt <= new Date()) {
+      throw new BadRequestException('start_at must be in the future');
+    }
+
+    if (endAt && endAt < startAt) {
+      throw new BadRequestException('end_at must be after start_at');
+    }
+
+    const recipient = await this.wallet.findUnique({
+      where: { walletNumber: dto.wallet_number },
+    });
+
+    if (!recipient) {
+      throw new NotFoundException('Recipient wallet not found');
+    }
+
+    if (recipient.userId === userId) {
+      throw new BadRequestException('Cannot schedule a transfer to yourself');
+    }
+
+    // The start date is the first run for every frequency except
+    // last_business_day, which waits for the first month end after it
+    const firstRun = nextOccurrence(
+      dto.frequency as RecurrenceFrequency,
+      startAt,
+      new Date(startAt.getTime() - 1),
+    ) as Date;
+
+    if (endAt && firstRun > endAt) {
+      throw new BadRequestException('No run falls before end_at');
+    }
+
+    const schedule = await this.scheduledTransfer.create({
+      data: {
+        userId,
+        toWalletNumber: dto.wallet_number,
+        amount: toMinorUnits(dto.amount),
+        frequency: dto.frequency,
+        description: dto.description,
+        status: 'active',
+        startAt,
+        endAt,
+        nextOccurrenceAt: firstRun,
+        nextRunAt: firstRun,
+        maxRetries: dto.max_retries,
+        retryIntervalMinutes: dto.retry_interval_minutes,
+      },
+    });
+
+    return this.toResponse(schedule);
+  }
+
+  async getSchedules(userId: string) {
+    const schedules = await this.scheduledTransfer.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return schedules.map((schedule) => this.toResponse(schedule));
+  }
+
+  async getSchedule(userId: string, id: string) {
+    return this.toResponse(await this.findOwnSchedule(userId, id));
+  }
+
+  async getRuns(userId: string, id: string) {
+    await this.findOwnSchedule(userId, id);
+
+    const runs = await this.scheduledTransferRun.findMany({
+      where: { scheduledTransferId: id },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return runs.map((run) => ({
+      occurrence_at: run.occurrenceAt,
+      attempt: run.attempt,
+      status: run.status,
+      transfer_reference: run.transferReference,
+      failure_reason: run.failureReason,
+      created_at: run.createdAt,
+    }));
+  }
+
+  async pause(userId: string, id: string) {
+    await this.findOwnSchedule(userId, id);
+
+    const paused = await this.scheduledTransfer.updateMany({
+      where: { id, status: 'active' },
+      data: { status: 'paused' },
+    });
+
+    if (paused.count === 0) {
+      throw new BadRequestException('Only an active schedule can be paused');
+    }
+
+    return this.getSchedule(userId, id);
+  }
+
+  // Occurrences missed while paused are skipped; a one-off transfer whose
+  // date passed runs straight away
+  async resume(userId: string, id: string) {
+    const schedule = await this.findOwnSchedule(userId, id);
+
+    if (schedule.status !== 'paused') {
+      throw new BadRequestException('Only a paused schedule can be resumed');
+    }
+
+    const { frequency, nextOccurrenceAt } = schedule;
+    if (!isRecurrenceFrequency(frequency) || !nextOccurrenceAt) {
+      throw new Error(`Scheduled transfer ${id} has no valid next occurrence`);
+    }
+
+    const now = new Date();
+    const occurrenceAt =
+      frequency === 'once' || nextOccurrenceAt > now
+        ? nextOccurrenceAt
+        : nextOccurrence(frequency, schedule.startAt, now);
+    const skipped = occurrenceAt?.getTime() !== nextOccurrenceAt.getTime();
+    const finished =
+      occurrenceAt === null ||
+      (schedule.endAt !== null && occurrenceAt > schedule.endAt);
+
+    const resumed = await this.scheduledTransfer.updateMany({
+      where: { id, status: 'paused' },
+      data: finished
+        ? { status: 'completed', nextOccurrenceAt: null, nextRunAt: null }
+        : {
+            status: 'active',
+            nextOccurrenceAt: occurrenceAt,
+            nextRunAt: skipped ? occurrenceAt : schedule.nextRunAt,
+            ...(skipped && { attempt: 0 }),
+          },
+    });
+
+    if (resumed.count === 0) {
+      throw new BadRequestException('Only a paused schedule can be resumed');
+    }
+
+    return this.getSchedule(userId, id);
+  }
+
+  async cancel(userId: string, id: string) {
+    await this.findOwnSchedule(userId, id);
+
+    const cancelled = await this.scheduledTransfer.updateMany({
+      where: { id, status: { in: ['active', 'paused'] } },
+      data: { status: 'cancelled', nextRunAt: null },
+    });
+
+    if (cancelled.count === 0) {
+      throw new BadRequestException('Schedule has already ended');
+    }
+
+    return this.getSchedule(userId, id);
+  }
+
+  private async findOwnSchedule(userId: string, id: string) {
+    const schedule = await this.scheduledTransfer.findFirst({
+      where: { id, userId },
+    });
+
+    if (!schedule) {
+      throw new NotFoundException('Scheduled transfer not found');
+    }
+
+    return schedule;
+  }
+
+  // ==================== RUNNER ====================
+
+  // Run every schedule whose occurrence or retry is due
+  @Cron(CronExpression.EVERY_MINUTE)
+  async runDueTransfers() {
+    const due = await this.scheduledTransfer.findMany({
+      where: { status: 'active', nextRunAt: { lte: new Date() } },
+      orderBy: { nextRunAt: 'asc' },
+      take: RUN_BATCH_SIZE,
+    });
+
+    for (const schedule of due) {
+      try {
+        await this.run(schedule);
+      } catch (error) {
+        console.error(
+          `Error running scheduled transfer ${schedule.id}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  // Transfer the current occurrence through WalletService.transfer. A
+  // shortfall is retried per the schedule's policy; any other failure, or
+  // running out of retries, moves on to the next occurrence.
+  private async run(schedule: ScheduledTransfer) {
+    const { frequency, nextOccurrenceAt: occurrenceAt } = schedule;
+    if (!isRecurrenceFrequency(frequency) || !occurrenceAt) {
+      throw new Error(
+        `Scheduled transfer ${schedule.id} has no valid next occurrence`,
+      );
+    }
+
+    const claimed = await this.scheduledTransfer.updateMany({
+      where: {
+        id: schedule.id,
+        status: 'active',
+        nextRunAt: schedule.nextRunAt,
+      },
+      data: { nextRunAt: new Date(Date.now() + RUN_LEASE_MS) },
+    });
+
+    if (claimed.count === 0) {
+      return;
+    }
+
+    const attempt = schedule.attempt + 1;
+
+    let reference: string | null = null;
+    let failure: string | null = null;
+    let retry = false;
+
+    try {
+      const result = await this.walletService.transfer(
+        schedule.userId,
+        schedule.toWalletNumber,
+        schedule.amount,
+        { idempotencyKey: `sch_${schedule.id}_${occurrenceAt.getTime()}` },
+      );
+      reference = result.reference;
+    } catch (error) {
+      failure = error instanceof Error ? error.message : 'Transfer failed';
+      retry =
+        error instanceof BadRequestException &&
+        error.message === INSUFFICIENT_FUNDS &&
+        attempt <= schedule.maxRetries;
+    }
+
+    await this.scheduledTransferRun.create({
+      data: {
+        scheduledTransferId: schedule.id,
+        occurrenceAt,
+        attempt,
+        status: reference ? 'success' : retry ? 'retry_scheduled' : 'failed',
+        transferReference: reference,
+        failureReason: failure,
+      },
+    });
+
+    if (retry) {
+      await this.scheduledTransfer.updateMany({
+        where: { id: schedule.id, status: { in: ['active', 'paused'] } },
+        data: {
+          attempt,
+          lastRunAt: new Date(),
+          nextRunAt: new Date(
+            Date.now() + schedule.retryIntervalMinutes * 60 * 1000,
+          ),
+        },
+      });
+      return;
+    }
+
+    const next = nextOccurrence(frequency, schedule.startAt, occurrenceAt);
+    const finished = !next || (schedule.endAt && next > schedule.endAt);
+
+    await this.scheduledTransfer.updateMany({
+      where: { id: schedule.id, status: { in: ['active', 'paused'] } },
+      data: {
+        attempt: 0,
+        lastRunAt: new Date(),
+        nextOccurrenceAt: finished ? null : next,
+        nextRunAt: finished ? null : next,
+        ...(finished && { status: 'completed' }),
+      },
+    });
+  }
+
+  private toResponse(schedule: ScheduledTransfer) {
+    return {
+      id: schedule.id,
+      wallet_number: schedule.toWalletNumber,
+      amount: toMoneyResponse(schedule.amount),
+      frequency: schedule.frequency,
+      description: schedule.description,
+      status: schedule.status,
+      start_at: schedule.startAt,
+      end_at: schedule.endAt,
+      next_run_at: schedule.nextOccurrenceAt,
+      retry_at:
+        schedule.attempt > 0 && schedule.status === 'active'
+          ? schedule.nextRunAt
+          : null,
+      max_retries: schedule.maxRetries,
+      retry_interval_minutes: schedule.retryIntervalMinutes,
+      last_run_at: schedule.lastRunAt,
+      created_at: schedule.createdAt,
+    };
+  }
+}
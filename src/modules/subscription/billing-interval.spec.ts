@@ -0,0 +1,38 @@
+import { addInterval } from './billing-interval';
+
+describe('addInterval', () => {
+  const at = (iso: string) => new Date(iso);
+
+  it('adds days for daily and weekly plans', () => {
+    expect(addInterval(at('2026-10-19T08:00:00.000Z'), 'daily')).toEqual(
+      at('2026-10-20T08:00:00.000Z'),
+    );
+    expect(addInterval(at('2026-10-19T08:00:00.000Z'), 'weekly')).toEqual(
+      at('2026-10-26T08:00:00.000Z'),
+    );
+  });
+
+  it('keeps the day of month and clamps to short months', () => {
+    expect(addInterval(at('2027-01-31T08:00:00.000Z'), 'monthly')).toEqual(
+      at('2027-02-28T08:00:00.000Z'),
+    );
+    expect(addInterval(at('2026-11-30T08:00:00.000Z'), 'quarterly')).toEqual(
+      at('2027-02-28T08:00:00.000Z'),
+    );
+  });
+
+  it('rolls over the year', () => {
+    expect(addInterval(at('2026-10-19T08:00:00.000Z'), 'biannually')).toEqual(
+      at('2027-04-19T08:00:00.000Z'),
+    );
+    expect(addInterval(at('2028-02-29T08:00:00.000Z'), 'annually')).toEqual(
+      at('2029-02-28T08:00:00.000Z'),
+    );
+  });
+
+  it('rejects unknown intervals', () => {
+    expect(() => addInterval(new Date(), 'hourly')).toThrow(
+      'Unknown plan interval',
+    );
+  });
+});
@@ -0,0 +1,46 @@
+// Paystack plan intervals and the date maths for wallet-billed renewals
+
+export const PLAN_INTERVALS = [
+  'daily',
+  'weekly',
+  'monthly',
+  'quarterly',
+  'biannually',
+  'annually',
+];
+
+const INTERVAL_MONTHS: Record<string, number> = {
+  monthly: 1,
+  quarterly: 3,
+  biannually: 6,
+  annually: 12,
+};
+
+const INTERVAL_DAYS: Record<string, number> = {
+  daily: 1,
+  weekly: 7,
+};
+
+// The next billing date, one interval after `from` (UTC). Month-based
+// intervals keep the day of month, clamped to shorter months.
+export function addInterval(from: Date, interval: string): Date {
+  if (interval in INTERVAL_DAYS) {
+    return new Date(from.getTime() + INTERVAL_DAYS[interval] * 86400000);
+  }
+
+  const months = INTERVAL_MONTHS[interval];
+  if (!months) {
+    throw new Error(`Unknown plan interval: ${interval}`);
+  }
+
+  const target = new Date(from);
+  target.setUTCDate(1);
+  target.setUTCMonth(target.getUTCMonth() + months);
+
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  target.setUTCDate(Math.min(from.getUTCDate(), lastDay));
+
+  return target;
+}
@@ -0,0 +1,46 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  IsString,
+  MaxLength,
+  Max,
+} from 'class-validator';
+import { PLAN_INTERVALS } from '../billing-interval';
+import { MAX_MINOR_UNITS } from '../../../common/utils/money';
+
+export class CreatePlanDto {
+  @ApiProperty({ example: 'Pro Monthly', description: 'Plan name' })
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    example: 'Unlimited transfers and priority support',
+    description: 'What the plan includes (optional)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({
+    example: 500000,
+    description: 'Price per interval in kobo (100 kobo = 1 Naira)',
+  })
+  @IsInt()
+  @IsPositive()
+  @Max(MAX_MINOR_UNITS)
+  amount: number;
+
+  @ApiProperty({
+    example: 'monthly',
+    description: 'How often subscribers are billed',
+    enum: PLAN_INTERVALS,
+  })
+  @IsIn(PLAN_INTERVALS)
+  interval: string;
+}
@@ -0,0 +1,31 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsOptional, IsUUID } from 'class-validator';
+
+export const BILLING_METHODS = ['card', 'wallet'];
+
+export class SubscribeDto {
+  @ApiProperty({
+    example: '3f1c2a9e-8b7d-4c6e-9f0a-1b2c3d4e5f60',
+    description: 'Plan id',
+  })
+  @IsUUID()
+  plan_id: string;
+
+  @ApiProperty({
+    example: 'wallet',
+    description:
+      'card: Paystack charges a saved card each interval; wallet: the wallet is debited each interval',
+    enum: BILLING_METHODS,
+  })
+  @IsIn(BILLING_METHODS)
+  billing_method: string;
+
+  @ApiProperty({
+    example: '9a8b7c6d-5e4f-4a3b-8c2d-1e0f9a8b7c6d',
+    description: 'Saved card to bill (required for card billing)',
+    required: false,
+  })
+  @IsUUID()
+  @IsOptional()
+  card_id?: string;
+}
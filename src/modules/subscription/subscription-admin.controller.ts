@@ -0,0 +1,43 @@
+import { Controller, Get, Post, UseGuards, Body } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { SubscriptionService } from './subscription.service';
+import { CreatePlanDto } from './dto/create-plan.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { buildSuccessResponse } from 'src/common/utils/api-response';
+
+@ApiTags('Subscriptions Admin')
+@ApiBearerAuth()
+@ApiSecurity('api_key', ['x-api-key'])
+@Controller('admin/subscription-plans')
+@UseGuards(JwtAuthGuard, ApiKeyGuard, AdminGuard)
+export class SubscriptionAdminController {
+  constructor(private readonly subscriptionService: SubscriptionService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a plan on Paystack' })
+  @ApiResponse({ status: 200, description: 'Plan created' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+  })
+  async createPlan(@Body() dto: CreatePlanDto) {
+    const result = await this.subscriptionService.createPlan(dto);
+    return buildSuccessResponse('Plan created', result);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List every plan, including inactive ones' })
+  @ApiResponse({ status: 200, description: 'Plans retrieved' })
+  async getPlans() {
+    const result = await this.subscriptionService.getPlans(false);
+    return buildSuccessResponse('Plans retrieved', result);
+  }
+}
@@ -0,0 +1,95 @@
+import { Controller, Post, Get, UseGuards, Body, Param } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiParam,
+} from '@nestjs/swagger';
+import { SubscriptionService } from './subscription.service';
+import { SubscribeDto } from './dto/subscribe.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import type { AuthenticatedUser } from '../auth/decorators/get-user.decorator';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
+import { buildSuccessResponse } from 'src/common/utils/api-response';
+
+@ApiTags('Subscriptions')
+@ApiBearerAuth()
+@ApiSecurity('api_key', ['x-api-key'])
+@Controller('subscriptions')
+@UseGuards(JwtAuthGuard, ApiKeyGuard)
+export class SubscriptionController {
+  constructor(private subscriptionService: SubscriptionService) {}
+
+  @Get('plans')
+  @RequirePermission('read')
+  @ApiOperation({ summary: 'List the plans available to subscribe to' })
+  @ApiResponse({ status: 200, description: 'Plans retrieved' })
+  async getPlans() {
+    const result = await this.subscriptionService.getPlans();
+    return buildSuccessResponse('Plans retrieved', result);
+  }
+
+  @Post()
+  @RequirePermission('transfer')
+  @ApiOperation({
+    summary: 'Subscribe to a plan, billed to a saved card or the wallet',
+  })
+  @ApiResponse({ status: 200, description: 'Subscribed' })
+  @ApiResponse({
+    status: 400,
+    description: 'Insufficient balance, wallet not active or card_id missing',
+  })
+  @ApiResponse({ status: 404, description: 'Plan or card not found' })
+  @ApiResponse({ status: 409, description: 'Already subscribed to this plan' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async subscribe(
+    @GetUser() user: AuthenticatedUser,
+    @Body() dto: SubscribeDto,
+  ) {
+    const result = await this.subscriptionService.subscribe(user.id, dto);
+    return buildSuccessResponse('Subscribed', result);
+  }
+
+  @Get()
+  @RequirePermission('read')
+  @ApiOperation({ summary: 'List subscriptions' })
+  @ApiResponse({ status: 200, description: 'Subscriptions retrieved' })
+  async getSubscriptions(@GetUser() user: AuthenticatedUser) {
+    const result = await this.subscriptionService.getSubscriptions(user.id);
+    return buildSuccessResponse('Subscriptions retrieved', result);
+  }
+
+  @Get(':id')
+  @RequirePermission('read')
+  @ApiOperation({ summary: 'Get a subscription and its invoices' })
+  @ApiResponse({ status: 200, description: 'Subscription retrieved' })
+  @ApiResponse({ status: 404, description: 'Subscription not found' })
+  @ApiParam({ name: 'id', description: 'Subscription id' })
+  async getSubscription(
+    @GetUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    const result = await this.subscriptionService.getSubscription(user.id, id);
+    return buildSuccessResponse('Subscription retrieved', result);
+  }
+
+  @Post(':id/cancel')
+  @RequirePermission('transfer')
+  @ApiOperation({
+    summary: 'Cancel a subscription; the current period is not refunded',
+  })
+  @ApiResponse({ status: 200, description: 'Subscription cancelled' })
+  @ApiResponse({ status: 400, description: 'Subscription has already ended' })
+  @ApiParam({ name: 'id', description: 'Subscription id' })
+  async cancel(@GetUser() user: AuthenticatedUser, @Param('id') id: string) {
+    const result = await this.subscriptionService.cancel(user.id, id);
+    return buildSuccessResponse('Subscription cancelled', result);
+  }
+}
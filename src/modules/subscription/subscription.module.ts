@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { LedgerModule } from '../ledger/ledger.module';
+import { PaystackModule } from '../paystack/paystack.module';
+import { WalletModule } from '../wallet/wallet.module';
+import { SubscriptionController } from './subscription.controller';
+import { SubscriptionAdminController } from './subscription-admin.controller';
+import { SubscriptionService } from './subscription.service';
+
+@Module({
+  imports: [LedgerModule, PaystackModule, WalletModule],
+  controllers: [SubscriptionController, SubscriptionAdminController],
+  providers: [SubscriptionService],
+  exports: [SubscriptionService],
+})
+export class SubscriptionModule {}
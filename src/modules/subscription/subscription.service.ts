@@ -0,0 +1,757 @@
+import {
+  Injectable,
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma, PrismaClient, SubscriptionPlan } from '@prisma/client';
+import * as crypto from 'crypto';
+import {
+  DEFAULT_CURRENCY,
+  toMinorUnits,
+  toMoneyResponse,
+} from '../../common/utils/money';
+import { LedgerService } from '../ledger/ledger.service';
+import { JOURNAL_TYPES, LEDGER_ACCOUNTS } from '../ledger/ledger.constants';
+import { PaystackService } from '../paystack/paystack.service';
+import {
+  PaystackInvoice,
+  PaystackSubscription,
+} from '../paystack/paystack.types';
+import { CardService } from '../wallet/card.service';
+import { assertWalletCanDebit } from '../wallet/wallet-status';
+import { addInterval } from './billing-interval';
+import { CreatePlanDto } from './dto/create-plan.dto';
+import { SubscribeDto } from './dto/subscribe.dto';
+
+type SubscriptionWithPlan = Prisma.SubscriptionGetPayload<{
+  include: { plan: true };
+}>;
+
+// Subscriptions that still bill or can be cancelled
+const LIVE_STATUSES = ['active', 'non_renewing', 'attention'];
+
+// A card subscription stays pending while Paystack creates it. A pending
+// claim this old belongs to a request that died and no longer blocks a new
+// subscription to the plan.
+const STALE_PENDING_MS = 10 * 60 * 1000;
+
+// Wallet renewals per sweep
+const BILLING_BATCH_SIZE = 100;
+
+// A wallet renewal that fails is retried daily, then the subscription is
+// cancelled
+const MAX_WALLET_BILLING_ATTEMPTS = 3;
+const WALLET_RETRY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class SubscriptionService extends PrismaClient {
+  constructor(
+    private ledgerService: LedgerService,
+    private paystackService: PaystackService,
+    private cardService: CardService,
+  ) {
+    super();
+  }
+
+  // ==================== PLANS ====================
+
+  // Create the plan on Paystack and keep a copy
+  async createPlan(dto: CreatePlanDto) {
+    const amount = toMinorUnits(dto.amount);
+    const paystackPlan = await this.paystackService.createPlan({
+      name: dto.name,
+      description: dto.description,
+      amount: Number(amount),
+      interval: dto.interval,
+      currency: DEFAULT_CURRENCY,
+    });
+
+    const plan = await this.subscriptionPlan.create({
+      data: {
+        name: dto.name,
+        description: dto.description,
+        amount,
+        interval: dto.interval,
+        paystackPlanCode: paystackPlan.plan_code,
+      },
+    });
+
+    return this.toPlanResponse(plan);
+  }
+
+  async getPlans(activeOnly = true) {
+    const plans = await this.subscriptionPlan.findMany({
+      where: activeOnly ? { active: true } : {},
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return plans.map((plan) => this.toPlanResponse(plan));
+  }
+
+  // ==================== SUBSCRIPTIONS ====================
+
+  // Card billing hands the subscription to Paystack; wallet billing debits
+  // the first period now and renews from the wallet every interval
+  async subscribe(userId: string, dto: SubscribeDto) {
+    const plan = await this.subscriptionPlan.findUnique({
+      where: { id: dto.plan_id },
+    });
+
+    if (!plan || !plan.active) {
+      throw new NotFoundException('Plan not found');
+    }
+
+    const subscription =
+      dto.billing_method === 'wallet'
+        ? await this.subscribeWithWallet(userId, plan)
+        : await this.subscribeWithCard(userId, plan, dto.card_id);
+
+    return this.getSubscription(userId, subscription.id);
+  }
+
+  // Lock the user so two subscribes to the same plan can't both pass the
+  // check, then refuse if the plan already has a live subscription
+  private async assertNotSubscribed(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    planId: string,
+  ) {
+    await tx.$queryRaw`SELECT "id" FROM "User" WHERE "id" = ${userId} FOR UPDATE`;
+
+    const existing = await tx.subscription.findFirst({
+      where: {
+        userId,
+        planId,
+        OR: [
+          { status: { in: LIVE_STATUSES } },
+          {
+            status: 'pending',
+            createdAt: { gt: new Date(Date.now() - STALE_PENDING_MS) },
+          },
+        ],
+      },
+    });
+
+    if (existing) {
+      throw new ConflictException('Already subscribed to this plan');
+    }
+  }
+
+  // Claim the subscription as pending before asking Paystack, so a second
+  // request is refused instead of charging the card twice
+  private async subscribeWithCard(
+    userId: string,
+    plan: SubscriptionPlan,
+    cardId?: string,
+  ) {
+    if (!cardId) {
+      throw new BadRequestException('card_id is required for card billing');
+    }
+
+    const card = await this.cardService.findOwnCard(userId, cardId);
+
+    const claim = await this.$transaction(
+      async (tx: Prisma.TransactionClient) => {
+        await this.assertNotSubscribed(tx, userId, plan.id);
+
+        return tx.subscription.create({
+          data: {
+            userId,
+            planId: plan.id,
+            billingMethod: 'card',
+            status: 'pending',
+          },
+        });
+      },
+    );
+
+    let paystackSubscription: PaystackSubscription;
+    try {
+      paystackSubscription = await this.paystackService.createSubscription({
+        customer: card.email,
+        plan: plan.paystackPlanCode,
+        authorization: card.authorizationCode,
+      });
+    } catch (error) {
+      await this.subscription.deleteMany({
+        where: { id: claim.id, status: 'pending' },
+      });
+      throw error;
+    }
+
+    // subscription.create may have arrived first and filled in the claim
+    return this.subscription.update({
+      where: { id: claim.id },
+      data: {
+        paystackSubscriptionCode: paystackSubscription.subscription_code,
+        status: this.toStatus(paystackSubscription.status),
+        emailToken: paystackSubscription.email_token,
+        nextPaymentDate: paystackSubscription.next_payment_date
+          ? new Date(paystackSubscription.next_payment_date)
+          : null,
+      },
+    });
+  }
+
+  private subscribeWithWallet(userId: string, plan: SubscriptionPlan) {
+    const now = new Date();
+    const periodEnd = addInterval(now, plan.interval);
+
+    return this.$transaction(async (tx: Prisma.TransactionClient) => {
+      await this.assertNotSubscribed(tx, userId, plan.id);
+
+      const subscription = await tx.subscription.create({
+        data: {
+          userId,
+          planId: plan.id,
+          billingMethod: 'wallet',
+          status: 'active',
+          currentPeriodEnd: periodEnd,
+          nextPaymentDate: periodEnd,
+        },
+      });
+
+      await this.debitWallet(tx, subscription, plan, now, periodEnd);
+
+      return subscription;
+    });
+  }
+
+  // Stop renewals. The period already paid for is not refunded.
+  async cancel(userId: string, id: string) {
+    const subscription = await this.findOwnSubscription(userId, id);
+
+    if (subscription.status === 'pending') {
+      throw new BadRequestException(
+        'Subscription is still being set up on Paystack; try again shortly',
+      );
+    }
+
+    if (!LIVE_STATUSES.includes(subscription.status)) {
+      throw new BadRequestException('Subscription has already ended');
+    }
+
+    if (subscription.billingMethod === 'card') {
+      const { paystackSubscriptionCode, emailToken } = subscription;
+      if (!paystackSubscriptionCode || !emailToken) {
+        throw new BadRequestException(
+          'Subscription is still being set up on Paystack; try again shortly',
+        );
+      }
+
+      await this.paystackService.disableSubscription(
+        paystackSubscriptionCode,
+        emailToken,
+      );
+    }
+
+    await this.subscription.updateMany({
+      where: { id, status: { in: LIVE_STATUSES } },
+      data: {
+        status: 'cancelled',
+        cancelledAt: new Date(),
+        nextPaymentDate: null,
+      },
+    });
+
+    return this.getSubscription(userId, id);
+  }
+
+  async getSubscriptions(userId: string) {
+    const subscriptions = await this.subscription.findMany({
+      where: { userId },
+      include: { plan: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return subscriptions.map((subscription) => this.toResponse(subscription));
+  }
+
+  async getSubscription(userId: string, id: string) {
+    await this.findOwnSubscription(userId, id);
+
+    const subscription = await this.subscription.findUniqueOrThrow({
+      where: { id },
+      include: { plan: true, invoices: { orderBy: { createdAt: 'desc' } } },
+    });
+
+    return {
+      ...this.toResponse(subscription),
+      invoices: subscription.invoices.map((invoice) => ({
+        status: invoice.status,
+        amount: toMoneyResponse(invoice.amount),
+        reference: invoice.reference ?? invoice.paystackInvoiceCode,
+        period_start: invoice.periodStart,
+        period_end: invoice.periodEnd,
+        failure_reason: invoice.failureReason,
+        paid_at: invoice.paidAt,
+        created_at: invoice.createdAt,
+      })),
+    };
+  }
+
+  private async findOwnSubscription(userId: string, id: string) {
+    const subscription = await this.subscription.findFirst({
+      where: { id, userId },
+    });
+
+    if (!subscription) {
+      throw new NotFoundException('Subscription not found');
+    }
+
+    return subscription;
+  }
+
+  // ==================== WALLET BILLING ====================
+
+  // Renew wallet-billed subscriptions whose next payment is due
+  @Cron(CronExpression.EVERY_MINUTE)
+  async billWalletSubscriptions() {
+    const due = await this.subscription.findMany({
+      where: {
+        billingMethod: 'wallet',
+        status: { in: ['active', 'attention'] },
+        nextPaymentDate: { lte: new Date() },
+      },
+      include: { plan: true },
+      orderBy: { nextPaymentDate: 'asc' },
+      take: BILLING_BATCH_SIZE,
+    });
+
+    for (const subscription of due) {
+      try {
+        await this.renew(subscription);
+      } catch (error) {
+        console.error(`Error renewing subscription ${subscription.id}:`, error);
+      }
+    }
+  }
+
+  // Claim the period by moving nextPaymentDate, then debit, all in one
+  // database transaction; a failed debit rolls the claim back. The period
+  // runs on from the last one paid, so late retries don't shift the billing
+  // date.
+  private async renew(subscription: SubscriptionWithPlan) {
+    const periodStart =
+      subscription.currentPeriodEnd ?? subscription.nextPaymentDate;
+    if (!periodStart) {
+      throw new Error(`Subscription ${subscription.id} has no payment date`);
+    }
+    const periodEnd = addInterval(periodStart, subscription.plan.interval);
+
+    try {
+      await this.$transaction(async (tx: Prisma.TransactionClient) => {
+        const claimed = await tx.subscription.updateMany({
+          where: {
+            id: subscription.id,
+            status: subscription.status,
+            nextPaymentDate: subscription.nextPaymentDate,
+          },
+          data: {
+            status: 'active',
+            failedAttempts: 0,
+            currentPeriodEnd: periodEnd,
+            nextPaymentDate: periodEnd,
+          },
+        });
+
+        if (claimed.count === 0) {
+          return;
+        }
+
+        await this.debitWallet(
+          tx,
+          subscription,
+          subscription.plan,
+          periodStart,
+          periodEnd,
+        );
+      });
+    } catch (error) {
+      await this.recordWalletFailure(
+        subscription,
+        error instanceof Error ? error.message : 'Renewal failed',
+      );
+    }
+  }
+
+  // Retry tomorrow; currentPeriodEnd stays put, so the retry still bills
+  // the period that is due
+  private async recordWalletFailure(
+    subscription: SubscriptionWithPlan,
+    reason: string,
+  ) {
+    const failedAttempts = subscription.failedAttempts + 1;
+    const cancelled = failedAttempts >= MAX_WALLET_BILLING_ATTEMPTS;
+
+    const updated = await this.subscription.updateMany({
+      where: {
+        id: subscription.id,
+        status: subscription.status,
+        nextPaymentDate: subscription.nextPaymentDate,
+      },
+      data: cancelled
+        ? {
+            status: 'cancelled',
+            failedAttempts,
+            cancelledAt: new Date(),
+            nextPaymentDate: null,
+          }
+        : {
+            status: 'attention',
+            failedAttempts,
+            nextPaymentDate: new Date(Date.now() + WALLET_RETRY_MS),
+          },
+    });
+
+    if (updated.count === 0) {
+      return;
+    }
+
+    await this.subscriptionInvoice.create({
+      data: {
+        subscriptionId: subscription.id,
+        amount: subscription.plan.amount,
+        status: 'failed',
+        periodStart: subscription.currentPeriodEnd,
+        failureReason: reason,
+      },
+    });
+  }
+
+  // Move one period's price from the wallet to subscription revenue
+  private async debitWallet(
+    tx: Prisma.TransactionClient,
+    subscription: { id: string; userId: string },
+    plan: { name: string; amount: bigint },
+    periodStart: Date,
+    periodEnd: Date,
+  ) {
+    const wallet = await tx.wallet.findUnique({
+      where: { userId: subscription.userId },
+    });
+
+    if (!wallet) {
+      throw new BadRequestException('Insufficient balance');
+    }
+
+    assertWalletCanDebit(wallet);
+
+    const reference = `sub_${crypto.randomUUID().replace(/-/g, '')}`;
+    const walletAccount = await this.ledgerService.getWalletAccount(
+      tx,
+      wallet.id,
+    );
+    const revenue = await this.ledgerService.getSystemAccount(
+      tx,
+      LEDGER_ACCOUNTS.SUBSCRIPTION_REVENUE,
+    );
+
+    // The ledger refuses the debit if the available balance is short
+    const journal = await this.ledgerService.post(tx, {
+      reference,
+      type: JOURNAL_TYPES.SUBSCRIPTION,
+      description: `Subscription to ${plan.name}`,
+      lines: [
+        {
+          accountId: walletAccount.id,
+          direction: 'debit',
+          amount: plan.amount,
+        },
+        { accountId: revenue.id, direction: 'credit', amount: plan.amount },
+      ],
+    });
+
+    await tx.transaction.create({
+      data: {
+        userId: subscription.userId,
+        reference,
+        amount: plan.amount,
+        type: 'subscription',
+        status: 'success',
+        journalId: journal.id,
+        completedAt: new Date(),
+        metadata: { subscription_id: subscription.id, plan: plan.name },
+      },
+    });
+
+    await tx.subscriptionInvoice.create({
+      data: {
+        subscriptionId: subscription.id,
+        reference,
+        amount: plan.amount,
+        status: 'success',
+        periodStart,
+        periodEnd,
+        paidAt: new Date(),
+      },
+    });
+  }
+
+  // ==================== WEBHOOK OPERATIONS ====================
+
+  // Handle Paystack subscription.* and invoice.* webhook events (IDEMPOTENT)
+  async handleSubscriptionEvent(
+    event: string,
+    data: PaystackSubscription | PaystackInvoice,
+  ) {
+    let applied: boolean;
+    switch (event) {
+      case 'subscription.create':
+      case 'subscription.not_renew':
+        applied = await this.syncSubscription(data as PaystackSubscription);
+        break;
+      case 'subscription.disable':
+        applied = await this.disable(data as PaystackSubscription);
+        break;
+      case 'invoice.create':
+      case 'invoice.update':
+        applied = await this.syncInvoice(data as PaystackInvoice);
+        break;
+      case 'invoice.payment_failed':
+        applied = await this.invoiceFailed(data as PaystackInvoice);
+        break;
+      default:
+        return { status: true, message: 'Event ignored' };
+    }
+
+    return applied
+      ? { status: true }
+      : { status: true, message: 'Already processed' };
+  }
+
+  // Record or refresh a Paystack subscription, including ones created
+  // outside this API for a known plan and customer
+  private async syncSubscription(data: PaystackSubscription): Promise<boolean> {
+    const code = data.subscription_code;
+    const fields = {
+      status: this.toStatus(data.status),
+      emailToken: data.email_token ?? undefined,
+      nextPaymentDate: data.next_payment_date
+        ? new Date(data.next_payment_date)
+        : undefined,
+    };
+
+    const existing = await this.subscription.findUnique({
+      where: { paystackSubscriptionCode: code },
+    });
+
+    if (existing) {
+      await this.subscription.update({
+        where: { id: existing.id },
+        data: fields,
+      });
+      return true;
+    }
+
+    const plan = await this.subscriptionPlan.findUnique({
+      where: { paystackPlanCode: data.plan?.plan_code ?? '' },
+    });
+    const user = await this.user.findUnique({
+      where: { email: data.customer?.email ?? '' },
+    });
+
+    if (!plan || !user) {
+      return false;
+    }
+
+    // The API request that created it may still be waiting on Paystack
+    const claim = await this.subscription.findFirst({
+      where: {
+        userId: user.id,
+        planId: plan.id,
+        status: 'pending',
+        paystackSubscriptionCode: null,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    if (claim) {
+      await this.subscription.update({
+        where: { id: claim.id },
+        data: { paystackSubscriptionCode: code, ...fields },
+      });
+      return true;
+    }
+
+    await this.subscription.upsert({
+      where: { paystackSubscriptionCode: code },
+      create: {
+        userId: user.id,
+        planId: plan.id,
+        billingMethod: 'card',
+        paystackSubscriptionCode: code,
+        ...fields,
+      },
+      update: fields,
+    });
+
+    return true;
+  }
+
+  private async disable(data: PaystackSubscription): Promise<boolean> {
+    const updated = await this.subscription.updateMany({
+      where: {
+        paystackSubscriptionCode: data.subscription_code,
+        status: { in: LIVE_STATUSES },
+      },
+      data: {
+        status: data.status === 'complete' ? 'completed' : 'cancelled',
+        cancelledAt: new Date(),
+        nextPaymentDate: null,
+      },
+    });
+
+    return updated.count > 0;
+  }
+
+  // Record an invoice; once it is paid, post it to the ledger (Paystack
+  // collected the money into our balance) and bring the subscription current
+  private async syncInvoice(data: PaystackInvoice): Promise<boolean> {
+    const subscription = await this.subscription.findUnique({
+      where: {
+        paystackSubscriptionCode: data.subscription?.subscription_code ?? '',
+      },
+    });
+
+    if (!subscription) {
+      return false;
+    }
+
+    const invoice = await this.upsertInvoice(subscription.id, data);
+    const paid = data.paid === true || data.status === 'success';
+
+    if (!paid) {
+      return true;
+    }
+
+    return this.$transaction(async (tx: Prisma.TransactionClient) => {
+      const claimed = await tx.subscriptionInvoice.updateMany({
+        where: { id: invoice.id, status: { not: 'success' } },
+        data: {
+          status: 'success',
+          failureReason: null,
+          paidAt: data.paid_at ? new Date(data.paid_at) : new Date(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      const clearing = await this.ledgerService.getSystemAccount(
+        tx,
+        LEDGER_ACCOUNTS.PAYSTACK_CLEARING,
+      );
+      const revenue = await this.ledgerService.getSystemAccount(
+        tx,
+        LEDGER_ACCOUNTS.SUBSCRIPTION_REVENUE,
+      );
+
+      await this.ledgerService.post(tx, {
+        reference: `inv_${data.invoice_code}`,
+        type: JOURNAL_TYPES.SUBSCRIPTION,
+        description: `Paystack invoice ${data.invoice_code}`,
+        lines: [
+          {
+            accountId: clearing.id,
+            direction: 'debit',
+            amount: invoice.amount,
+          },
+          {
+            accountId: revenue.id,
+            direction: 'credit',
+            amount: invoice.amount,
+          },
+        ],
+      });
+
+      await tx.subscription.updateMany({
+        where: { id: subscription.id, status: { in: LIVE_STATUSES } },
+        data: {
+          status: 'active',
+          nextPaymentDate: data.subscription?.next_payment_date
+            ? new Date(data.subscription.next_payment_date)
+            : undefined,
+        },
+      });
+
+      return true;
+    });
+  }
+
+  private async invoiceFailed(data: PaystackInvoice): Promise<boolean> {
+    const subscription = await this.subscription.findUnique({
+      where: {
+        paystackSubscriptionCode: data.subscription?.subscription_code ?? '',
+      },
+    });
+
+    if (!subscription) {
+      return false;
+    }
+
+    const invoice = await this.upsertInvoice(subscription.id, data);
+
+    const failed = await this.subscriptionInvoice.updateMany({
+      where: { id: invoice.id, status: 'pending' },
+      data: {
+        status: 'failed',
+        failureReason: data.description ?? 'Payment failed',
+      },
+    });
+
+    await this.subscription.updateMany({
+      where: { id: subscription.id, status: 'active' },
+      data: { status: 'attention' },
+    });
+
+    return failed.count > 0;
+  }
+
+  private upsertInvoice(subscriptionId: string, data: PaystackInvoice) {
+    return this.subscriptionInvoice.upsert({
+      where: { paystackInvoiceCode: data.invoice_code },
+      create: {
+        subscriptionId,
+        paystackInvoiceCode: data.invoice_code,
+        amount: toMinorUnits(data.amount),
+        status: 'pending',
+        periodStart: data.period_start ? new Date(data.period_start) : null,
+        periodEnd: data.period_end ? new Date(data.period_end) : null,
+      },
+      update: {},
+    });
+  }
+
+  // Paystack spells non-renewing with a hyphen
+  private toStatus(paystackStatus: string | undefined) {
+    return (paystackStatus ?? 'active').replace('-', '_');
+  }
+
+  private toPlanResponse(plan: SubscriptionPlan) {
+    return {
+      id: plan.id,
+      name: plan.name,
+      description: plan.description,
+      amount: toMoneyResponse(plan.amount, plan.currency),
+      interval: plan.interval,
+      plan_code: plan.paystackPlanCode,
+      active: plan.active,
+    };
+  }
+
+  private toResponse(subscription: SubscriptionWithPlan) {
+    return {
+      id: subscription.id,
+      plan: this.toPlanResponse(subscription.plan),
+      billing_method: subscription.billingMethod,
+      status: subscription.status,
+      next_payment_date: subscription.nextPaymentDate,
+      cancelled_at: subscription.cancelledAt,
+      created_at: subscription.createdAt,
+    };
+  }
+}
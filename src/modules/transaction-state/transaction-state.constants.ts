@@ -0,0 +1,20 @@
+// Allowed Transaction.status moves. Only a settled withdrawal can be
+// reversed after success, and a deposit paid after it expired goes to
+// review; everything else leaves pending exactly once.
+export const TRANSACTION_TRANSITIONS: Record<string, string[]> = {
+  pending: ['success', 'failed', 'reversed', 'requires_review', 'expired'],
+  success: ['reversed'],
+  expired: ['requires_review'],
+};
+
+// Where a status change came from, recorded with every transition
+export const TRANSITION_SOURCES = {
+  WEBHOOK: 'webhook',
+  CALLBACK: 'callback',
+  MANUAL_VERIFY: 'manual_verify',
+  RECONCILIATION: 'reconciliation',
+  API: 'api',
+} as const;
+
+export type TransitionSource =
+  (typeof TRANSITION_SOURCES)[keyof typeof TRANSITION_SOURCES];
@@ -0,0 +1,8 @@
+import { Module } from '@nestjs/common';
+import { TransactionStateService } from './transaction-state.service';
+
+@Module({
+  providers: [TransactionStateService],
+  exports: [TransactionStateService],
+})
+export class TransactionStateModule {}
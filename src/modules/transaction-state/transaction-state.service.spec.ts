@@ -0,0 +1,97 @@
+import { Prisma } from '@prisma/client';
+import { TransactionStateService } from './transaction-state.service';
+import { TRANSITION_SOURCES } from './transaction-state.constants';
+
+describe('TransactionStateService', () => {
+  const tx = {
+    transaction: { updateMany: jest.fn(), findUniqueOrThrow: jest.fn() },
+    transactionStatusTransition: { create: jest.fn() },
+  };
+  const client = tx as unknown as Prisma.TransactionClient;
+  const service = new TransactionStateService();
+
+  const settle = {
+    where: { reference: 'dep_1' },
+    from: 'pending',
+    to: 'success',
+    source: TRANSITION_SOURCES.WEBHOOK,
+    data: { completedAt: new Date('2026-10-19T12:00:00.000Z') },
+  };
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    tx.transaction.findUniqueOrThrow.mockResolvedValue({ id: 'txn_1' });
+  });
+
+  describe('transition', () => {
+    it('moves the transaction only if it is still in the expected status', async () => {
+      tx.transaction.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(service.transition(settle, client)).resolves.toBe(true);
+
+      expect(tx.transaction.updateMany).toHaveBeenCalledWith({
+        where: { reference: 'dep_1', status: 'pending' },
+        data: { completedAt: settle.data.completedAt, status: 'success' },
+      });
+      expect(tx.transactionStatusTransition.create).toHaveBeenCalledWith({
+        data: {
+          transactionId: 'txn_1',
+          fromStatus: 'pending',
+          toStatus: 'success',
+          source: 'webhook',
+          reason: undefined,
+        },
+      });
+    });
+
+    it('lets only one of two racing paths settle a deposit', async () => {
+      // The webhook wins the conditional update; the callback finds the
+      // deposit already settled
+      tx.transaction.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      const results = await Promise.all([
+        service.transition(settle, client),
+        service.transition(
+          { ...settle, source: TRANSITION_SOURCES.CALLBACK },
+          client,
+        ),
+      ]);
+
+      expect(results).toEqual([true, false]);
+      expect(tx.transactionStatusTransition.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports a lost race without logging a transition', async () => {
+      tx.transaction.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.transition(settle, client)).resolves.toBe(false);
+      expect(tx.transaction.findUniqueOrThrow).not.toHaveBeenCalled();
+      expect(tx.transactionStatusTransition.create).not.toHaveBeenCalled();
+    });
+
+    it('refuses a move the state machine does not allow', () => {
+      expect(() =>
+        service.transition(
+          { ...settle, from: 'success', to: 'pending' },
+          client,
+        ),
+      ).toThrow('Invalid transaction transition: success -> pending');
+      expect(tx.transaction.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('opens its own database transaction when none is passed', async () => {
+      tx.transaction.updateMany.mockResolvedValue({ count: 1 });
+      const $transaction = jest
+        .spyOn(service, '$transaction')
+        .mockImplementation((fn: unknown) =>
+          (fn as (inner: Prisma.TransactionClient) => Promise<boolean>)(client),
+        );
+
+      await expect(service.transition(settle)).resolves.toBe(true);
+      expect($transaction).toHaveBeenCalledTimes(1);
+      expect(tx.transactionStatusTransition.create).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  TRANSACTION_TRANSITIONS,
+  TransitionSource,
+} from './transaction-state.constants';
+
+export interface TransitionInput {
+  where: { id: string } | { reference: string };
+  from: string;
+  to: string;
+  source: TransitionSource;
+  reason?: string;
+  // Extra Transaction columns written together with the status
+  data?: Record<string, any>;
+}
+
+@Injectable()
+export class TransactionStateService extends PrismaClient {
+  constructor() {
+    super();
+  }
+
+  /**
+   * Moves a transaction from one status to another with a conditional
+   * update, so when two paths race only one of them wins. Returns false
+   * if the transaction was no longer in `from`.
+   * Pass `tx` to make the move part of a wider database transaction
+   * (e.g. together with its ledger posting).
+   */
+  transition(
+    input: TransitionInput,
+    tx?: Prisma.TransactionClient,
+  ): Promise<boolean> {
+    if (!TRANSACTION_TRANSITIONS[input.from]?.includes(input.to)) {
+      throw new Error(
+        `Invalid transaction transition: ${input.from} -> ${input.to}`,
+      );
+    }
+
+    if (!tx) {
+      return this.$transaction((inner: Prisma.TransactionClient) =>
+        this.transition(input, inner),
+      );
+    }
+
+    return this.apply(tx, input);
+  }
+
+  private async apply(
+    tx: Prisma.TransactionClient,
+    input: TransitionInput,
+  ): Promise<boolean> {
+    const claimed = await tx.transaction.updateMany({
+      where: { ...input.where, status: input.from },
+      data: { ...input.data, status: input.to },
+    });
+
+    if (claimed.count === 0) {
+      return false;
+    }
+
+    const transaction = await tx.transaction.findUniqueOrThrow({
+      where: input.where,
+    });
+
+    await tx.transactionStatusTransition.create({
+      data: {
+        transactionId: transaction.id,
+        fromStatus: input.from,
+        toStatus: input.to,
+        source: input.source,
+        reason: input.reason,
+      },
+    });
+
+    return true;
+  }
+}
@@ -0,0 +1,157 @@
+import { Injectable } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { AutoTopUpRule, Prisma, PrismaClient } from '@prisma/client';
+import { toMinorUnits, toMoneyResponse } from '../../common/utils/money';
+import { WalletService } from './wallet.service';
+import { CardService } from './card.service';
+import { AutoTopUpDto } from './dto/auto-top-up.dto';
+
+// Rules checked per sweep
+const TOP_UP_BATCH_SIZE = 100;
+
+// A rule fires at most once in this window, so a top-up that is still
+// pending (OTP, slow webhook) isn't charged again
+const TOP_UP_COOLDOWN_MS = 60 * 60 * 1000;
+
+// Consecutive failed top-ups before the rule switches itself off
+const MAX_TOP_UP_FAILURES = 3;
+
+@Injectable()
+export class AutoTopUpService extends PrismaClient {
+  constructor(
+    private walletService: WalletService,
+    private cardService: CardService,
+  ) {
+    super();
+  }
+
+  // ==================== RULE ====================
+
+  async getRule(userId: string) {
+    const rule = await this.autoTopUpRule.findUnique({
+      where: { userId },
+      include: { card: true },
+    });
+
+    return rule ? this.toResponse(rule) : null;
+  }
+
+  // Create or replace the user's rule; saving it re-enables a rule that
+  // switched itself off
+  async setRule(userId: string, dto: AutoTopUpDto) {
+    await this.cardService.findOwnCard(userId, dto.card_id);
+
+    const data = {
+      cardId: dto.card_id,
+      threshold: toMinorUnits(dto.threshold),
+      amount: toMinorUnits(dto.amount),
+      enabled: dto.enabled ?? true,
+      failureCount: 0,
+    };
+
+    const rule = await this.autoTopUpRule.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data,
+      include: { card: true },
+    });
+
+    return this.toResponse(rule);
+  }
+
+  async removeRule(userId: string) {
+    await this.autoTopUpRule.deleteMany({ where: { userId } });
+  }
+
+  // ==================== RUNNER ====================
+
+  // Charge the saved card of every enabled rule whose wallet's available
+  // balance is below its threshold
+  @Cron(CronExpression.EVERY_MINUTE)
+  async runAutoTopUps() {
+    const cutoff = new Date(Date.now() - TOP_UP_COOLDOWN_MS);
+    const rules = await this.autoTopUpRule.findMany({
+      where: {
+        enabled: true,
+        OR: [{ lastTriggeredAt: null }, { lastTriggeredAt: { lt: cutoff } }],
+      },
+      include: { user: { include: { wallet: true } } },
+      orderBy: { updatedAt: 'asc' },
+      take: TOP_UP_BATCH_SIZE,
+    });
+
+    for (const rule of rules) {
+      const wallet = rule.user.wallet;
+
+      if (
+        !wallet ||
+        wallet.status !== 'active' ||
+        wallet.balance - wallet.heldBalance >= rule.threshold
+      ) {
+        continue;
+      }
+
+      try {
+        await this.topUp(rule);
+      } catch (error) {
+        console.error(`Error running auto top-up ${rule.id}:`, error);
+      }
+    }
+  }
+
+  private async topUp(rule: AutoTopUpRule) {
+    const claimed = await this.autoTopUpRule.updateMany({
+      where: {
+        id: rule.id,
+        enabled: true,
+        lastTriggeredAt: rule.lastTriggeredAt,
+      },
+      data: { lastTriggeredAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      return;
+    }
+
+    let status: string;
+    let reference: string | null = null;
+    try {
+      const result = await this.walletService.topUpWithCard(
+        rule.userId,
+        rule.cardId,
+        rule.amount,
+      );
+      status = result.status;
+      reference = result.reference;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`Auto top-up ${rule.id} failed: ${message}`);
+      status = 'failed';
+    }
+
+    const failureCount = status === 'failed' ? rule.failureCount + 1 : 0;
+
+    await this.autoTopUpRule.update({
+      where: { id: rule.id },
+      data: {
+        failureCount,
+        lastReference: reference ?? undefined,
+        ...(failureCount >= MAX_TOP_UP_FAILURES && { enabled: false }),
+      },
+    });
+  }
+
+  private toResponse(
+    rule: Prisma.AutoTopUpRuleGetPayload<{ include: { card: true } }>,
+  ) {
+    return {
+      card: this.cardService.toResponse(rule.card),
+      threshold: toMoneyResponse(rule.threshold),
+      amount: toMoneyResponse(rule.amount),
+      enabled: rule.enabled,
+      failure_count: rule.failureCount,
+      last_triggered_at: rule.lastTriggeredAt,
+      last_reference: rule.lastReference,
+    };
+  }
+}
@@ -0,0 +1,174 @@
+import {
+  Controller,
+  Post,
+  Get,
+  UseGuards,
+  UseInterceptors,
+  Body,
+  Param,
+  Headers,
+  UploadedFile,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiParam,
+  ApiHeader,
+  ApiConsumes,
+  ApiBody,
+} from '@nestjs/swagger';
+import * as crypto from 'crypto';
+import { BatchTransferService } from './batch-transfer.service';
+import {
+  BatchTransferCsvDto,
+  BatchTransferDto,
+} from './dto/batch-transfer.dto';
+import { BATCH_MODES } from './transaction.constants';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import type { AuthenticatedUser } from '../auth/decorators/get-user.decorator';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
+import { IdempotencyService } from '../idempotency/idempotency.service';
+import { IDEMPOTENCY_HEADER } from '../idempotency/idempotency.constants';
+import { buildSuccessResponse } from 'src/common/utils/api-response';
+
+// Comfortably above MAX_BATCH_ROWS rows
+const MAX_CSV_BYTES = 1024 * 1024;
+
+@ApiTags('Batch Transfers')
+@ApiBearerAuth()
+@ApiSecurity('api_key', ['x-api-key'])
+@Controller('wallet/batch-transfers')
+@UseGuards(JwtAuthGuard, ApiKeyGuard)
+export class BatchTransferController {
+  constructor(
+    private batchTransferService: BatchTransferService,
+    private idempotencyService: IdempotencyService,
+  ) {}
+
+  @Post()
+  @RequirePermission('transfer')
+  @ApiOperation({ summary: 'Transfer to many wallets in one request' })
+  @ApiHeader(IDEMPOTENCY_HEADER)
+  @ApiResponse({
+    status: 200,
+    description: 'Batch processed; see the status of each row',
+  })
+  @ApiResponse({ status: 400, description: 'Insufficient balance' })
+  @ApiResponse({ status: 403, description: 'Transfer limit exceeded' })
+  @ApiResponse({
+    status: 409,
+    description: 'A request with this Idempotency-Key is in progress',
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'Idempotency-Key reused with a different request body',
+  })
+  async create(
+    @GetUser() user: AuthenticatedUser,
+    @Body() dto: BatchTransferDto,
+    @Headers('idempotency-key') idempotencyKey?: string,
+  ) {
+    const result = await this.idempotencyService.execute(
+      user.id,
+      idempotencyKey,
+      'wallet.batch_transfer',
+      dto,
+      () =>
+        this.batchTransferService.createBatch(
+          user.id,
+          dto.mode,
+          'json',
+          dto.items.map((item) => ({
+            walletNumber: item.wallet_number,
+            amount: item.amount,
+            description: item.description,
+          })),
+        ),
+    );
+    return buildSuccessResponse('Batch processed', result);
+  }
+
+  @Post('csv')
+  @RequirePermission('transfer')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_CSV_BYTES } }),
+  )
+  @ApiOperation({
+    summary:
+      'Transfer to many wallets from a CSV with wallet_number, amount and optional description columns',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['mode', 'file'],
+      properties: {
+        mode: { type: 'string', enum: BATCH_MODES },
+        file: { type: 'string', format: 'binary' },
+      },
+    },
+  })
+  @ApiHeader(IDEMPOTENCY_HEADER)
+  @ApiResponse({
+    status: 200,
+    description: 'Batch processed; see the status of each row',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Missing file, bad header or insufficient balance',
+  })
+  @ApiResponse({ status: 403, description: 'Transfer limit exceeded' })
+  async createFromCsv(
+    @GetUser() user: AuthenticatedUser,
+    @Body() dto: BatchTransferCsvDto,
+    @UploadedFile() file?: { buffer: Buffer },
+    @Headers('idempotency-key') idempotencyKey?: string,
+  ) {
+    if (!file) {
+      throw new BadRequestException('A CSV file is required');
+    }
+
+    const rows = this.batchTransferService.parseCsvRows(file.buffer);
+    const fileHash = crypto
+      .createHash('sha256')
+      .update(file.buffer)
+      .digest('hex');
+
+    const result = await this.idempotencyService.execute(
+      user.id,
+      idempotencyKey,
+      'wallet.batch_transfer',
+      { ...dto, file_sha256: fileHash },
+      () =>
+        this.batchTransferService.createBatch(user.id, dto.mode, 'csv', rows),
+    );
+    return buildSuccessResponse('Batch processed', result);
+  }
+
+  @Get()
+  @RequirePermission('read')
+  @ApiOperation({ summary: 'List batch transfers' })
+  @ApiResponse({ status: 200, description: 'Batches retrieved' })
+  async getBatches(@GetUser() user: AuthenticatedUser) {
+    const result = await this.batchTransferService.getBatches(user.id);
+    return buildSuccessResponse('Batches retrieved', result);
+  }
+
+  @Get(':id')
+  @RequirePermission('read')
+  @ApiOperation({ summary: 'Get a batch and the status of each row' })
+  @ApiResponse({ status: 200, description: 'Batch retrieved' })
+  @ApiResponse({ status: 404, description: 'Batch not found' })
+  @ApiParam({ name: 'id', description: 'Batch id' })
+  async getBatch(@GetUser() user: AuthenticatedUser, @Param('id') id: string) {
+    const result = await this.batchTransferService.getBatch(user.id, id);
+    return buildSuccessResponse('Batch retrieved', result);
+  }
+}
@@ -0,0 +1,434 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, PrismaClient, TransferBatch, Wallet } from '@prisma/client';
+import { parseCsv } from '../../common/utils/csv';
+import { toMinorUnits, toMoneyResponse } from '../../common/utils/money';
+import { FeesService } from '../fees/fees.service';
+import { FEE_OPERATIONS } from '../fees/fees.constants';
+import { LimitsService } from '../limits/limits.service';
+import { LIMIT_OPERATIONS } from '../limits/limits.constants';
+import { WalletService } from './wallet.service';
+import { assertWalletCanDebit, canReceiveCredits } from './wallet-status';
+import { MAX_BATCH_ROWS } from './transaction.constants';
+
+export interface BatchRowInput {
+  walletNumber: string;
+  amount: string | number; // kobo; CSV cells arrive as text
+  description?: string;
+}
+
+interface CheckedRow {
+  row: number;
+  walletNumber: string;
+  amount: bigint | null;
+  fee: bigint;
+  description?: string;
+  recipientWallet?: Wallet;
+  failureReason: string | null;
+}
+
+const MAX_DESCRIPTION_LENGTH = 200;
+
+// An atomic batch posts every row in one database transaction, which can
+// take longer than Prisma's 5 second default
+const ATOMIC_BATCH_TIMEOUT_MS = 60 * 1000;
+
+@Injectable()
+export class BatchTransferService extends PrismaClient {
+  constructor(
+    private walletService: WalletService,
+    private feesService: FeesService,
+    private limitsService: LimitsService,
+  ) {
+    super();
+  }
+
+  // ==================== SUBMISSION ====================
+
+  // Read a CSV upload with a header row naming wallet_number, amount and
+  // optionally description, in any order
+  parseCsvRows(file: Buffer): BatchRowInput[] {
+    const [header, ...lines] = parseCsv(file.toString('utf8'));
+    const columns = (header ?? []).map((column) => column.trim().toLowerCase());
+    const walletColumn = columns.indexOf('wallet_number');
+    const amountColumn = columns.indexOf('amount');
+    const descriptionColumn = columns.indexOf('description');
+
+    if (walletColumn < 0 || amountColumn < 0) {
+      throw new BadRequestException(
+        'CSV header must include wallet_number and amount columns',
+      );
+    }
+
+    return lines.map((fields) => ({
+      walletNumber: fields[walletColumn] ?? '',
+      amount: fields[amountColumn] ?? '',
+      description:
+        descriptionColumn >= 0
+          ? fields[descriptionColumn] || undefined
+          : undefined,
+    }));
+  }
+
+  // Check every row, then run the valid ones. Limits and, for atomic
+  // batches, the balance are checked for the batch as a whole; anything
+  // wrong with a single row is recorded against that row.
+  async createBatch(
+    userId: string,
+    mode: string,
+    source: string,
+    rows: BatchRowInput[],
+  ) {
+    if (rows.length === 0) {
+      throw new BadRequestException('Batch has no rows');
+    }
+
+    if (rows.length > MAX_BATCH_ROWS) {
+      throw new BadRequestException(
+        `Batch has more than ${MAX_BATCH_ROWS} rows`,
+      );
+    }
+
+    const senderWallet = await this.wallet.findUnique({ where: { userId } });
+
+    if (!senderWallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    assertWalletCanDebit(senderWallet);
+
+    const checked = await this.checkRows(userId, rows);
+    const valid = checked.filter((row) => !row.failureReason);
+    const runnable = mode === 'best_effort' || valid.length === rows.length;
+
+    // Rejects a batch over its limits before it is recorded; the rows are
+    // checked again as they are posted, against concurrent operations
+    if (runnable && valid.length > 0) {
+      await this.limitsService.assertBatchWithinLimits(
+        userId,
+        LIMIT_OPERATIONS.TRANSFER,
+        valid.map((row) => row.amount as bigint),
+      );
+    }
+
+    if (mode === 'atomic' && runnable) {
+      const required = valid.reduce(
+        (sum, row) => sum + (row.amount as bigint) + row.fee,
+        0n,
+      );
+
+      if (senderWallet.balance - senderWallet.heldBalance < required) {
+        throw new BadRequestException('Insufficient balance');
+      }
+    }
+
+    const batch = await this.transferBatch.create({
+      data: {
+        userId,
+        mode,
+        source,
+        status: 'processing',
+        totalAmount: 0n,
+        items: {
+          create: checked.map((row) => ({
+            row: row.row,
+            walletNumber: row.walletNumber,
+            amount: row.amount,
+            fee: row.fee,
+            description: row.description,
+            status: row.failureReason
+              ? 'failed'
+              : runnable
+                ? 'pending'
+                : 'skipped',
+            failureReason:
+              row.failureReason ??
+              (runnable
+                ? null
+                : 'Not run: other rows in the batch are invalid'),
+          })),
+        },
+      },
+    });
+
+    if (runnable) {
+      if (mode === 'atomic') {
+        await this.runAtomic(batch.id, senderWallet, valid);
+      } else {
+        await this.runBestEffort(batch.id, senderWallet, valid);
+      }
+    }
+
+    await this.finish(batch.id);
+
+    return this.getBatch(userId, batch.id);
+  }
+
+  private async checkRows(
+    userId: string,
+    rows: BatchRowInput[],
+  ): Promise<CheckedRow[]> {
+    const walletNumbers = rows.map((row) => row.walletNumber.trim());
+    const wallets = await this.wallet.findMany({
+      where: { walletNumber: { in: walletNumbers } },
+    });
+    const walletsByNumber = new Map<string, Wallet>(
+      wallets.map((wallet) => [wallet.walletNumber, wallet]),
+    );
+
+    const checked: CheckedRow[] = [];
+    for (const [index, row] of rows.entries()) {
+      const walletNumber = walletNumbers[index];
+      const amount = this.parseAmount(row.amount);
+      const recipientWallet = walletsByNumber.get(walletNumber);
+
+      let failureReason: string | null = null;
+      if (amount === null) {
+        failureReason = 'Amount must be a positive whole number of kobo';
+      } else if (!recipientWallet) {
+        failureReason = 'Recipient wallet not found';
+      } else if (recipientWallet.userId === userId) {
+        failureReason = 'Cannot transfer to yourself';
+      } else if (!canReceiveCredits(recipientWallet)) {
+        failureReason = 'Recipient wallet cannot receive transfers';
+      } else if ((row.description?.length ?? 0) > MAX_DESCRIPTION_LENGTH) {
+        failureReason = `Description is longer than ${MAX_DESCRIPTION_LENGTH} characters`;
+      }
+
+      checked.push({
+        row: index + 1,
+        walletNumber,
+        amount,
+        fee: failureReason
+          ? 0n
+          : await this.feesService.getFee(
+              FEE_OPERATIONS.TRANSFER,
+              amount as bigint,
+            ),
+        description: row.description?.slice(0, MAX_DESCRIPTION_LENGTH),
+        recipientWallet,
+        failureReason,
+      });
+    }
+
+    return checked;
+  }
+
+  private parseAmount(value: string | number): bigint | null {
+    try {
+      const amount = toMinorUnits(
+        typeof value === 'string' ? value.trim() : value,
+      );
+      return amount > 0n ? amount : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // ==================== EXECUTION ====================
+
+  // Post every row in one database transaction. The first failure rolls
+  // them all back and is recorded against its row; a limit breach is
+  // recorded against every row.
+  private async runAtomic(
+    batchId: string,
+    senderWallet: Wallet,
+    rows: CheckedRow[],
+  ) {
+    let current: CheckedRow | null = null;
+
+    try {
+      const references = await this.$transaction(
+        async (tx: Prisma.TransactionClient) => {
+          await this.limitsService.assertBatchWithinLimits(
+            senderWallet.userId,
+            LIMIT_OPERATIONS.TRANSFER,
+            rows.map((row) => row.amount as bigint),
+            { tx },
+          );
+
+          const posted: string[] = [];
+          for (const row of rows) {
+            current = row;
+            const { senderReference } = await this.walletService.postTransfer(
+              tx,
+              this.toTransferInput(batchId, senderWallet, row),
+            );
+            posted.push(senderReference);
+          }
+          return posted;
+        },
+        { timeout: ATOMIC_BATCH_TIMEOUT_MS },
+      );
+
+      for (const [index, row] of rows.entries()) {
+        await this.markItem(batchId, row.row, 'success', {
+          reference: references[index],
+        });
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Transfer failed';
+      for (const row of rows) {
+        await this.markItem(batchId, row.row, 'failed', {
+          failureReason:
+            row === current || current === null
+              ? reason
+              : 'Rolled back: another row in the batch failed',
+        });
+      }
+    }
+  }
+
+  // Post each row in its own database transaction; a failed row, including
+  // one that would break a limit, doesn't stop the rest. The batch counts
+  // once toward the velocity limit, on its first row.
+  private async runBestEffort(
+    batchId: string,
+    senderWallet: Wallet,
+    rows: CheckedRow[],
+  ) {
+    for (const [index, row] of rows.entries()) {
+      try {
+        const { senderReference } = await this.$transaction(
+          async (tx: Prisma.TransactionClient) => {
+            await this.limitsService.assertBatchWithinLimits(
+              senderWallet.userId,
+              LIMIT_OPERATIONS.TRANSFER,
+              [row.amount as bigint],
+              { tx, countsTowardVelocity: index === 0 },
+            );
+
+            return this.walletService.postTransfer(
+              tx,
+              this.toTransferInput(batchId, senderWallet, row),
+            );
+          },
+        );
+        await this.markItem(batchId, row.row, 'success', {
+          reference: senderReference,
+        });
+      } catch (error) {
+        await this.markItem(batchId, row.row, 'failed', {
+          failureReason:
+            error instanceof Error ? error.message : 'Transfer failed',
+        });
+      }
+    }
+  }
+
+  private toTransferInput(
+    batchId: string,
+    senderWallet: Wallet,
+    row: CheckedRow,
+  ) {
+    const key = `batch_${batchId}_${row.row}`;
+
+    return {
+      fromUserId: senderWallet.userId,
+      senderWallet,
+      recipientWallet: row.recipientWallet as Wallet,
+      amount: row.amount as bigint,
+      fee: row.fee,
+      idempotencyKey: key,
+      referencePrefix: `txb_${batchId.replace(/-/g, '')}_${row.row}`,
+      metadata: {
+        batch_id: batchId,
+        ...(row.description && { description: row.description }),
+      },
+    };
+  }
+
+  private markItem(
+    batchId: string,
+    row: number,
+    status: string,
+    data: { reference?: string; failureReason?: string },
+  ) {
+    return this.transferBatchItem.updateMany({
+      where: { batchId, row, status: 'pending' },
+      data: { status, ...data },
+    });
+  }
+
+  // Total up the rows and settle the batch status
+  private async finish(batchId: string) {
+    const items = await this.transferBatchItem.findMany({
+      where: { batchId },
+    });
+    const succeeded = items.filter((item) => item.status === 'success');
+
+    await this.transferBatch.update({
+      where: { id: batchId },
+      data: {
+        status:
+          succeeded.length === items.length
+            ? 'completed'
+            : succeeded.length > 0
+              ? 'partially_completed'
+              : 'failed',
+        totalAmount: succeeded.reduce(
+          (sum, item) => sum + (item.amount as bigint),
+          0n,
+        ),
+        totalFee: succeeded.reduce((sum, item) => sum + item.fee, 0n),
+        successCount: succeeded.length,
+        failedCount: items.length - succeeded.length,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  // ==================== QUERIES ====================
+
+  async getBatches(userId: string) {
+    const batches = await this.transferBatch.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return batches.map((batch) => this.toResponse(batch));
+  }
+
+  async getBatch(userId: string, id: string) {
+    const batch = await this.transferBatch.findFirst({
+      where: { id, userId },
+      include: { items: { orderBy: { row: 'asc' } } },
+    });
+
+    if (!batch) {
+      throw new NotFoundException('Batch not found');
+    }
+
+    return {
+      ...this.toResponse(batch),
+      items: batch.items.map((item) => ({
+        row: item.row,
+        wallet_number: item.walletNumber,
+        amount: item.amount !== null ? toMoneyResponse(item.amount) : null,
+        fee: toMoneyResponse(item.fee),
+        description: item.description,
+        status: item.status,
+        reference: item.reference,
+        failure_reason: item.failureReason,
+      })),
+    };
+  }
+
+  private toResponse(batch: TransferBatch) {
+    return {
+      id: batch.id,
+      mode: batch.mode,
+      source: batch.source,
+      status: batch.status,
+      total_amount: toMoneyResponse(batch.totalAmount),
+      total_fee: toMoneyResponse(batch.totalFee),
+      success_count: batch.successCount,
+      failed_count: batch.failedCount,
+      created_at: batch.createdAt,
+      completed_at: batch.completedAt,
+    };
+  }
+}
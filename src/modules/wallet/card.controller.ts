@@ -0,0 +1,140 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Put,
+  Delete,
+  UseGuards,
+  Headers,
+  Body,
+  Param,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiParam,
+  ApiHeader,
+} from '@nestjs/swagger';
+import { WalletService } from './wallet.service';
+import { CardService } from './card.service';
+import { AutoTopUpService } from './auto-top-up.service';
+import { CardTopUpDto } from './dto/card-top-up.dto';
+import { AutoTopUpDto } from './dto/auto-top-up.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import type { AuthenticatedUser } from '../auth/decorators/get-user.decorator';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
+import { IdempotencyService } from '../idempotency/idempotency.service';
+import { IDEMPOTENCY_HEADER } from '../idempotency/idempotency.constants';
+import { buildSuccessResponse } from 'src/common/utils/api-response';
+import { toMinorUnits } from 'src/common/utils/money';
+
+@ApiTags('Cards')
+@ApiBearerAuth()
+@ApiSecurity('api_key', ['x-api-key'])
+@Controller('wallet')
+@UseGuards(JwtAuthGuard, ApiKeyGuard)
+export class CardController {
+  constructor(
+    private walletService: WalletService,
+    private cardService: CardService,
+    private autoTopUpService: AutoTopUpService,
+    private idempotencyService: IdempotencyService,
+  ) {}
+
+  // ==================== SAVED CARDS ====================
+
+  @Get('cards')
+  @RequirePermission('read')
+  @ApiOperation({ summary: 'List cards saved from earlier payments' })
+  @ApiResponse({ status: 200, description: 'Saved cards retrieved' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async getCards(@GetUser() user: AuthenticatedUser) {
+    const result = await this.cardService.getCards(user.id);
+    return buildSuccessResponse('Saved cards retrieved', result);
+  }
+
+  @Delete('cards/:id')
+  @RequirePermission('deposit')
+  @ApiOperation({ summary: 'Delete a saved card and any auto top-up using it' })
+  @ApiResponse({ status: 200, description: 'Card deleted' })
+  @ApiResponse({ status: 404, description: 'Card not found' })
+  @ApiParam({ name: 'id', description: 'Saved card id' })
+  async deleteCard(
+    @GetUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    await this.cardService.deleteCard(user.id, id);
+    return buildSuccessResponse('Card deleted');
+  }
+
+  @Post('cards/:id/charge')
+  @RequirePermission('deposit')
+  @ApiOperation({ summary: 'Top up the wallet instantly from a saved card' })
+  @ApiHeader(IDEMPOTENCY_HEADER)
+  @ApiResponse({
+    status: 200,
+    description: 'Card charged; status is pending if the bank needs a step',
+  })
+  @ApiResponse({ status: 400, description: 'Charge declined' })
+  @ApiResponse({ status: 404, description: 'Card not found' })
+  @ApiParam({ name: 'id', description: 'Saved card id' })
+  async charge(
+    @GetUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Body() dto: CardTopUpDto,
+    @Headers('idempotency-key') idempotencyKey?: string,
+  ) {
+    const result = await this.idempotencyService.execute(
+      user.id,
+      idempotencyKey,
+      'wallet.card.charge',
+      { id, ...dto },
+      () =>
+        this.walletService.topUpWithCard(user.id, id, toMinorUnits(dto.amount)),
+    );
+    return buildSuccessResponse('Card charged', result);
+  }
+
+  // ==================== AUTO TOP-UP ====================
+
+  @Get('auto-top-up')
+  @RequirePermission('read')
+  @ApiOperation({ summary: 'Get the auto top-up rule' })
+  @ApiResponse({ status: 200, description: 'Auto top-up rule retrieved' })
+  async getAutoTopUp(@GetUser() user: AuthenticatedUser) {
+    const result = await this.autoTopUpService.getRule(user.id);
+    return buildSuccessResponse('Auto top-up rule retrieved', result);
+  }
+
+  @Put('auto-top-up')
+  @RequirePermission('deposit')
+  @ApiOperation({
+    summary: 'Charge a saved card when the balance drops below a threshold',
+  })
+  @ApiResponse({ status: 200, description: 'Auto top-up rule saved' })
+  @ApiResponse({ status: 404, description: 'Card not found' })
+  async setAutoTopUp(
+    @GetUser() user: AuthenticatedUser,
+    @Body() dto: AutoTopUpDto,
+  ) {
+    const result = await this.autoTopUpService.setRule(user.id, dto);
+    return buildSuccessResponse('Auto top-up rule saved', result);
+  }
+
+  @Delete('auto-top-up')
+  @RequirePermission('deposit')
+  @ApiOperation({ summary: 'Remove the auto top-up rule' })
+  @ApiResponse({ status: 200, description: 'Auto top-up rule removed' })
+  async removeAutoTopUp(@GetUser() user: AuthenticatedUser) {
+    await this.autoTopUpService.removeRule(user.id);
+    return buildSuccessResponse('Auto top-up rule removed');
+  }
+}
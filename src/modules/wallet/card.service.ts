@@ -0,0 +1,91 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaClient, SavedCard } from '@prisma/client';
+import { PaystackAuthorization } from '../paystack/paystack.types';
+
+@Injectable()
+export class CardService extends PrismaClient {
+  constructor() {
+    super();
+  }
+
+  // ==================== AUTHORIZATIONS ====================
+
+  // Keep the reusable authorization from a successful card payment. Only
+  // the masked details Paystack sends are stored; the card number never is.
+  saveAuthorization(
+    userId: string,
+    authorization: PaystackAuthorization | null | undefined,
+    email: string | null | undefined,
+  ) {
+    if (
+      !authorization?.reusable ||
+      authorization.channel !== 'card' ||
+      !authorization.signature ||
+      !email
+    ) {
+      return null;
+    }
+
+    const details = {
+      authorizationCode: authorization.authorization_code,
+      email,
+      last4: authorization.last4,
+      expMonth: authorization.exp_month,
+      expYear: authorization.exp_year,
+      cardType: authorization.card_type?.trim(),
+      brand: authorization.brand,
+      bank: authorization.bank,
+      countryCode: authorization.country_code,
+    };
+
+    // The same card paid again: refresh its authorization
+    return this.savedCard.upsert({
+      where: {
+        userId_signature: { userId, signature: authorization.signature },
+      },
+      create: { userId, signature: authorization.signature, ...details },
+      update: details,
+    });
+  }
+
+  // ==================== SAVED CARDS ====================
+
+  async getCards(userId: string) {
+    const cards = await this.savedCard.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return cards.map((card) => this.toResponse(card));
+  }
+
+  // Includes the authorization code; for charging, not for responses
+  async findOwnCard(userId: string, id: string) {
+    const card = await this.savedCard.findFirst({ where: { id, userId } });
+
+    if (!card) {
+      throw new NotFoundException('Card not found');
+    }
+
+    return card;
+  }
+
+  // Also removes an auto top-up rule that charges this card
+  async deleteCard(userId: string, id: string) {
+    await this.findOwnCard(userId, id);
+    await this.savedCard.delete({ where: { id } });
+  }
+
+  toResponse(card: SavedCard) {
+    return {
+      id: card.id,
+      last4: card.last4,
+      exp_month: card.expMonth,
+      exp_year: card.expYear,
+      card_type: card.cardType,
+      brand: card.brand,
+      bank: card.bank,
+      created_at: card.createdAt,
+    };
+  }
+}
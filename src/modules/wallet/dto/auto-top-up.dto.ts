@@ -0,0 +1,47 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  IsUUID,
+  Min,
+  Max,
+} from 'class-validator';
+import { MAX_MINOR_UNITS } from '../../../common/utils/money';
+
+export class AutoTopUpDto {
+  @ApiProperty({
+    example: '8f2b6c1e-4a8e-4f4b-9d3a-2c1f5e7a9b10',
+    description: 'Saved card to charge',
+  })
+  @IsUUID()
+  card_id: string;
+
+  @ApiProperty({
+    example: 500000,
+    description: 'Top up when the available balance drops below this (kobo)',
+  })
+  @IsInt()
+  @Min(0)
+  @Max(MAX_MINOR_UNITS)
+  threshold: number;
+
+  @ApiProperty({
+    example: 2000000,
+    description: 'Amount to charge per top-up in kobo',
+  })
+  @IsInt()
+  @IsPositive()
+  @Max(MAX_MINOR_UNITS)
+  amount: number;
+
+  @ApiProperty({
+    example: true,
+    description: 'Turn the rule on or off (optional, default true)',
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  enabled?: boolean;
+}
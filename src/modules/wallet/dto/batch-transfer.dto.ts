@@ -0,0 +1,71 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Length,
+  MaxLength,
+  ValidateNested,
+  Max,
+} from 'class-validator';
+import { BATCH_MODES, MAX_BATCH_ROWS } from '../transaction.constants';
+import { MAX_MINOR_UNITS } from '../../../common/utils/money';
+
+export class BatchTransferItemDto {
+  @ApiProperty({
+    example: '1234567890',
+    description: 'Recipient wallet number (10-20 digits)',
+  })
+  @IsString()
+  @Length(10, 20)
+  wallet_number: string;
+
+  @ApiProperty({
+    example: 15000000,
+    description: 'Amount in kobo (100 kobo = 1 Naira)',
+  })
+  @IsInt()
+  @IsPositive()
+  @Max(MAX_MINOR_UNITS)
+  amount: number;
+
+  @ApiProperty({
+    example: 'October salary',
+    description: 'What the transfer is for (optional)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(200)
+  description?: string;
+}
+
+export class BatchTransferCsvDto {
+  @ApiProperty({
+    example: 'atomic',
+    description:
+      'atomic: every row succeeds or none does; best_effort: valid rows run even if others fail',
+    enum: BATCH_MODES,
+  })
+  @IsIn(BATCH_MODES)
+  mode: string;
+}
+
+export class BatchTransferDto extends BatchTransferCsvDto {
+  @ApiProperty({
+    type: [BatchTransferItemDto],
+    description: `Transfers to make (1 to ${MAX_BATCH_ROWS})`,
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_BATCH_ROWS)
+  @ValidateNested({ each: true })
+  @Type(() => BatchTransferItemDto)
+  items: BatchTransferItemDto[];
+}
@@ -0,0 +1,32 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsString,
+  IsInt,
+  IsPositive,
+  IsOptional,
+  Length,
+  Max,
+} from 'class-validator';
+import { MAX_MINOR_UNITS } from '../../../common/utils/money';
+
+export class CaptureHoldDto {
+  @ApiProperty({
+    example: '1234567890',
+    description: 'Wallet number that receives the captured funds',
+  })
+  @IsString()
+  @Length(10, 20)
+  wallet_number: string;
+
+  @ApiProperty({
+    example: 200000,
+    description:
+      'Amount to capture in kobo; defaults to the whole hold. The rest is released (optional)',
+    required: false,
+  })
+  @IsInt()
+  @IsPositive()
+  @Max(MAX_MINOR_UNITS)
+  @IsOptional()
+  amount?: number;
+}
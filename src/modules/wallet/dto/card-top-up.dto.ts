@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsPositive, Max } from 'class-validator';
+import { MAX_MINOR_UNITS } from '../../../common/utils/money';
+
+export class CardTopUpDto {
+  @ApiProperty({
+    example: 100000,
+    description: 'Amount to charge in kobo (100 kobo = 1 Naira)',
+  })
+  @IsInt()
+  @IsPositive()
+  @Max(MAX_MINOR_UNITS)
+  amount: number;
+}
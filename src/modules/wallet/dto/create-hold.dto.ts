@@ -0,0 +1,44 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsPositive,
+  IsString,
+  IsOptional,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+import { MAX_MINOR_UNITS } from '../../../common/utils/money';
+
+export class CreateHoldDto {
+  @ApiProperty({
+    example: 250000,
+    description: 'Amount to hold in kobo (100 kobo = 1 Naira)',
+  })
+  @IsInt()
+  @IsPositive()
+  @Max(MAX_MINOR_UNITS)
+  amount: number;
+
+  @ApiProperty({
+    example: 'Order #1042',
+    description: 'What the funds are reserved for (optional)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(200)
+  reason?: string;
+
+  @ApiProperty({
+    example: 86400,
+    description:
+      'Seconds until the hold expires and is released (optional, 60 to 2592000; defaults to 7 days)',
+    required: false,
+  })
+  @IsInt()
+  @Min(60)
+  @Max(2592000)
+  @IsOptional()
+  expires_in_seconds?: number;
+}
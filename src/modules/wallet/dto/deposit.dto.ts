@@ -1,5 +1,6 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsNumber, IsPositive, IsEmail, IsOptional } from 'class-validator';
+import { IsInt, IsPositive, IsEmail, IsOptional, Max } from 'class-validator';
+import { MAX_MINOR_UNITS } from '../../../common/utils/money';
 
 export class DepositDto {
   @ApiProperty({
@@ -12,10 +13,11 @@ export class DepositDto {
   email?: string;
 
   @ApiProperty({
-    example: 5000,
-    description: 'Deposit amount in Naira',
+    example: 500000,
+    description: 'Deposit amount in kobo (100 kobo = 1 Naira)',
   })
-  @IsNumber()
+  @IsInt()
   @IsPositive()
+  @Max(MAX_MINOR_UNITS)
   amount: number;
 }
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+
+export const HOLD_STATUSES = ['active', 'released', 'captured', 'expired'];
+
+export class HoldQueryDto {
+  @ApiProperty({
+    example: 'active',
+    description: 'Only return holds with this status (optional)',
+    enum: HOLD_STATUSES,
+    required: false,
+  })
+  @IsIn(HOLD_STATUSES)
+  @IsOptional()
+  status?: string;
+}
@@ -0,0 +1,29 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsDateString, IsIn, IsOptional } from 'class-validator';
+
+export const STATEMENT_FORMATS = ['csv', 'pdf'];
+
+export class StatementQueryDto {
+  @ApiProperty({
+    example: '2026-01-01T00:00:00Z',
+    description: 'Start of the statement period (inclusive)',
+  })
+  @IsDateString()
+  from: string;
+
+  @ApiProperty({
+    example: '2026-01-31T23:59:59Z',
+    description: 'End of the statement period (inclusive)',
+  })
+  @IsDateString()
+  to: string;
+
+  @ApiPropertyOptional({
+    enum: STATEMENT_FORMATS,
+    default: 'csv',
+    description: 'Statement file format',
+  })
+  @IsIn(STATEMENT_FORMATS)
+  @IsOptional()
+  format?: 'csv' | 'pdf';
+}
@@ -0,0 +1,94 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsDateString,
+  Max,
+  Min,
+  MaxLength,
+} from 'class-validator';
+import {
+  TRANSACTION_STATUSES,
+  TRANSACTION_TYPES,
+} from '../transaction.constants';
+import { MAX_MINOR_UNITS } from '../../../common/utils/money';
+
+export class TransactionQueryDto {
+  @ApiPropertyOptional({
+    description: 'Cursor returned as next_cursor by the previous page',
+  })
+  @IsString()
+  @IsOptional()
+  cursor?: string;
+
+  @ApiPropertyOptional({
+    example: 20,
+    description: 'Page size (1-100, default 20)',
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  @IsOptional()
+  limit?: number;
+
+  @ApiPropertyOptional({ enum: TRANSACTION_TYPES })
+  @IsIn(TRANSACTION_TYPES)
+  @IsOptional()
+  type?: string;
+
+  @ApiPropertyOptional({ enum: TRANSACTION_STATUSES })
+  @IsIn(TRANSACTION_STATUSES)
+  @IsOptional()
+  status?: string;
+
+  @ApiPropertyOptional({
+    example: '2026-01-01T00:00:00Z',
+    description: 'Only transactions created at or after this time',
+  })
+  @IsDateString()
+  @IsOptional()
+  from?: string;
+
+  @ApiPropertyOptional({
+    example: '2026-01-31T23:59:59Z',
+    description: 'Only transactions created at or before this time',
+  })
+  @IsDateString()
+  @IsOptional()
+  to?: string;
+
+  @ApiPropertyOptional({
+    example: 10000,
+    description: 'Minimum amount in kobo',
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(MAX_MINOR_UNITS)
+  @IsOptional()
+  min_amount?: number;
+
+  @ApiPropertyOptional({
+    example: 500000,
+    description: 'Maximum amount in kobo',
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(MAX_MINOR_UNITS)
+  @IsOptional()
+  max_amount?: number;
+
+  @ApiPropertyOptional({
+    example: 'txf_',
+    description: 'Substring of the transaction reference',
+  })
+  @IsString()
+  @MaxLength(100)
+  @IsOptional()
+  reference?: string;
+}
@@ -1,13 +1,15 @@
 import {
   IsString,
-  IsNumber,
+  IsInt,
   IsPositive,
   Length,
   IsEmail,
   IsOptional,
   IsUUID,
+  Max,
 } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
+import { MAX_MINOR_UNITS } from '../../../common/utils/money';
 
 export class TransferDto {
   @ApiProperty({
@@ -28,10 +30,11 @@ export class TransferDto {
   email?: string;
 
   @ApiProperty({
-    example: 2500,
-    description: 'Transfer amount in Naira',
+    example: 250000,
+    description: 'Transfer amount in kobo (100 kobo = 1 Naira)',
   })
-  @IsNumber()
+  @IsInt()
   @IsPositive()
+  @Max(MAX_MINOR_UNITS)
   amount: number;
 }
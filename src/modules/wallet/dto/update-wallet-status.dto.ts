@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsString, IsNotEmpty, MaxLength } from 'class-validator';
+import { WALLET_STATUSES } from '../wallet-status';
+
+export class UpdateWalletStatusDto {
+  @ApiProperty({
+    example: 'frozen_debits',
+    description: 'New wallet status',
+    enum: WALLET_STATUSES,
+  })
+  @IsIn(WALLET_STATUSES)
+  status: string;
+
+  @ApiProperty({
+    example: 'Account takeover reported by the customer',
+    description: 'Why the status is changing (kept in the audit log)',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason: string;
+}
@@ -0,0 +1,168 @@
+import {
+  Controller,
+  Post,
+  Get,
+  UseGuards,
+  Headers,
+  Body,
+  Param,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiParam,
+  ApiHeader,
+} from '@nestjs/swagger';
+import { WalletService } from './wallet.service';
+import { HoldService } from '../hold/hold.service';
+import { CreateHoldDto } from './dto/create-hold.dto';
+import { CaptureHoldDto } from './dto/capture-hold.dto';
+import { HoldQueryDto } from './dto/hold-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import type { AuthenticatedUser } from '../auth/decorators/get-user.decorator';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
+import { IdempotencyService } from '../idempotency/idempotency.service';
+import { IDEMPOTENCY_HEADER } from '../idempotency/idempotency.constants';
+import { buildSuccessResponse } from 'src/common/utils/api-response';
+import { toMinorUnits } from 'src/common/utils/money';
+
+@ApiTags('Holds')
+@Controller('wallet/holds')
+export class HoldController {
+  constructor(
+    private walletService: WalletService,
+    private holdService: HoldService,
+    private idempotencyService: IdempotencyService,
+  ) {}
+
+  @Post()
+  @UseGuards(JwtAuthGuard, ApiKeyGuard)
+  @RequirePermission('transfer')
+  @ApiBearerAuth()
+  @ApiSecurity('api_key', ['x-api-key'])
+  @ApiOperation({ summary: 'Reserve funds in the wallet' })
+  @ApiHeader(IDEMPOTENCY_HEADER)
+  @ApiResponse({ status: 200, description: 'Hold placed' })
+  @ApiResponse({ status: 400, description: 'Insufficient available balance' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async createHold(
+    @GetUser() user: AuthenticatedUser,
+    @Body() dto: CreateHoldDto,
+    @Headers('idempotency-key') idempotencyKey?: string,
+  ) {
+    const result = await this.idempotencyService.execute(
+      user.id,
+      idempotencyKey,
+      'wallet.hold',
+      dto,
+      () =>
+        this.holdService.createHold(
+          user.id,
+          toMinorUnits(dto.amount),
+          dto.reason,
+          dto.expires_in_seconds,
+        ),
+    );
+    return buildSuccessResponse('Hold placed', result);
+  }
+
+  @Get()
+  @UseGuards(JwtAuthGuard, ApiKeyGuard)
+  @RequirePermission('read')
+  @ApiBearerAuth()
+  @ApiSecurity('api_key', ['x-api-key'])
+  @ApiOperation({ summary: 'List holds' })
+  @ApiResponse({ status: 200, description: 'Holds retrieved' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getHolds(
+    @GetUser() user: AuthenticatedUser,
+    @Query() query: HoldQueryDto,
+  ) {
+    const result = await this.holdService.getHolds(user.id, query.status);
+    return buildSuccessResponse('Holds retrieved', result);
+  }
+
+  @Get(':reference')
+  @UseGuards(JwtAuthGuard, ApiKeyGuard)
+  @RequirePermission('read')
+  @ApiBearerAuth()
+  @ApiSecurity('api_key', ['x-api-key'])
+  @ApiOperation({ summary: 'Get a hold' })
+  @ApiResponse({ status: 200, description: 'Hold retrieved' })
+  @ApiResponse({ status: 404, description: 'Hold not found' })
+  @ApiParam({ name: 'reference', description: 'Hold reference' })
+  async getHold(
+    @GetUser() user: AuthenticatedUser,
+    @Param('reference') reference: string,
+  ) {
+    const result = await this.holdService.getHold(user.id, reference);
+    return buildSuccessResponse('Hold retrieved', result);
+  }
+
+  @Post(':reference/capture')
+  @UseGuards(JwtAuthGuard, ApiKeyGuard)
+  @RequirePermission('transfer')
+  @ApiBearerAuth()
+  @ApiSecurity('api_key', ['x-api-key'])
+  @ApiOperation({
+    summary: 'Transfer all or part of a hold; the rest is released',
+  })
+  @ApiHeader(IDEMPOTENCY_HEADER)
+  @ApiResponse({ status: 200, description: 'Hold captured' })
+  @ApiResponse({
+    status: 400,
+    description: 'Hold no longer active or amount above the hold',
+  })
+  @ApiResponse({ status: 404, description: 'Hold or wallet not found' })
+  @ApiParam({ name: 'reference', description: 'Hold reference' })
+  async captureHold(
+    @GetUser() user: AuthenticatedUser,
+    @Param('reference') reference: string,
+    @Body() dto: CaptureHoldDto,
+    @Headers('idempotency-key') idempotencyKey?: string,
+  ) {
+    const result = await this.idempotencyService.execute(
+      user.id,
+      idempotencyKey,
+      'wallet.hold.capture',
+      { reference, ...dto },
+      () =>
+        this.walletService.captureHold(
+          user.id,
+          reference,
+          dto.wallet_number,
+          dto.amount !== undefined ? toMinorUnits(dto.amount) : undefined,
+          idempotencyKey,
+        ),
+    );
+    return buildSuccessResponse('Hold captured', result);
+  }
+
+  @Post(':reference/release')
+  @UseGuards(JwtAuthGuard, ApiKeyGuard)
+  @RequirePermission('transfer')
+  @ApiBearerAuth()
+  @ApiSecurity('api_key', ['x-api-key'])
+  @ApiOperation({ summary: 'Release a hold back to the available balance' })
+  @ApiResponse({ status: 200, description: 'Hold released' })
+  @ApiResponse({ status: 400, description: 'Hold no longer active' })
+  @ApiResponse({ status: 404, description: 'Hold not found' })
+  @ApiParam({ name: 'reference', description: 'Hold reference' })
+  async releaseHold(
+    @GetUser() user: AuthenticatedUser,
+    @Param('reference') reference: string,
+  ) {
+    const result = await this.holdService.releaseHold(user.id, reference);
+    return buildSuccessResponse('Hold released', result);
+  }
+}
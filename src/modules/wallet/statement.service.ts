@@ -0,0 +1,280 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaClient } from '@prisma/client';
+import PDFDocument from 'pdfkit';
+import { Readable } from 'stream';
+import { toCsvRow } from '../../common/utils/csv';
+import { DEFAULT_CURRENCY, formatDecimal } from '../../common/utils/money';
+import { StatementQueryDto } from './dto/statement-query.dto';
+import { signedTransactionAmount } from './transaction.constants';
+
+// Rows fetched per query while streaming a statement
+const BATCH_SIZE = 500;
+
+interface StatementHeader {
+  walletNumber: string;
+  from: Date;
+  to: Date;
+  openingBalance: bigint;
+}
+
+interface StatementLine {
+  date: Date;
+  reference: string;
+  type: string;
+  counterparty: string | null;
+  debit: bigint | null;
+  credit: bigint | null;
+  balance: bigint;
+}
+
+@Injectable()
+export class StatementService extends PrismaClient {
+  constructor() {
+    super();
+  }
+
+  /**
+   * Builds a statement of settled transactions for a period.
+   * Rows are read in batches and written as they arrive, so large ranges
+   * never sit in memory.
+   */
+  async generateStatement(userId: string, query: StatementQueryDto) {
+    const from = new Date(query.from);
+    const to = new Date(query.to);
+
+    if (from > to) {
+      throw new BadRequestException('from must be before to');
+    }
+
+    const wallet = await this.wallet.findUnique({ where: { userId } });
+
+    if (!wallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    const header: StatementHeader = {
+      walletNumber: wallet.walletNumber,
+      from,
+      to,
+      openingBalance: await this.balanceBefore(userId, from),
+    };
+    const lines = this.statementLines(userId, header);
+    const format = query.format ?? 'csv';
+    const filename = `statement_${wallet.walletNumber}_${query.from.slice(0, 10)}_${query.to.slice(0, 10)}.${format}`;
+
+    if (format === 'pdf') {
+      return {
+        stream: this.renderPdf(header, lines),
+        filename,
+        contentType: 'application/pdf',
+      };
+    }
+
+    return {
+      stream: Readable.from(this.renderCsv(header, lines)),
+      filename,
+      contentType: 'text/csv',
+    };
+  }
+
+  // Sum of settled transactions before the period
+  private async balanceBefore(userId: string, date: Date): Promise<bigint> {
+    const sums = await this.transaction.groupBy({
+      by: ['type'],
+      where: { userId, status: 'success', createdAt: { lt: date } },
+      _sum: { amount: true },
+    });
+
+    return sums.reduce(
+      (total: bigint, sum: { type: string; _sum: { amount: bigint | null } }) =>
+        total + signedTransactionAmount(sum.type, sum._sum.amount ?? 0n),
+      0n,
+    );
+  }
+
+  private async *statementLines(
+    userId: string,
+    header: StatementHeader,
+  ): AsyncGenerator<StatementLine> {
+    let balance = header.openingBalance;
+    let cursor: { createdAt: Date; id: string } | undefined;
+
+    while (true) {
+      const batch = await this.transaction.findMany({
+        where: {
+          userId,
+          status: 'success',
+          createdAt: { gte: header.from, lte: header.to },
+          ...(cursor && {
+            OR: [
+              { createdAt: { gt: cursor.createdAt } },
+              { createdAt: cursor.createdAt, id: { gt: cursor.id } },
+            ],
+          }),
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        take: BATCH_SIZE,
+      });
+
+      for (const transaction of batch) {
+        const signed = signedTransactionAmount(
+          transaction.type,
+          transaction.amount,
+        );
+        const metadata = (transaction.metadata ?? {}) as {
+          to?: string;
+          from?: string;
+        };
+        balance += signed;
+
+        yield {
+          date: transaction.createdAt,
+          reference: transaction.reference,
+          type: transaction.type,
+          counterparty: metadata.to ?? metadata.from ?? null,
+          debit: signed < 0n ? transaction.amount : null,
+          credit: signed >= 0n ? transaction.amount : null,
+          balance,
+        };
+      }
+
+      if (batch.length < BATCH_SIZE) {
+        return;
+      }
+
+      const last = batch[batch.length - 1];
+      cursor = { createdAt: last.createdAt, id: last.id };
+    }
+  }
+
+  // ==================== RENDERERS ====================
+
+  private async *renderCsv(
+    header: StatementHeader,
+    lines: AsyncGenerator<StatementLine>,
+  ): AsyncGenerator<string> {
+    yield toCsvRow(['Wallet number', header.walletNumber]);
+    yield toCsvRow(['Currency', DEFAULT_CURRENCY]);
+    yield toCsvRow([
+      'Period',
+      header.from.toISOString(),
+      header.to.toISOString(),
+    ]);
+    yield toCsvRow(['Opening balance', formatDecimal(header.openingBalance)]);
+    yield toCsvRow([]);
+    yield toCsvRow([
+      'Date',
+      'Reference',
+      'Type',
+      'Counterparty',
+      'Debit',
+      'Credit',
+      'Balance',
+    ]);
+
+    let closingBalance = header.openingBalance;
+    for await (const line of lines) {
+      closingBalance = line.balance;
+      yield toCsvRow([
+        line.date.toISOString(),
+        line.reference,
+        line.type,
+        line.counterparty,
+        line.debit !== null ? formatDecimal(line.debit) : '',
+        line.credit !== null ? formatDecimal(line.credit) : '',
+        formatDecimal(line.balance),
+      ]);
+    }
+
+    yield toCsvRow([]);
+    yield toCsvRow(['Closing balance', formatDecimal(closingBalance)]);
+  }
+
+  private renderPdf(
+    header: StatementHeader,
+    lines: AsyncGenerator<StatementLine>,
+  ): Readable {
+    const doc = new PDFDocument({
+      size: 'A4',
+      layout: 'landscape',
+      margin: 40,
+    });
+
+    // Fixed-width columns in a monospace font keep the table aligned across
+    // pages while pdfkit handles page breaks
+    const row = (columns: string[]) =>
+      [
+        columns[0].padEnd(17),
+        columns[1].padEnd(56),
+        columns[2].padEnd(13),
+        columns[3].padEnd(14),
+        columns[4].padStart(14),
+        columns[5].padStart(14),
+        columns[6].padStart(16),
+      ].join(' ');
+
+    const write = async () => {
+      doc.font('Helvetica-Bold').fontSize(16).text('Wallet Statement');
+      doc
+        .font('Helvetica')
+        .fontSize(10)
+        .text(`Wallet number: ${header.walletNumber}`)
+        .text(
+          `Period: ${header.from.toISOString()} - ${header.to.toISOString()}`,
+        )
+        .text(
+          `Opening balance: ${DEFAULT_CURRENCY} ${formatDecimal(header.openingBalance)}`,
+        )
+        .moveDown();
+
+      doc
+        .font('Courier-Bold')
+        .fontSize(8)
+        .text(
+          row([
+            'Date',
+            'Reference',
+            'Type',
+            'Counterparty',
+            'Debit',
+            'Credit',
+            'Balance',
+          ]),
+        );
+      doc.font('Courier');
+
+      let closingBalance = header.openingBalance;
+      for await (const line of lines) {
+        closingBalance = line.balance;
+        doc.text(
+          row([
+            line.date.toISOString().slice(0, 16).replace('T', ' '),
+            line.reference,
+            line.type,
+            line.counterparty ?? '',
+            line.debit !== null ? formatDecimal(line.debit) : '',
+            line.credit !== null ? formatDecimal(line.credit) : '',
+            formatDecimal(line.balance),
+          ]),
+        );
+      }
+
+      doc
+        .moveDown()
+        .font('Helvetica')
+        .fontSize(10)
+        .text(
+          `Closing balance: ${DEFAULT_CURRENCY} ${formatDecimal(closingBalance)}`,
+        );
+      doc.end();
+    };
+
+    write().catch((error: Error) => doc.destroy(error));
+
+    return doc;
+  }
+}
@@ -0,0 +1,36 @@
+export const TRANSACTION_TYPES = [
+  'deposit',
+  'transfer_in',
+  'transfer_out',
+  'withdrawal',
+  'refund',
+  'chargeback',
+  'fee',
+  'subscription',
+  'reversal_in',
+  'reversal_out',
+];
+
+export const TRANSACTION_STATUSES = [
+  'pending',
+  'success',
+  'failed',
+  'reversed',
+  'requires_review',
+  'expired',
+];
+
+// Types that add to the wallet balance; every other type takes from it
+export const CREDIT_TRANSACTION_TYPES = [
+  'deposit',
+  'transfer_in',
+  'reversal_in',
+];
+
+export const signedTransactionAmount = (type: string, amount: bigint) =>
+  CREDIT_TRANSACTION_TYPES.includes(type) ? amount : -amount;
+
+// atomic: every row succeeds or none does; best_effort: rows run one by one
+export const BATCH_MODES = ['atomic', 'best_effort'];
+
+export const MAX_BATCH_ROWS = 500;
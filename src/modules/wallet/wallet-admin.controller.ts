@@ -0,0 +1,64 @@
+import { Controller, Post, Get, UseGuards, Body, Param } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiParam,
+} from '@nestjs/swagger';
+import { WalletService } from './wallet.service';
+import { UpdateWalletStatusDto } from './dto/update-wallet-status.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import type { AuthenticatedUser } from '../auth/decorators/get-user.decorator';
+import { buildSuccessResponse } from 'src/common/utils/api-response';
+
+@ApiTags('Wallet Admin')
+@ApiBearerAuth()
+@ApiSecurity('api_key', ['x-api-key'])
+@Controller('admin/wallets')
+@UseGuards(JwtAuthGuard, ApiKeyGuard, AdminGuard)
+export class WalletAdminController {
+  constructor(private readonly walletService: WalletService) {}
+
+  @Post(':walletNumber/status')
+  @ApiOperation({ summary: 'Freeze, unfreeze or close a wallet' })
+  @ApiResponse({ status: 200, description: 'Wallet status updated' })
+  @ApiResponse({
+    status: 400,
+    description: 'Transition not allowed (closed, or not empty)',
+  })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+  })
+  @ApiParam({ name: 'walletNumber', description: 'Wallet number' })
+  async updateStatus(
+    @GetUser() user: AuthenticatedUser,
+    @Param('walletNumber') walletNumber: string,
+    @Body() dto: UpdateWalletStatusDto,
+  ) {
+    const result = await this.walletService.changeWalletStatus(
+      walletNumber,
+      dto.status,
+      dto.reason,
+      user.id,
+    );
+    return buildSuccessResponse('Wallet status updated', result);
+  }
+
+  @Get(':walletNumber/status')
+  @ApiOperation({ summary: 'Get a wallet status and its change history' })
+  @ApiResponse({ status: 200, description: 'Wallet status retrieved' })
+  @ApiResponse({ status: 404, description: 'Wallet not found' })
+  @ApiParam({ name: 'walletNumber', description: 'Wallet number' })
+  async getStatus(@Param('walletNumber') walletNumber: string) {
+    const result =
+      await this.walletService.getWalletStatusHistory(walletNumber);
+    return buildSuccessResponse('Wallet status retrieved', result);
+  }
+}
@@ -0,0 +1,57 @@
+import { ForbiddenException } from '@nestjs/common';
+
+export const WALLET_STATUSES = [
+  'active',
+  'frozen_debits',
+  'frozen_all',
+  'closed',
+];
+
+// Stable codes returned with 403s so clients can tell the cases apart
+export const WALLET_ERROR_CODES = {
+  DEBITS_FROZEN: 'WALLET_DEBITS_FROZEN',
+  FROZEN: 'WALLET_FROZEN',
+  CLOSED: 'WALLET_CLOSED',
+} as const;
+
+const walletError = (code: string, message: string) =>
+  new ForbiddenException({
+    statusCode: 403,
+    error: 'Forbidden',
+    code,
+    message,
+  });
+
+// Throws unless money may leave the wallet
+export function assertWalletCanDebit(
+  wallet: { status: string },
+  label = 'Wallet',
+) {
+  switch (wallet.status) {
+    case 'frozen_debits':
+      throw walletError(
+        WALLET_ERROR_CODES.DEBITS_FROZEN,
+        `${label} is frozen for debits`,
+      );
+    case 'frozen_all':
+      throw walletError(WALLET_ERROR_CODES.FROZEN, `${label} is frozen`);
+    case 'closed':
+      throw walletError(WALLET_ERROR_CODES.CLOSED, `${label} is closed`);
+  }
+}
+
+// Throws unless money may enter the wallet
+export function assertWalletCanCredit(
+  wallet: { status: string },
+  label = 'Wallet',
+) {
+  switch (wallet.status) {
+    case 'frozen_all':
+      throw walletError(WALLET_ERROR_CODES.FROZEN, `${label} is frozen`);
+    case 'closed':
+      throw walletError(WALLET_ERROR_CODES.CLOSED, `${label} is closed`);
+  }
+}
+
+export const canReceiveCredits = (wallet: { status: string }) =>
+  wallet.status === 'active' || wallet.status === 'frozen_debits';
@@ -3,12 +3,12 @@ import {
   Post,
   Get,
   UseGuards,
-  Req,
   Headers,
   Body,
   Query,
   Param,
   BadRequestException,
+  StreamableFile,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -21,20 +21,30 @@ import {
   ApiQuery,
   ApiHeader,
 } from '@nestjs/swagger';
-import type { RawBodyRequest } from '@nestjs/common';
 import { WalletService } from './wallet.service';
 import { DepositDto } from './dto/deposit.dto';
 import { TransferDto } from './dto/transfer.dto';
+import { TransactionQueryDto } from './dto/transaction-query.dto';
+import { StatementQueryDto } from './dto/statement-query.dto';
+import { StatementService } from './statement.service';
+import { TRANSITION_SOURCES } from '../transaction-state/transaction-state.constants';
 import { JwtAuthGuard } from '../auth/guards/jwt.guard';
 import { ApiKeyGuard } from '../auth/guards/api-key.guard';
 import { GetUser } from '../auth/decorators/get-user.decorator';
+import type { AuthenticatedUser } from '../auth/decorators/get-user.decorator';
 import { RequirePermission } from '../auth/decorators/require-permission.decorator';
-import type { Request } from 'express';
 import { buildSuccessResponse } from 'src/common/utils/api-response';
+import { toMinorUnits } from 'src/common/utils/money';
+import { IdempotencyService } from '../idempotency/idempotency.service';
+import { IDEMPOTENCY_HEADER } from '../idempotency/idempotency.constants';
 
 @Controller('wallet')
 export class WalletController {
-  constructor(private walletService: WalletService) {}
+  constructor(
+    private walletService: WalletService,
+    private statementService: StatementService,
+    private idempotencyService: IdempotencyService,
+  ) {}
 
   // ==================== DEPOSIT ENDPOINTS ====================
 
@@ -44,63 +54,44 @@ export class WalletController {
   @ApiBearerAuth()
   @ApiSecurity('api_key', ['x-api-key'])
   @ApiOperation({ summary: 'Initiate a deposit transaction' })
+  @ApiHeader(IDEMPOTENCY_HEADER)
   @ApiResponse({ status: 200, description: 'Deposit initiated successfully' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({
     status: 403,
     description: 'Forbidden - Insufficient permissions',
   })
-  async deposit(@GetUser() user: any, @Body() dto: DepositDto) {
+  @ApiResponse({
+    status: 409,
+    description: 'A request with this Idempotency-Key is in progress',
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'Idempotency-Key reused with a different request body',
+  })
+  async deposit(
+    @GetUser() user: AuthenticatedUser,
+    @Body() dto: DepositDto,
+    @Headers('idempotency-key') idempotencyKey?: string,
+  ) {
     // Use email from DTO if provided, otherwise use email from JWT user
     const email = dto.email || user.email;
-    const result = await this.walletService.initiateDeposit(
+    const result = await this.idempotencyService.execute(
       user.id,
-      dto.amount,
-      email,
+      idempotencyKey,
+      'wallet.deposit',
+      dto,
+      () =>
+        this.walletService.initiateDeposit(
+          user.id,
+          toMinorUnits(dto.amount),
+          email,
+        ),
     );
     return buildSuccessResponse('Deposit initiated successfully', result);
   }
 
-  //====================== PAYSTACK WEBHOOK & CALLBACK ====================
-  @Post('paystack/webhook')
-  @ApiOperation({ summary: 'Handle Paystack webhook events' })
-  @ApiResponse({ status: 200, description: 'Webhook processed successfully' })
-  @ApiResponse({ status: 400, description: 'Bad request - Invalid signature' })
-  @ApiHeader({
-    name: 'x-paystack-signature',
-    description: 'Paystack signature for verification',
-  })
-  async paystackWebhook(
-    @Req() req: RawBodyRequest<Request>,
-    @Headers('x-paystack-signature') signature: string,
-  ) {
-    if (!signature) {
-      throw new BadRequestException('No signature header');
-    }
-
-    // Get raw body as string for signature verification
-    const rawBody = req.rawBody?.toString('utf8') || '';
-
-    // Verify signature
-    const isValid = this.walletService.verifyPaystackSignature(
-      rawBody,
-      signature,
-    );
-
-    if (!isValid) {
-      throw new BadRequestException('Invalid signature');
-    }
-
-    // Parse event
-    const payload = JSON.parse(rawBody);
-    const result = await this.walletService.handleWebhook(
-      payload.event,
-      payload.data,
-    );
-    return buildSuccessResponse('Webhook processed successfully', result);
-  }
-
-  //====================== PAYSTACK WEBHOOK & CALLBACK END ====================
+  //====================== PAYSTACK CALLBACK ====================
   @Get('paystack/callback')
   @ApiOperation({ summary: 'Handle Paystack payment callback' })
   @ApiResponse({ status: 200, description: 'Payment callback processed' })
@@ -123,8 +114,10 @@ export class WalletController {
     }
 
     // Verify transaction status
-    const status =
-      await this.walletService.verifyDepositWithPaystack(reference);
+    const status = await this.walletService.verifyDepositWithPaystack(
+      reference,
+      TRANSITION_SOURCES.CALLBACK,
+    );
 
     return buildSuccessResponse('Payment processed', {
       status: status.status,
@@ -219,11 +212,35 @@ export class WalletController {
   @RequirePermission('transfer')
   @ApiSecurity('api_key', ['x-api-key'])
   @ApiBearerAuth()
-  async transfer(@GetUser() user: any, @Body() dto: TransferDto) {
-    const result = await this.walletService.transfer(
+  @ApiOperation({ summary: 'Transfer funds to another wallet' })
+  @ApiHeader(IDEMPOTENCY_HEADER)
+  @ApiResponse({ status: 200, description: 'Transfer completed successfully' })
+  @ApiResponse({ status: 400, description: 'Insufficient balance' })
+  @ApiResponse({
+    status: 409,
+    description: 'A request with this Idempotency-Key is in progress',
+  })
+  @ApiResponse({
+    status: 422,
+    description: 'Idempotency-Key reused with a different request body',
+  })
+  async transfer(
+    @GetUser() user: AuthenticatedUser,
+    @Body() dto: TransferDto,
+    @Headers('idempotency-key') idempotencyKey?: string,
+  ) {
+    const result = await this.idempotencyService.execute(
       user.id,
-      dto.wallet_number,
-      dto.amount,
+      idempotencyKey,
+      'wallet.transfer',
+      dto,
+      () =>
+        this.walletService.transfer(
+          user.id,
+          dto.wallet_number,
+          toMinorUnits(dto.amount),
+          { idempotencyKey },
+        ),
     );
     return buildSuccessResponse('Transfer completed successfully', result);
   }
@@ -234,7 +251,9 @@ export class WalletController {
   @UseGuards(JwtAuthGuard, ApiKeyGuard)
   @ApiSecurity('api_key', ['x-api-key'])
   @RequirePermission('read')
-  @ApiOperation({ summary: 'Get transaction history' })
+  @ApiOperation({
+    summary: 'Get transaction history (cursor paginated, filterable)',
+  })
   @ApiResponse({ status: 200, description: 'Transaction history retrieved' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({
@@ -242,8 +261,41 @@ export class WalletController {
     description: 'Forbidden - Insufficient permissions',
   })
   @ApiBearerAuth()
-  async getTransactions(@GetUser() user: any) {
-    const result = await this.walletService.getTransactionHistory(user.id);
+  async getTransactions(
+    @GetUser() user: AuthenticatedUser,
+    @Query() query: TransactionQueryDto,
+  ) {
+    const result = await this.walletService.getTransactionHistory(
+      user.id,
+      query,
+    );
     return buildSuccessResponse('Transaction history retrieved', result);
   }
+
+  @Get('statement')
+  @UseGuards(JwtAuthGuard, ApiKeyGuard)
+  @ApiSecurity('api_key', ['x-api-key'])
+  @RequirePermission('read')
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Download a CSV or PDF statement for a period' })
+  @ApiResponse({ status: 200, description: 'Statement file' })
+  @ApiResponse({ status: 400, description: 'Invalid date range' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async getStatement(
+    @GetUser() user: AuthenticatedUser,
+    @Query() query: StatementQueryDto,
+  ): Promise<StreamableFile> {
+    const statement = await this.statementService.generateStatement(
+      user.id,
+      query,
+    );
+    return new StreamableFile(statement.stream, {
+      type: statement.contentType,
+      disposition: `attachment; filename="${statement.filename}"`,
+    });
+  }
 }
@@ -1,10 +1,48 @@
 import { Module } from '@nestjs/common';
 import { WalletController } from './wallet.controller';
+import { HoldController } from './hold.controller';
+import { WalletAdminController } from './wallet-admin.controller';
+import { CardController } from './card.controller';
+import { BatchTransferController } from './batch-transfer.controller';
 import { WalletService } from './wallet.service';
+import { StatementService } from './statement.service';
+import { CardService } from './card.service';
+import { AutoTopUpService } from './auto-top-up.service';
+import { BatchTransferService } from './batch-transfer.service';
+import { LedgerModule } from '../ledger/ledger.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { PaystackModule } from '../paystack/paystack.module';
+import { TransactionStateModule } from '../transaction-state/transaction-state.module';
+import { HoldModule } from '../hold/hold.module';
+import { LimitsModule } from '../limits/limits.module';
+import { FeesModule } from '../fees/fees.module';
+import { WebhookEndpointModule } from '../webhook-endpoint/webhook-endpoint.module';
 
 @Module({
-  controllers: [WalletController],
-  providers: [WalletService],
-  exports: [WalletService],
+  imports: [
+    LedgerModule,
+    IdempotencyModule,
+    PaystackModule,
+    TransactionStateModule,
+    HoldModule,
+    LimitsModule,
+    FeesModule,
+    WebhookEndpointModule,
+  ],
+  controllers: [
+    WalletController,
+    HoldController,
+    WalletAdminController,
+    CardController,
+    BatchTransferController,
+  ],
+  providers: [
+    WalletService,
+    StatementService,
+    CardService,
+    AutoTopUpService,
+    BatchTransferService,
+  ],
+  exports: [WalletService, CardService],
 })
 export class WalletModule {}
@@ -1,66 +1,137 @@
 import {
   Injectable,
   BadRequestException,
+  ConflictException,
   NotFoundException,
 } from '@nestjs/common';
-import axios from 'axios';
 import { ConfigService } from '@nestjs/config';
 import { AppConfig } from '../../config/app.config';
 import * as crypto from 'crypto';
-import { PrismaClient } from '@prisma/client';
+import { Prisma, PrismaClient } from '@prisma/client';
+import {
+  DEFAULT_CURRENCY,
+  toMinorUnits,
+  toMoneyResponse,
+} from '../../common/utils/money';
+import { unknownReference } from '../../common/utils/webhook-result';
+import { LedgerService, LedgerLine } from '../ledger/ledger.service';
+import { JOURNAL_TYPES, LEDGER_ACCOUNTS } from '../ledger/ledger.constants';
+import {
+  isPaystackRejection,
+  PaystackService,
+} from '../paystack/paystack.service';
+import { PaystackTransaction } from '../paystack/paystack.types';
+import { TransactionStateService } from '../transaction-state/transaction-state.service';
+import { HoldService } from '../hold/hold.service';
+import { LimitsService } from '../limits/limits.service';
+import { LIMIT_OPERATIONS } from '../limits/limits.constants';
+import { FeesService } from '../fees/fees.service';
+import { FEE_OPERATIONS } from '../fees/fees.constants';
+import {
+  TRANSITION_SOURCES,
+  TransitionSource,
+} from '../transaction-state/transaction-state.constants';
+import { TransactionQueryDto } from './dto/transaction-query.dto';
+import {
+  assertWalletCanCredit,
+  assertWalletCanDebit,
+  canReceiveCredits,
+} from './wallet-status';
+import { CardService } from './card.service';
+import { WebhookDeliveryService } from '../webhook-endpoint/webhook-delivery.service';
+import { WEBHOOK_EVENTS } from '../webhook-endpoint/webhook-endpoint.constants';
+
+const DEFAULT_PAGE_SIZE = 20;
+
+// Paystack statuses for a checkout the customer hasn't finished (yet)
+const INCOMPLETE_PAYSTACK_STATUSES = [
+  'abandoned',
+  'ongoing',
+  'pending',
+  'processing',
+  'queued',
+];
+
+export interface TransferOptions {
+  // Caller's Idempotency-Key; a fresh key is generated per call otherwise
+  idempotencyKey?: string;
+  // Pay the transfer out of this hold instead of the available balance
+  holdReference?: string;
+}
+
+export interface VerifyDepositOptions {
+  // What to do with a deposit Paystack reports as unfinished or doesn't
+  // know: fail it (the default), leave it pending, or expire it
+  onIncomplete?: 'fail' | 'keep' | 'expire';
+}
+
+// What closing a deposit needs from its Transaction row
+interface DepositToEnd {
+  id: string;
+  userId: string;
+  reference: string;
+  amount: bigint;
+}
+
+export interface PostTransferInput {
+  fromUserId: string;
+  senderWallet: { id: string; walletNumber: string };
+  recipientWallet: { id: string; userId: string; walletNumber: string };
+  amount: bigint;
+  fee: bigint;
+  idempotencyKey: string;
+  // Prefix of both transaction references; timestamped when omitted
+  referencePrefix?: string;
+  holdReference?: string;
+  // Extra metadata stored on both sides
+  metadata?: Record<string, unknown>;
+}
 
 @Injectable()
 export class WalletService extends PrismaClient {
-  private readonly paystackSecretKey: string;
-  private readonly paystackWebhookSecret: string;
-  private readonly paystackBaseUrl = 'https://api.paystack.co';
   private readonly appUrl: string;
 
-  constructor(private config: ConfigService) {
+  constructor(
+    private config: ConfigService,
+    private ledgerService: LedgerService,
+    private paystackService: PaystackService,
+    private transactionStateService: TransactionStateService,
+    private holdService: HoldService,
+    private limitsService: LimitsService,
+    private feesService: FeesService,
+    private cardService: CardService,
+    private webhookDeliveryService: WebhookDeliveryService,
+  ) {
     super();
     const appConfig = this.config.get<AppConfig>('app');
     if (!appConfig) {
       throw new Error('App configuration not found');
     }
-    this.paystackSecretKey = appConfig.paystackSecretKey;
-    this.paystackWebhookSecret = appConfig.paystackSecretKey;
     this.appUrl = appConfig.paystackcallbackUrl;
   }
 
   // ==================== DEPOSIT OPERATIONS ====================
 
-  // Initialize deposit transaction with Paystack
-  async initiateDeposit(userId: string, amount: number, email: string) {
-    // Ensure wallet exists
-    await this.getOrCreateWallet(userId);
+  // Initialize deposit transaction with Paystack (amount in kobo)
+  async initiateDeposit(userId: string, amount: bigint, email: string) {
+    const fee = await this.checkDeposit(userId, amount);
 
     // Generate unique reference
     const reference = `dep_${Date.now()}_${userId}`;
 
-    // Amount must be in kobo (smallest currency unit)
-    const amountInKobo = amount * 100;
-
     try {
       // Call Paystack Initialize Transaction API
-      const response = await axios.post(
-        `${this.paystackBaseUrl}/transaction/initialize`,
-        {
-          email,
-          amount: amountInKobo,
-          reference,
-          callback_url: `${this.appUrl}`,
-          metadata: {
-            user_id: userId,
-            transaction_type: 'deposit',
-          },
-        },
-        {
-          headers: {
-            Authorization: `Bearer ${this.paystackSecretKey}`,
-            'Content-Type': 'application/json',
-          },
+      const paystackData = await this.paystackService.initializeTransaction({
+        email,
+        amount: Number(amount),
+        currency: DEFAULT_CURRENCY,
+        reference,
+        callback_url: `${this.appUrl}`,
+        metadata: {
+          user_id: userId,
+          transaction_type: 'deposit',
         },
-      );
+      });
 
       // Create pending transaction in database
       await this.transaction.create({
@@ -68,41 +139,126 @@ export class WalletService extends PrismaClient {
           reference,
           userId,
           amount,
+          fee,
+          currency: DEFAULT_CURRENCY,
           type: 'deposit',
           status: 'pending',
-          paystackReference: response.data.data.access_code,
+          paystackReference: paystackData.access_code,
         },
       });
 
       return {
-        reference: response.data.data.reference,
-        authorization_url: response.data.data.authorization_url,
+        reference: paystackData.reference,
+        authorization_url: paystackData.authorization_url,
+        fee: toMoneyResponse(fee),
+        net_credit: toMoneyResponse(amount - fee),
       };
     } catch (error) {
       throw new BadRequestException('Failed to initialize payment');
     }
   }
 
-  // ==================== WEBHOOK OPERATIONS ====================
+  // Top up instantly by charging a saved card (amount in kobo). Cards that
+  // need another step (e.g. OTP) stay pending until the charge webhook.
+  async topUpWithCard(userId: string, cardId: string, amount: bigint) {
+    const card = await this.cardService.findOwnCard(userId, cardId);
+    const fee = await this.checkDeposit(userId, amount);
+    const reference = `dep_${Date.now()}_${userId}`;
 
-  // Verify Paystack signature
-  verifyPaystackSignature(payload: string, signature: string): boolean {
-    const webhookSecret = this.paystackWebhookSecret || this.paystackSecretKey;
-    const hash = crypto
-      .createHmac('sha512', webhookSecret)
-      .update(payload)
-      .digest('hex');
-    return hash === signature;
+    const transaction = await this.transaction.create({
+      data: {
+        reference,
+        userId,
+        amount,
+        fee,
+        currency: DEFAULT_CURRENCY,
+        type: 'deposit',
+        status: 'pending',
+        metadata: { channel: 'saved_card', card_id: card.id },
+      },
+    });
+
+    let charge: PaystackTransaction;
+    try {
+      charge = await this.paystackService.chargeAuthorization({
+        email: card.email,
+        amount: Number(amount),
+        currency: DEFAULT_CURRENCY,
+        authorization_code: card.authorizationCode,
+        reference,
+        metadata: {
+          user_id: userId,
+          transaction_type: 'deposit',
+        },
+      });
+    } catch (error) {
+      if (isPaystackRejection(error)) {
+        const message =
+          error.response.data?.message ?? 'Card charge was declined';
+        await this.failDeposit(transaction, message, TRANSITION_SOURCES.API);
+        throw new BadRequestException(message);
+      }
+
+      // Outcome unknown (timeout or 5xx); the charge webhooks settle it
+      console.error('Error charging saved card:', error);
+      return this.verifyDepositStatus(reference);
+    }
+
+    if (charge.status === 'success') {
+      await this.settleDeposit(
+        transaction,
+        toMinorUnits(charge.amount),
+        charge.currency,
+        charge.fees != null ? toMinorUnits(charge.fees) : null,
+        charge.gateway_response,
+        TRANSITION_SOURCES.API,
+      );
+    } else if (charge.status === 'failed') {
+      await this.failDeposit(
+        transaction,
+        charge.gateway_response ?? 'Card charge failed',
+        TRANSITION_SOURCES.API,
+      );
+    }
+
+    return this.verifyDepositStatus(reference);
   }
 
-  // Handle Paystack webhook (IDEMPOTENT)
-  async handleWebhook(event: string, data: any) {
-    // Only process charge events (both success and failure)
-    if (!event.startsWith('charge.')) {
-      return { status: true, message: 'Event ignored' };
+  // Wallet status and limit checks shared by every deposit channel. Returns
+  // our fee, which comes out of the deposit; it is fixed now so a schedule
+  // change before the payment lands doesn't alter what the user was quoted.
+  private async checkDeposit(userId: string, amount: bigint): Promise<bigint> {
+    // Ensure wallet exists and can take the money
+    const wallet = await this.getOrCreateWallet(userId);
+    assertWalletCanCredit(wallet);
+    await this.limitsService.assertWithinLimits(
+      userId,
+      LIMIT_OPERATIONS.DEPOSIT,
+      amount,
+    );
+
+    const fee = await this.feesService.getFee(FEE_OPERATIONS.DEPOSIT, amount);
+    if (fee >= amount) {
+      throw new BadRequestException('Amount does not cover the deposit fee');
     }
 
-    const { reference, amount, status, gateway_response } = data;
+    return fee;
+  }
+
+  // ==================== WEBHOOK OPERATIONS ====================
+
+  // Handle Paystack charge.* webhook events (IDEMPOTENT)
+  async handleChargeEvent(event: string, data: PaystackTransaction) {
+    const {
+      reference,
+      amount,
+      currency,
+      status,
+      gateway_response,
+      fees,
+      authorization,
+      customer,
+    } = data;
 
     // Verify transaction exists
     const transaction = await this.transaction.findUnique({
@@ -110,56 +266,75 @@ export class WalletService extends PrismaClient {
     });
 
     if (!transaction) {
-      throw new NotFoundException('Transaction not found');
-    }
-
-    // IDEMPOTENCY CHECK
-    if (transaction.status === 'success' || transaction.status === 'failed') {
-      return { status: true, message: 'Already processed' };
+      return unknownReference('Transaction not found');
     }
 
     // Determine if the payment was successful
     const isPaymentSuccessful =
       event === 'charge.success' && status === 'success';
 
-    // Use database transaction to ensure atomicity
-    await this.$transaction(async (tx) => {
-      // Update transaction status
-      await tx.transaction.update({
-        where: { reference },
-        data: {
-          status: isPaymentSuccessful ? 'success' : 'failed',
-          gatewayResponse: gateway_response,
-          completedAt: new Date(),
-        },
-      });
+    if (transaction.status === 'expired' && isPaymentSuccessful) {
+      const held = await this.reviewLateDeposit(
+        transaction,
+        toMinorUnits(amount),
+        currency,
+        fees != null ? toMinorUnits(fees) : null,
+        gateway_response,
+        TRANSITION_SOURCES.WEBHOOK,
+      );
+      return held
+        ? { status: true }
+        : { status: true, message: 'Already processed' };
+    }
 
-      // Credits wallet only if payment was successful
-      if (isPaymentSuccessful) {
-        // Convert from kobo to naira
-        const amountInNaira = amount / 100;
+    // IDEMPOTENCY CHECK
+    if (transaction.status !== 'pending') {
+      return { status: true, message: 'Already processed' };
+    }
 
-        await tx.wallet.upsert({
-          where: { userId: transaction.userId },
-          create: {
-            userId: transaction.userId,
-            balance: amountInNaira,
-          },
-          update: {
-            balance: {
-              increment: amountInNaira,
-            },
-          },
-        });
+    // Credits wallet only if payment was successful
+    let applied: boolean;
+    if (isPaymentSuccessful) {
+      // Paystack reports amounts in kobo
+      const outcome = await this.settleDeposit(
+        transaction,
+        toMinorUnits(amount),
+        currency,
+        fees != null ? toMinorUnits(fees) : null,
+        gateway_response,
+        TRANSITION_SOURCES.WEBHOOK,
+      );
+      applied = outcome !== null;
+
+      if (outcome === 'success') {
+        await this.cardService.saveAuthorization(
+          transaction.userId,
+          authorization,
+          customer?.email,
+        );
       }
-    });
+    } else {
+      applied = await this.failDeposit(
+        transaction,
+        gateway_response,
+        TRANSITION_SOURCES.WEBHOOK,
+      );
+    }
 
-    return { status: true };
+    return applied
+      ? { status: true }
+      : { status: true, message: 'Already processed' };
   }
 
   // ==================== VERIFICATION OPERATIONS ====================
 
-  async verifyDepositWithPaystack(reference: string) {
+  async verifyDepositWithPaystack(
+    reference: string,
+    source: TransitionSource = TRANSITION_SOURCES.MANUAL_VERIFY,
+    options: VerifyDepositOptions = {},
+  ) {
+    const onIncomplete = options.onIncomplete ?? 'fail';
+
     // First check if transaction exists in our database
     const transaction = await this.transaction.findUnique({
       where: { reference },
@@ -171,79 +346,105 @@ export class WalletService extends PrismaClient {
 
     try {
       // Call Paystack Verify Transaction API
-      const response = await axios.get(
-        `${this.paystackBaseUrl}/transaction/verify/${reference}`,
-        {
-          headers: {
-            Authorization: `Bearer ${this.paystackSecretKey}`,
-          },
-        },
-      );
-
-      const paystackData = response.data.data;
+      const paystackData =
+        await this.paystackService.verifyTransaction(reference);
       const paystackStatus = paystackData.status;
-      const paystackAmount = paystackData.amount / 100; // Convert from kobo to naira
+      const paystackAmount = toMinorUnits(paystackData.amount);
+
+      if (transaction.status !== 'pending') {
+        if (transaction.status === 'expired' && paystackStatus === 'success') {
+          await this.reviewLateDeposit(
+            transaction,
+            paystackAmount,
+            paystackData.currency,
+            paystackData.fees != null ? toMinorUnits(paystackData.fees) : null,
+            paystackData.gateway_response,
+            source,
+          );
+          return this.alreadyProcessed(
+            await this.transaction.findUniqueOrThrow({ where: { reference } }),
+            paystackStatus,
+          );
+        }
 
-      if (transaction.status === 'success') {
-        return {
-          reference: transaction.reference,
-          status: transaction.status,
-          amount: transaction.amount,
+        return this.alreadyProcessed(transaction, paystackStatus);
+      }
+
+      if (
+        onIncomplete !== 'fail' &&
+        INCOMPLETE_PAYSTACK_STATUSES.includes(paystackStatus)
+      ) {
+        return this.closeIncompleteDeposit(
+          transaction,
           paystackStatus,
-          message: 'Transaction already processed',
-        };
+          onIncomplete,
+          source,
+        );
       }
 
       // If Paystack confirms the transaction is successful, update our database and credit wallet
       if (paystackStatus === 'success') {
-        await this.$transaction(async (tx) => {
-          // Update transaction status
-          await tx.transaction.update({
-            where: { reference },
-            data: {
-              status: 'success',
-              gatewayResponse: paystackData.gateway_response,
-              completedAt: new Date(),
-            },
-          });
-
-          // Credit the user's wallet
-          await tx.wallet.upsert({
-            where: { userId: transaction.userId },
-            create: {
-              userId: transaction.userId,
-              balance: paystackAmount,
-            },
-            update: {
-              balance: {
-                increment: paystackAmount,
-              },
-            },
-          });
-        });
+        const outcome = await this.settleDeposit(
+          transaction,
+          paystackAmount,
+          paystackData.currency,
+          paystackData.fees != null ? toMinorUnits(paystackData.fees) : null,
+          paystackData.gateway_response,
+          source,
+        );
+
+        if (outcome === null) {
+          return this.alreadyProcessed(
+            await this.transaction.findUniqueOrThrow({ where: { reference } }),
+            paystackStatus,
+          );
+        }
+
+        if (outcome === 'requires_review') {
+          return {
+            reference: transaction.reference,
+            status: 'requires_review',
+            amount: toMoneyResponse(transaction.amount, transaction.currency),
+            received_amount: toMoneyResponse(
+              paystackAmount,
+              paystackData.currency,
+            ),
+            paystackStatus,
+            message: 'Payment is held for review',
+          };
+        }
+
+        await this.cardService.saveAuthorization(
+          transaction.userId,
+          paystackData.authorization,
+          paystackData.customer?.email,
+        );
 
         return {
           reference: transaction.reference,
           status: 'success',
-          amount: paystackAmount,
+          amount: toMoneyResponse(paystackAmount),
           paystackStatus,
           message: 'Payment verified and wallet credited',
         };
       } else {
-        await this.transaction.update({
-          where: { reference },
-          data: {
-            status: 'failed',
-            gatewayResponse:
-              paystackData.gateway_response || 'Payment not completed',
-            completedAt: new Date(),
-          },
-        });
+        const failed = await this.failDeposit(
+          transaction,
+          paystackData.gateway_response || 'Payment not completed',
+          source,
+        );
+
+        if (!failed) {
+          return this.alreadyProcessed(
+            await this.transaction.findUniqueOrThrow({ where: { reference } }),
+            paystackStatus,
+          );
+        }
 
         return {
           reference: transaction.reference,
           status: 'failed',
-          amount: transaction.amount,
+          amount: toMoneyResponse(transaction.amount),
           paystackStatus,
           message: 'Payment failed',
         };
@@ -251,19 +452,25 @@ export class WalletService extends PrismaClient {
     } catch (error) {
       console.error('Error verifying deposit with Paystack:', error);
       if (error.response?.status === 404) {
-        await this.transaction.update({
-          where: { reference },
-          data: {
-            status: 'failed',
-            gatewayResponse: 'Transaction abandoned or not completed',
-            completedAt: new Date(),
-          },
-        });
+        if (onIncomplete !== 'fail') {
+          return this.closeIncompleteDeposit(
+            transaction,
+            undefined,
+            onIncomplete,
+            source,
+          );
+        }
+
+        await this.failDeposit(
+          transaction,
+          'Transaction abandoned or not completed',
+          source,
+        );
 
         return {
           reference,
           status: 'failed',
-          amount: transaction.amount,
+          amount: toMoneyResponse(transaction.amount),
           message: 'Payment was abandoned',
         };
       }
@@ -271,12 +478,320 @@ export class WalletService extends PrismaClient {
       return {
         reference,
         status: 'failed',
-        amount: transaction.amount,
+        amount: toMoneyResponse(transaction.amount),
         message: 'Unable to verify payment status. Please try again.',
       };
     }
   }
 
+  // Leave an unfinished deposit pending, or expire it once it's too old to
+  // be completed
+  private async closeIncompleteDeposit(
+    transaction: DepositToEnd,
+    paystackStatus: string | undefined,
+    onIncomplete: 'keep' | 'expire',
+    source: TransitionSource,
+  ) {
+    if (onIncomplete === 'keep') {
+      return {
+        reference: transaction.reference,
+        status: 'pending',
+        amount: toMoneyResponse(transaction.amount),
+        paystackStatus,
+        message: 'Payment not completed yet',
+      };
+    }
+
+    const expired = await this.endDeposit(
+      transaction,
+      'expired',
+      paystackStatus
+        ? `Not completed on Paystack (${paystackStatus})`
+        : 'Not found on Paystack',
+      source,
+    );
+
+    if (!expired) {
+      return this.alreadyProcessed(
+        await this.transaction.findUniqueOrThrow({
+          where: { reference: transaction.reference },
+        }),
+        paystackStatus ?? 'not_found',
+      );
+    }
+
+    return {
+      reference: transaction.reference,
+      status: 'expired',
+      amount: toMoneyResponse(transaction.amount),
+      paystackStatus,
+      message: 'Deposit expired before payment was completed',
+    };
+  }
+
+  private alreadyProcessed(
+    transaction: { reference: string; status: string; amount: bigint },
+    paystackStatus: string,
+  ) {
+    return {
+      reference: transaction.reference,
+      status: transaction.status,
+      amount: toMoneyResponse(transaction.amount),
+      paystackStatus,
+      message: 'Transaction already processed',
+    };
+  }
+
+  // Credit a paid deposit, unless Paystack collected a different amount or
+  // currency than we asked for or the wallet can no longer take credits.
+  // Returns the new status, or null if another path (webhook, callback, ...)
+  // settled the deposit first.
+  private async settleDeposit(
+    transaction: {
+      id: string;
+      userId: string;
+      reference: string;
+      amount: bigint;
+      fee: bigint;
+      currency: string;
+    },
+    receivedAmount: bigint,
+    receivedCurrency: string | undefined,
+    processorFee: bigint | null,
+    gatewayResponse: string,
+    source: TransitionSource,
+  ): Promise<'success' | 'requires_review' | null> {
+    const currency = receivedCurrency ?? DEFAULT_CURRENCY;
+    const wallet = await this.getOrCreateWallet(transaction.userId);
+
+    let reviewReason: string | null = null;
+    if (
+      receivedAmount !== transaction.amount ||
+      currency !== transaction.currency
+    ) {
+      reviewReason = `Expected ${transaction.amount} ${transaction.currency}, received ${receivedAmount} ${currency}`;
+    } else if (!canReceiveCredits(wallet)) {
+      reviewReason = `Wallet is ${wallet.status}`;
+    }
+
+    if (!reviewReason) {
+      const credited = await this.creditDeposit(
+        transaction,
+        receivedAmount,
+        processorFee,
+        gatewayResponse,
+        source,
+      );
+      return credited ? 'success' : null;
+    }
+
+    const held = await this.transactionStateService.transition({
+      where: { id: transaction.id },
+      from: 'pending',
+      to: 'requires_review',
+      source,
+      reason: reviewReason,
+      data: {
+        receivedAmount,
+        receivedCurrency: currency,
+        processorFee,
+        gatewayResponse,
+        completedAt: new Date(),
+      },
+    });
+
+    if (held) {
+      console.warn(
+        `Deposit ${transaction.reference} held for review: ${reviewReason}`,
+      );
+    }
+
+    return held ? 'requires_review' : null;
+  }
+
+  // Mark a deposit successful and post it to the ledger in one transaction:
+  // debit Paystack clearing (less Paystack's fee, which is our expense),
+  // credit the user's wallet, then charge our own fee. The status move runs
+  // first, so a concurrent path blocks on the row and then finds it settled.
+  private async creditDeposit(
+    transaction: { id: string; userId: string; reference: string; fee: bigint },
+    amount: bigint,
+    processorFee: bigint | null,
+    gatewayResponse: string,
+    source: TransitionSource,
+  ): Promise<boolean> {
+    const wallet = await this.getOrCreateWallet(transaction.userId);
+
+    return this.$transaction(async (tx: Prisma.TransactionClient) => {
+      const claimed = await this.transactionStateService.transition(
+        {
+          where: { id: transaction.id },
+          from: 'pending',
+          to: 'success',
+          source,
+          data: { gatewayResponse, processorFee, completedAt: new Date() },
+        },
+        tx,
+      );
+
+      if (!claimed) {
+        return false;
+      }
+
+      const paystackFee = processorFee ?? 0n;
+      const clearing = await this.ledgerService.getSystemAccount(
+        tx,
+        LEDGER_ACCOUNTS.PAYSTACK_CLEARING,
+      );
+      const walletAccount = await this.ledgerService.getWalletAccount(
+        tx,
+        wallet.id,
+      );
+
+      // Paystack settles the deposit net of its fee
+      const feeLines: LedgerLine[] = [];
+      if (paystackFee > 0n) {
+        const processorFees = await this.ledgerService.getSystemAccount(
+          tx,
+          LEDGER_ACCOUNTS.PROCESSOR_FEES,
+        );
+        feeLines.push({
+          accountId: processorFees.id,
+          direction: 'debit',
+          amount: paystackFee,
+        });
+      }
+
+      const journal = await this.ledgerService.post(tx, {
+        reference: transaction.reference,
+        type: JOURNAL_TYPES.DEPOSIT,
+        description: `Paystack deposit ${transaction.reference}`,
+        lines: [
+          {
+            accountId: clearing.id,
+            direction: 'debit',
+            amount: amount - paystackFee,
+          },
+          ...feeLines,
+          { accountId: walletAccount.id, direction: 'credit', amount },
+        ],
+      });
+
+      await tx.transaction.update({
+        where: { id: transaction.id },
+        data: { journalId: journal.id },
+      });
+
+      await this.feesService.charge(tx, {
+        userId: transaction.userId,
+        walletId: wallet.id,
+        operation: FEE_OPERATIONS.DEPOSIT,
+        reference: transaction.reference,
+        amount: transaction.fee,
+      });
+
+      await this.webhookDeliveryService.enqueue(
+        tx,
+        transaction.userId,
+        WEBHOOK_EVENTS.DEPOSIT_SUCCEEDED,
+        {
+          reference: transaction.reference,
+          amount: toMoneyResponse(amount),
+          fee: toMoneyResponse(transaction.fee),
+          status: 'success',
+        },
+      );
+
+      return true;
+    });
+  }
+
+  // Paystack collected a deposit we had already expired. The user may have
+  // paid again on a new deposit since, so hold the money for review instead
+  // of crediting it. False if it was not (or no longer) expired.
+  private async reviewLateDeposit(
+    transaction: { id: string; reference: string },
+    receivedAmount: bigint,
+    receivedCurrency: string | undefined,
+    processorFee: bigint | null,
+    gatewayResponse: string,
+    source: TransitionSource,
+  ): Promise<boolean> {
+    const held = await this.transactionStateService.transition({
+      where: { id: transaction.id },
+      from: 'expired',
+      to: 'requires_review',
+      source,
+      reason: 'Paid after the deposit expired',
+      data: {
+        receivedAmount,
+        receivedCurrency: receivedCurrency ?? DEFAULT_CURRENCY,
+        processorFee,
+        gatewayResponse,
+        completedAt: new Date(),
+      },
+    });
+
+    if (held) {
+      console.warn(
+        `Deposit ${transaction.reference} paid after it expired; held for review`,
+      );
+    }
+
+    return held;
+  }
+
+  // Mark a pending deposit failed; false if it was already settled
+  private failDeposit(
+    transaction: DepositToEnd,
+    gatewayResponse: string,
+    source: TransitionSource,
+  ): Promise<boolean> {
+    return this.endDeposit(transaction, 'failed', gatewayResponse, source, {
+      gatewayResponse,
+    });
+  }
+
+  // Close a pending deposit that brought no money and tell the user's
+  // webhook endpoints; false if it was already settled
+  private endDeposit(
+    transaction: DepositToEnd,
+    to: 'failed' | 'expired',
+    reason: string,
+    source: TransitionSource,
+    data: Record<string, any> = {},
+  ): Promise<boolean> {
+    return this.$transaction(async (tx: Prisma.TransactionClient) => {
+      const ended = await this.transactionStateService.transition(
+        {
+          where: { id: transaction.id },
+          from: 'pending',
+          to,
+          source,
+          reason,
+          data: { ...data, completedAt: new Date() },
+        },
+        tx,
+      );
+
+      if (ended) {
+        await this.webhookDeliveryService.enqueue(
+          tx,
+          transaction.userId,
+          WEBHOOK_EVENTS.DEPOSIT_FAILED,
+          {
+            reference: transaction.reference,
+            amount: toMoneyResponse(transaction.amount),
+            status: to,
+            reason,
+          },
+        );
+      }
+
+      return ended;
+    });
+  }
+
   // Verify deposit status manually (doesn't credit wallet)
   async verifyDepositStatus(reference: string) {
     const transaction = await this.transaction.findUnique({
@@ -290,7 +805,13 @@ export class WalletService extends PrismaClient {
     return {
       reference: transaction.reference,
       status: transaction.status,
-      amount: transaction.amount,
+      amount: toMoneyResponse(transaction.amount, transaction.currency),
+      ...(transaction.receivedAmount !== null && {
+        received_amount: toMoneyResponse(
+          transaction.receivedAmount,
+          transaction.receivedCurrency ?? transaction.currency,
+        ),
+      }),
     };
   }
 
@@ -343,7 +864,7 @@ export class WalletService extends PrismaClient {
         data: {
           userId,
           walletNumber,
-          balance: 0,
+          balance: 0n,
         },
       });
     }
@@ -356,7 +877,8 @@ export class WalletService extends PrismaClient {
     const wallet = await this.getOrCreateWallet(userId);
 
     return {
-      balance: wallet.balance,
+      balance: toMoneyResponse(wallet.balance),
+      ...this.balances(wallet),
       wallet_number: wallet.walletNumber,
     };
   }
@@ -367,17 +889,113 @@ export class WalletService extends PrismaClient {
 
     return {
       wallet_number: wallet.walletNumber,
-      balance: wallet.balance,
+      status: wallet.status,
+      tier: wallet.tier,
+      balance: toMoneyResponse(wallet.balance),
+      ...this.balances(wallet),
       created_at: wallet.createdAt,
     };
   }
 
+  // Ledger balance is everything in the wallet; available leaves out holds
+  private balances(wallet: { balance: bigint; heldBalance: bigint }) {
+    return {
+      available_balance: toMoneyResponse(wallet.balance - wallet.heldBalance),
+      ledger_balance: toMoneyResponse(wallet.balance),
+      held_balance: toMoneyResponse(wallet.heldBalance),
+    };
+  }
+
+  // ==================== WALLET STATUS ====================
+
+  // Move a wallet between active, frozen and closed, recording who and why
+  async changeWalletStatus(
+    walletNumber: string,
+    status: string,
+    reason: string,
+    changedBy: string,
+  ) {
+    const wallet = await this.wallet.findUnique({ where: { walletNumber } });
+
+    if (!wallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    if (wallet.status === status) {
+      throw new BadRequestException(`Wallet is already ${status}`);
+    }
+
+    if (wallet.status === 'closed') {
+      throw new BadRequestException('Closed wallets cannot be reopened');
+    }
+
+    if (
+      status === 'closed' &&
+      (wallet.balance > 0n || wallet.heldBalance > 0n)
+    ) {
+      throw new BadRequestException(
+        'Wallet must be empty with no active holds before it is closed',
+      );
+    }
+
+    await this.$transaction(async (tx: Prisma.TransactionClient) => {
+      const claimed = await tx.wallet.updateMany({
+        where: { id: wallet.id, status: wallet.status },
+        data: { status },
+      });
+
+      if (claimed.count === 0) {
+        throw new ConflictException('Wallet status changed concurrently');
+      }
+
+      await tx.walletStatusChange.create({
+        data: {
+          walletId: wallet.id,
+          fromStatus: wallet.status,
+          toStatus: status,
+          reason,
+          changedBy,
+        },
+      });
+    });
+
+    return this.getWalletStatusHistory(walletNumber);
+  }
+
+  async getWalletStatusHistory(walletNumber: string) {
+    const wallet = await this.wallet.findUnique({
+      where: { walletNumber },
+      include: { statusChanges: { orderBy: { createdAt: 'desc' } } },
+    });
+
+    if (!wallet) {
+      throw new NotFoundException('Wallet not found');
+    }
+
+    return {
+      wallet_number: wallet.walletNumber,
+      status: wallet.status,
+      history: wallet.statusChanges.map((change) => ({
+        from_status: change.fromStatus,
+        to_status: change.toStatus,
+        reason: change.reason,
+        changed_by: change.changedBy,
+        created_at: change.createdAt,
+      })),
+    };
+  }
+
   // ==================== TRANSFER OPERATIONS ====================
 
-  // Transfer between wallets
-  async transfer(fromUserId: string, toWalletNumber: string, amount: number) {
+  // Transfer between wallets (amount in kobo)
+  async transfer(
+    fromUserId: string,
+    toWalletNumber: string,
+    amount: bigint,
+    options: TransferOptions = {},
+  ) {
     // Validate amount first
-    if (amount <= 0) {
+    if (amount <= 0n) {
       throw new BadRequestException('Amount must be greater than zero');
     }
 
@@ -395,104 +1013,68 @@ export class WalletService extends PrismaClient {
       where: { userId: fromUserId },
     });
 
-    if (!senderWallet || senderWallet.balance < amount) {
-      throw new BadRequestException('Insufficient balance');
+    if (senderWallet) {
+      assertWalletCanDebit(senderWallet);
     }
+    assertWalletCanCredit(recipientWallet, 'Recipient wallet');
 
-    const transferData = `${fromUserId}_${toWalletNumber}_${amount}`;
-    const idempotencyKey = `idf_${crypto.createHash('sha256').update(transferData).digest('hex').substring(0, 16)}`;
-
-    // ATOMIC TRANSFER using database transaction
-    const result = await this.$transaction(async (tx) => {
-      //  to prevent race conditions
-      const existingTransfer = await tx.transaction.findFirst({
-        where: {
-          metadata: {
-            path: ['idempotency_key'],
-            equals: idempotencyKey,
-          },
-          status: 'success',
-        },
-      });
-
-      if (existingTransfer) {
-        return {
-          isDuplicate: true,
-          reference: existingTransfer.reference,
-        };
-      }
+    // The fee is always paid from the available balance, even for a hold
+    const fee = await this.feesService.getFee(FEE_OPERATIONS.TRANSFER, amount);
+    const required = options.holdReference ? fee : amount + fee;
 
-      // Get balance  for optimistic locking
-      const freshSenderWallet = await tx.wallet.findUnique({
-        where: { userId: fromUserId },
-      });
-
-      if (!freshSenderWallet || freshSenderWallet.balance < amount) {
-        throw new BadRequestException('Insufficient balance');
-      }
-
-      // Deducting from sender with optimistic locking using fresh balance
-      await tx.wallet.update({
-        where: {
-          userId: fromUserId,
-          balance: freshSenderWallet.balance,
-        },
-        data: {
-          balance: {
-            decrement: amount,
-          },
-        },
-      });
-
-      // Add to recipient
-      await tx.wallet.update({
-        where: { walletNumber: toWalletNumber },
-        data: {
-          balance: {
-            increment: amount,
-          },
-        },
-      });
+    if (
+      !senderWallet ||
+      senderWallet.balance - senderWallet.heldBalance < required
+    ) {
+      throw new BadRequestException('Insufficient balance');
+    }
 
-      // Generate unique transaction references
-      const timestamp = Date.now();
-      const senderReference = `txf_${timestamp}_${fromUserId}`;
-      const recipientReference = `txf_${timestamp}_${recipientWallet.userId}`;
+    const idempotencyKey =
+      options.idempotencyKey ?? `idf_${crypto.randomUUID()}`;
 
-      // save transactions with idempotency key
-      await tx.transaction.createMany({
-        data: [
-          {
+    // ATOMIC TRANSFER using database transaction
+    const result = await this.$transaction(
+      async (tx: Prisma.TransactionClient) => {
+        //  to prevent race conditions
+        const existingTransfer = await tx.transaction.findFirst({
+          where: {
             userId: fromUserId,
             type: 'transfer_out',
-            amount: -amount,
-            status: 'success',
-            reference: senderReference,
             metadata: {
-              to: toWalletNumber,
-              idempotency_key: idempotencyKey,
+              path: ['idempotency_key'],
+              equals: idempotencyKey,
             },
-          },
-          {
-            userId: recipientWallet.userId,
-            type: 'transfer_in',
-            amount: amount,
             status: 'success',
-            reference: recipientReference,
-            metadata: {
-              from: senderWallet.walletNumber,
-              idempotency_key: idempotencyKey,
-            },
           },
-        ],
-      });
+        });
 
-      return {
-        isDuplicate: false,
-        senderReference,
-        recipientReference,
-      };
-    });
+        if (existingTransfer) {
+          return {
+            isDuplicate: true,
+            reference: existingTransfer.reference,
+          } as const;
+        }
+
+        await this.limitsService.assertWithinLimits(
+          fromUserId,
+          LIMIT_OPERATIONS.TRANSFER,
+          amount,
+          tx,
+        );
+
+        const { senderReference } = await this.postTransfer(tx, {
+          fromUserId,
+          senderWallet,
+          recipientWallet,
+          amount,
+          fee,
+          idempotencyKey,
+          holdReference: options.holdReference,
+        });
+
+        return { isDuplicate: false, senderReference } as const;
+      },
+    );
 
     if (result.isDuplicate) {
       return {
@@ -506,25 +1088,249 @@ export class WalletService extends PrismaClient {
       status: 'success',
       message: 'Transfer completed',
       reference: result.senderReference,
+      fee: toMoneyResponse(fee),
     };
   }
 
+  // Post a checked transfer inside the caller's database transaction: the
+  // ledger journal, both transaction records and the fee. The ledger
+  // refuses it if the sender can't cover amount and fee.
+  async postTransfer(tx: Prisma.TransactionClient, input: PostTransferInput) {
+    const { fromUserId, senderWallet, recipientWallet, amount } = input;
+
+    // Check both statuses again under row locks: a wallet frozen or closed
+    // after the caller read it must not be debited or credited
+    const lockedWallets = await tx.$queryRaw<{ id: string; status: string }[]>`
+      SELECT "id", "status" FROM "Wallet"
+      WHERE "id" IN (${senderWallet.id}, ${recipientWallet.id})
+      ORDER BY "id"
+      FOR UPDATE
+    `;
+    for (const locked of lockedWallets) {
+      if (locked.id === senderWallet.id) {
+        assertWalletCanDebit(locked);
+      } else {
+        assertWalletCanCredit(locked, 'Recipient wallet');
+      }
+    }
+
+    // Generate unique transaction references
+    const prefix = input.referencePrefix ?? `txf_${Date.now()}`;
+    const senderReference = `${prefix}_${fromUserId}`;
+    const recipientReference = `${prefix}_${recipientWallet.userId}`;
+
+    // Free the held funds first so the debit below can spend them
+    if (input.holdReference) {
+      await this.holdService.consume(
+        tx,
+        input.holdReference,
+        senderWallet.id,
+        amount,
+      );
+    }
+
+    const senderAccount = await this.ledgerService.getWalletAccount(
+      tx,
+      senderWallet.id,
+    );
+    const recipientAccount = await this.ledgerService.getWalletAccount(
+      tx,
+      recipientWallet.id,
+    );
+
+    // Debit sender, credit recipient; the ledger refuses to overdraw
+    const journal = await this.ledgerService.post(tx, {
+      reference: senderReference,
+      type: JOURNAL_TYPES.TRANSFER,
+      description: `Transfer ${senderWallet.walletNumber} -> ${recipientWallet.walletNumber}`,
+      metadata: { idempotency_key: input.idempotencyKey },
+      lines: [
+        { accountId: senderAccount.id, direction: 'debit', amount },
+        { accountId: recipientAccount.id, direction: 'credit', amount },
+      ],
+    });
+
+    // save transactions with idempotency key
+    await tx.transaction.createMany({
+      data: [
+        {
+          userId: fromUserId,
+          type: 'transfer_out',
+          amount,
+          fee: input.fee,
+          status: 'success',
+          reference: senderReference,
+          journalId: journal.id,
+          metadata: {
+            to: recipientWallet.walletNumber,
+            idempotency_key: input.idempotencyKey,
+            ...(input.holdReference && {
+              hold_reference: input.holdReference,
+            }),
+            ...input.metadata,
+          },
+        },
+        {
+          userId: recipientWallet.userId,
+          type: 'transfer_in',
+          amount,
+          status: 'success',
+          reference: recipientReference,
+          journalId: journal.id,
+          metadata: {
+            from: senderWallet.walletNumber,
+            idempotency_key: input.idempotencyKey,
+            ...input.metadata,
+          },
+        },
+      ],
+    });
+
+    await this.feesService.charge(tx, {
+      userId: fromUserId,
+      walletId: senderWallet.id,
+      operation: FEE_OPERATIONS.TRANSFER,
+      reference: senderReference,
+      amount: input.fee,
+    });
+
+    await this.webhookDeliveryService.enqueue(
+      tx,
+      fromUserId,
+      WEBHOOK_EVENTS.TRANSFER_SENT,
+      {
+        reference: senderReference,
+        amount: toMoneyResponse(amount),
+        fee: toMoneyResponse(input.fee),
+        to: recipientWallet.walletNumber,
+      },
+    );
+    await this.webhookDeliveryService.enqueue(
+      tx,
+      recipientWallet.userId,
+      WEBHOOK_EVENTS.TRANSFER_RECEIVED,
+      {
+        reference: recipientReference,
+        amount: toMoneyResponse(amount),
+        from: senderWallet.walletNumber,
+      },
+    );
+
+    return { senderReference, recipientReference };
+  }
+
+  // Capture all or part of a hold as a transfer to another wallet; the
+  // uncaptured remainder is released
+  async captureHold(
+    userId: string,
+    holdReference: string,
+    toWalletNumber: string,
+    amount?: bigint,
+    idempotencyKey?: string,
+  ) {
+    const hold = await this.holdService.findOwnHold(userId, holdReference);
+    this.holdService.assertUserHold(hold);
+
+    return this.transfer(userId, toWalletNumber, amount ?? hold.amount, {
+      idempotencyKey,
+      holdReference,
+    });
+  }
+
   // ==================== TRANSACTION HISTORY ====================
 
-  // Get transaction history
-  async getTransactionHistory(userId: string) {
+  // Get one page of transaction history, newest first
+  async getTransactionHistory(userId: string, query: TransactionQueryDto) {
+    const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+
+    const where: Record<string, any> = { userId };
+    if (query.type) {
+      where.type = query.type;
+    }
+    if (query.status) {
+      where.status = query.status;
+    }
+    if (query.from || query.to) {
+      where.createdAt = {
+        ...(query.from && { gte: new Date(query.from) }),
+        ...(query.to && { lte: new Date(query.to) }),
+      };
+    }
+    if (query.min_amount !== undefined || query.max_amount !== undefined) {
+      where.amount = {
+        ...(query.min_amount !== undefined && {
+          gte: toMinorUnits(query.min_amount),
+        }),
+        ...(query.max_amount !== undefined && {
+          lte: toMinorUnits(query.max_amount),
+        }),
+      };
+    }
+    if (query.reference) {
+      where.reference = { contains: query.reference, mode: 'insensitive' };
+    }
+
+    // Keyset pagination on (createdAt, id) so pages stay stable under inserts
+    if (query.cursor) {
+      const cursor = this.decodeCursor(query.cursor);
+      where.AND = [
+        {
+          OR: [
+            { createdAt: { lt: cursor.createdAt } },
+            { createdAt: cursor.createdAt, id: { lt: cursor.id } },
+          ],
+        },
+      ];
+    }
+
     const transactions = await this.transaction.findMany({
-      where: { userId },
-      orderBy: { createdAt: 'desc' },
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1,
       select: {
+        id: true,
         type: true,
         amount: true,
+        fee: true,
         status: true,
         createdAt: true,
         reference: true,
       },
     });
 
-    return transactions;
+    const hasMore = transactions.length > limit;
+    const page = hasMore ? transactions.slice(0, limit) : transactions;
+    const last = page[page.length - 1];
+
+    return {
+      items: page.map((transaction) => ({
+        type: transaction.type,
+        amount: toMoneyResponse(transaction.amount),
+        fee: toMoneyResponse(transaction.fee),
+        status: transaction.status,
+        createdAt: transaction.createdAt,
+        reference: transaction.reference,
+      })),
+      next_cursor: hasMore ? this.encodeCursor(last.createdAt, last.id) : null,
+    };
+  }
+
+  private encodeCursor(createdAt: Date, id: string): string {
+    return Buffer.from(`${createdAt.toISOString()}|${id}`).toString(
+      'base64url',
+    );
+  }
+
+  private decodeCursor(cursor: string): { createdAt: Date; id: string } {
+    const [timestamp, id] = Buffer.from(cursor, 'base64url')
+      .toString('utf8')
+      .split('|');
+    const createdAt = new Date(timestamp);
+
+    if (!id || isNaN(createdAt.getTime())) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    return { createdAt, id };
   }
 }
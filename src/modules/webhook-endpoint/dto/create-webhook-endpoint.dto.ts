@@ -0,0 +1,42 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { WEBHOOK_EVENTS } from '../webhook-endpoint.constants';
+
+export class CreateWebhookEndpointDto {
+  @ApiProperty({
+    example: 'https://example.com/webhooks/wallet',
+    description: 'HTTPS URL that receives the events',
+  })
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  @MaxLength(2048)
+  url: string;
+
+  @ApiProperty({
+    example: ['deposit.succeeded', 'transfer.received'],
+    description: 'Events to send to this endpoint',
+    enum: Object.values(WEBHOOK_EVENTS),
+    isArray: true,
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(Object.values(WEBHOOK_EVENTS), { each: true })
+  events: string[];
+
+  @ApiProperty({
+    example: 'Production order service',
+    description: 'What the endpoint is for (optional)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(200)
+  description?: string;
+}
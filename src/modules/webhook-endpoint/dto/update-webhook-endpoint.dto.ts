@@ -0,0 +1,56 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { WEBHOOK_EVENTS } from '../webhook-endpoint.constants';
+
+export class UpdateWebhookEndpointDto {
+  @ApiProperty({
+    example: 'https://example.com/webhooks/wallet',
+    description: 'HTTPS URL that receives the events (optional)',
+    required: false,
+  })
+  @IsUrl({ protocols: ['https'], require_protocol: true })
+  @MaxLength(2048)
+  @IsOptional()
+  url?: string;
+
+  @ApiProperty({
+    example: ['deposit.succeeded', 'deposit.failed'],
+    description: 'Events to send to this endpoint (optional)',
+    enum: Object.values(WEBHOOK_EVENTS),
+    isArray: true,
+    required: false,
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsIn(Object.values(WEBHOOK_EVENTS), { each: true })
+  @IsOptional()
+  events?: string[];
+
+  @ApiProperty({
+    example: 'Production order service',
+    description: 'What the endpoint is for (optional)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(200)
+  description?: string;
+
+  @ApiProperty({
+    example: false,
+    description: 'Pause or resume deliveries (optional)',
+    required: false,
+  })
+  @IsBoolean()
+  @IsOptional()
+  is_active?: boolean;
+}
@@ -0,0 +1,199 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma, PrismaClient } from '@prisma/client';
+import axios from 'axios';
+import * as crypto from 'crypto';
+import { signWebhookPayload } from '../../common/utils/webhook-signature';
+import {
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  WebhookEvent,
+} from './webhook-endpoint.constants';
+
+// Deliveries sent per worker run
+const DELIVERY_BATCH_SIZE = 50;
+
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+// Retries wait 1, 2, 4, ... minutes; after the last attempt the delivery
+// is left failed for the integrator to redeliver
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const MAX_DELIVERY_ATTEMPTS = 10;
+
+// A delivery still sending after this long is assumed to have died with
+// its worker and is picked up again
+const STALE_DELIVERY_MS = 5 * 60 * 1000;
+
+@Injectable()
+export class WebhookDeliveryService extends PrismaClient {
+  constructor() {
+    super();
+  }
+
+  // ==================== ENQUEUE ====================
+
+  // Queue an event for each of the user's active endpoints that subscribe
+  // to it. Runs in the caller's database transaction, so an event is sent
+  // exactly when the change it reports is committed.
+  async enqueue(
+    tx: Prisma.TransactionClient,
+    userId: string,
+    event: WebhookEvent,
+    data: Prisma.InputJsonObject,
+  ) {
+    const endpoints = await tx.webhookEndpoint.findMany({
+      where: { userId, isActive: true, events: { has: event } },
+      select: { id: true },
+    });
+
+    if (endpoints.length === 0) {
+      return;
+    }
+
+    const eventId = `evt_${crypto.randomBytes(12).toString('hex')}`;
+    const payload = {
+      id: eventId,
+      event,
+      created_at: new Date().toISOString(),
+      data,
+    };
+
+    await tx.webhookDelivery.createMany({
+      data: endpoints.map((endpoint) => ({
+        endpointId: endpoint.id,
+        eventId,
+        event,
+        payload,
+        status: 'pending',
+        nextAttemptAt: new Date(),
+      })),
+    });
+  }
+
+  // ==================== DELIVERY ====================
+
+  // Send new deliveries, retries that are due and deliveries left sending
+  // by a worker that died. Deliveries to paused endpoints wait.
+  @Cron(CronExpression.EVERY_MINUTE)
+  async deliverDue() {
+    const deliveries = await this.webhookDelivery.findMany({
+      where: this.dueFilter(),
+      orderBy: { createdAt: 'asc' },
+      take: DELIVERY_BATCH_SIZE,
+      select: { id: true },
+    });
+
+    for (const delivery of deliveries) {
+      try {
+        await this.deliver(delivery.id);
+      } catch (error) {
+        console.error(`Error sending webhook delivery ${delivery.id}:`, error);
+      }
+    }
+  }
+
+  // Deliveries a worker may claim now
+  private dueFilter() {
+    const now = Date.now();
+    return {
+      endpoint: { isActive: true },
+      OR: [
+        {
+          status: { in: ['pending', 'retrying'] },
+          nextAttemptAt: { lte: new Date(now) },
+        },
+        {
+          status: 'delivering',
+          updatedAt: { lte: new Date(now - STALE_DELIVERY_MS) },
+        },
+      ],
+    };
+  }
+
+  // POST the signed payload once. A 2xx response completes the delivery;
+  // anything else schedules a retry until the attempts run out.
+  private async deliver(id: string) {
+    const claimed = await this.webhookDelivery.updateMany({
+      where: { id, ...this.dueFilter() },
+      data: { status: 'delivering', attempts: { increment: 1 } },
+    });
+
+    if (claimed.count === 0) {
+      return;
+    }
+
+    const delivery = await this.webhookDelivery.findUniqueOrThrow({
+      where: { id },
+      include: { endpoint: true },
+    });
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const started = Date.now();
+
+    let statusCode: number | null = null;
+    let error: string | null = null;
+    try {
+      const response = await axios.post(delivery.endpoint.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+            delivery.endpoint.secret,
+            timestamp,
+            body,
+          ),
+        },
+        timeout: DELIVERY_TIMEOUT_MS,
+        maxRedirects: 0,
+        validateStatus: () => true,
+      });
+      statusCode = response.status;
+      if (statusCode < 200 || statusCode >= 300) {
+        error = `Endpoint responded with ${statusCode}`;
+      }
+    } catch (requestError) {
+      error =
+        requestError instanceof Error ? requestError.message : 'Request failed';
+    }
+
+    await this.webhookDeliveryAttempt.create({
+      data: {
+        deliveryId: id,
+        statusCode,
+        error,
+        durationMs: Date.now() - started,
+      },
+    });
+
+    const retry = error !== null && delivery.attempts < MAX_DELIVERY_ATTEMPTS;
+    await this.webhookDelivery.update({
+      where: { id },
+      data: {
+        status: error === null ? 'delivered' : retry ? 'retrying' : 'failed',
+        lastStatusCode: statusCode,
+        lastError: error,
+        nextAttemptAt: retry
+          ? new Date(
+              Date.now() + RETRY_BASE_DELAY_MS * 2 ** (delivery.attempts - 1),
+            )
+          : null,
+        ...(error === null && { deliveredAt: new Date() }),
+      },
+    });
+  }
+
+  // Send a delivery again now, whatever its status
+  async redeliver(id: string) {
+    const requeued = await this.webhookDelivery.updateMany({
+      where: { id, status: { not: 'delivering' } },
+      data: { status: 'pending', nextAttemptAt: new Date() },
+    });
+
+    if (requeued.count === 0) {
+      throw new BadRequestException('Delivery is being sent');
+    }
+
+    await this.deliver(id);
+  }
+}
@@ -0,0 +1,12 @@
+export const WEBHOOK_EVENTS = {
+  DEPOSIT_SUCCEEDED: 'deposit.succeeded',
+  DEPOSIT_FAILED: 'deposit.failed',
+  TRANSFER_RECEIVED: 'transfer.received',
+  TRANSFER_SENT: 'transfer.sent',
+} as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[keyof typeof WEBHOOK_EVENTS];
+
+// Headers sent with every delivery
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-webhook-timestamp';
@@ -0,0 +1,191 @@
+import {
+  Controller,
+  Post,
+  Get,
+  Patch,
+  Delete,
+  UseGuards,
+  Body,
+  Param,
+  Query,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { WebhookEndpointService } from './webhook-endpoint.service';
+import { CreateWebhookEndpointDto } from './dto/create-webhook-endpoint.dto';
+import { UpdateWebhookEndpointDto } from './dto/update-webhook-endpoint.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import type { AuthenticatedUser } from '../auth/decorators/get-user.decorator';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
+import { buildSuccessResponse } from 'src/common/utils/api-response';
+
+@ApiTags('Webhook Endpoints')
+@ApiBearerAuth()
+@ApiSecurity('api_key', ['x-api-key'])
+@Controller('webhooks/endpoints')
+@UseGuards(JwtAuthGuard, ApiKeyGuard)
+@RequirePermission('read')
+export class WebhookEndpointController {
+  constructor(private webhookEndpointService: WebhookEndpointService) {}
+
+  // ==================== ENDPOINTS ====================
+
+  @Post()
+  @ApiOperation({
+    summary: 'Register a URL for wallet events; returns its signing secret',
+  })
+  @ApiResponse({ status: 200, description: 'Webhook endpoint created' })
+  @ApiResponse({ status: 400, description: 'Invalid URL or unknown event' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions or too many endpoints',
+  })
+  async create(
+    @GetUser() user: AuthenticatedUser,
+    @Body() dto: CreateWebhookEndpointDto,
+  ) {
+    const result = await this.webhookEndpointService.createEndpoint(
+      user.id,
+      dto,
+    );
+    return buildSuccessResponse('Webhook endpoint created', result);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List your webhook endpoints' })
+  @ApiResponse({ status: 200, description: 'Webhook endpoints retrieved' })
+  async getEndpoints(@GetUser() user: AuthenticatedUser) {
+    const result = await this.webhookEndpointService.getEndpoints(user.id);
+    return buildSuccessResponse('Webhook endpoints retrieved', result);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a webhook endpoint' })
+  @ApiResponse({ status: 200, description: 'Webhook endpoint retrieved' })
+  @ApiResponse({ status: 404, description: 'Webhook endpoint not found' })
+  @ApiParam({ name: 'id', description: 'Webhook endpoint id' })
+  async getEndpoint(
+    @GetUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    const result = await this.webhookEndpointService.getEndpoint(user.id, id);
+    return buildSuccessResponse('Webhook endpoint retrieved', result);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Change the URL or events, or pause the endpoint' })
+  @ApiResponse({ status: 200, description: 'Webhook endpoint updated' })
+  @ApiResponse({ status: 404, description: 'Webhook endpoint not found' })
+  @ApiParam({ name: 'id', description: 'Webhook endpoint id' })
+  async update(
+    @GetUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Body() dto: UpdateWebhookEndpointDto,
+  ) {
+    const result = await this.webhookEndpointService.updateEndpoint(
+      user.id,
+      id,
+      dto,
+    );
+    return buildSuccessResponse('Webhook endpoint updated', result);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a webhook endpoint and its delivery log' })
+  @ApiResponse({ status: 200, description: 'Webhook endpoint deleted' })
+  @ApiResponse({ status: 404, description: 'Webhook endpoint not found' })
+  @ApiParam({ name: 'id', description: 'Webhook endpoint id' })
+  async delete(@GetUser() user: AuthenticatedUser, @Param('id') id: string) {
+    await this.webhookEndpointService.deleteEndpoint(user.id, id);
+    return buildSuccessResponse('Webhook endpoint deleted');
+  }
+
+  @Post(':id/rotate-secret')
+  @ApiOperation({ summary: 'Replace the signing secret; returns the new one' })
+  @ApiResponse({ status: 200, description: 'Signing secret rotated' })
+  @ApiResponse({ status: 404, description: 'Webhook endpoint not found' })
+  @ApiParam({ name: 'id', description: 'Webhook endpoint id' })
+  async rotateSecret(
+    @GetUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+  ) {
+    const result = await this.webhookEndpointService.rotateSecret(user.id, id);
+    return buildSuccessResponse('Signing secret rotated', result);
+  }
+
+  // ==================== DELIVERIES ====================
+
+  @Get(':id/deliveries')
+  @ApiOperation({ summary: 'Latest 100 deliveries to an endpoint' })
+  @ApiResponse({ status: 200, description: 'Deliveries retrieved' })
+  @ApiResponse({ status: 404, description: 'Webhook endpoint not found' })
+  @ApiParam({ name: 'id', description: 'Webhook endpoint id' })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    description: 'pending, delivering, delivered, retrying or failed',
+  })
+  async getDeliveries(
+    @GetUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Query('status') status?: string,
+  ) {
+    const result = await this.webhookEndpointService.getDeliveries(
+      user.id,
+      id,
+      status,
+    );
+    return buildSuccessResponse('Deliveries retrieved', result);
+  }
+
+  @Get(':id/deliveries/:deliveryId')
+  @ApiOperation({ summary: 'Get a delivery with its payload and attempts' })
+  @ApiResponse({ status: 200, description: 'Delivery retrieved' })
+  @ApiResponse({ status: 404, description: 'Delivery not found' })
+  @ApiParam({ name: 'id', description: 'Webhook endpoint id' })
+  @ApiParam({ name: 'deliveryId', description: 'Delivery id' })
+  async getDelivery(
+    @GetUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Param('deliveryId') deliveryId: string,
+  ) {
+    const result = await this.webhookEndpointService.getDelivery(
+      user.id,
+      id,
+      deliveryId,
+    );
+    return buildSuccessResponse('Delivery retrieved', result);
+  }
+
+  @Post(':id/deliveries/:deliveryId/redeliver')
+  @ApiOperation({ summary: 'Send a delivery again now' })
+  @ApiResponse({ status: 200, description: 'Delivery sent' })
+  @ApiResponse({
+    status: 400,
+    description: 'Endpoint disabled or delivery being sent',
+  })
+  @ApiResponse({ status: 404, description: 'Delivery not found' })
+  @ApiParam({ name: 'id', description: 'Webhook endpoint id' })
+  @ApiParam({ name: 'deliveryId', description: 'Delivery id' })
+  async redeliver(
+    @GetUser() user: AuthenticatedUser,
+    @Param('id') id: string,
+    @Param('deliveryId') deliveryId: string,
+  ) {
+    const result = await this.webhookEndpointService.redeliver(
+      user.id,
+      id,
+      deliveryId,
+    );
+    return buildSuccessResponse('Delivery sent', result);
+  }
+}
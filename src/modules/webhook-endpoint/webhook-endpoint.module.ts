@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { WebhookEndpointController } from './webhook-endpoint.controller';
+import { WebhookEndpointService } from './webhook-endpoint.service';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+
+@Module({
+  controllers: [WebhookEndpointController],
+  providers: [WebhookEndpointService, WebhookDeliveryService],
+  exports: [WebhookDeliveryService],
+})
+export class WebhookEndpointModule {}
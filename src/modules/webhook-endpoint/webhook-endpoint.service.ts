@@ -0,0 +1,200 @@
+import {
+  Injectable,
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaClient, WebhookDelivery, WebhookEndpoint } from '@prisma/client';
+import * as crypto from 'crypto';
+import { WebhookDeliveryService } from './webhook-delivery.service';
+import { CreateWebhookEndpointDto } from './dto/create-webhook-endpoint.dto';
+import { UpdateWebhookEndpointDto } from './dto/update-webhook-endpoint.dto';
+
+const MAX_ENDPOINTS_PER_USER = 10;
+
+const MAX_LISTED_DELIVERIES = 100;
+
+@Injectable()
+export class WebhookEndpointService extends PrismaClient {
+  constructor(private webhookDeliveryService: WebhookDeliveryService) {
+    super();
+  }
+
+  // ==================== ENDPOINTS ====================
+
+  // The signing secret is only returned here and on rotation
+  async createEndpoint(userId: string, dto: CreateWebhookEndpointDto) {
+    const count = await this.webhookEndpoint.count({ where: { userId } });
+
+    if (count >= MAX_ENDPOINTS_PER_USER) {
+      throw new ForbiddenException(
+        `Maximum ${MAX_ENDPOINTS_PER_USER} webhook endpoints allowed per user`,
+      );
+    }
+
+    const endpoint = await this.webhookEndpoint.create({
+      data: {
+        userId,
+        url: dto.url,
+        description: dto.description,
+        events: [...new Set(dto.events)],
+        secret: this.generateSecret(),
+      },
+    });
+
+    return { ...this.toResponse(endpoint), secret: endpoint.secret };
+  }
+
+  async getEndpoints(userId: string) {
+    const endpoints = await this.webhookEndpoint.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return endpoints.map((endpoint) => this.toResponse(endpoint));
+  }
+
+  async getEndpoint(userId: string, id: string) {
+    return this.toResponse(await this.findEndpoint(userId, id));
+  }
+
+  async updateEndpoint(
+    userId: string,
+    id: string,
+    dto: UpdateWebhookEndpointDto,
+  ) {
+    await this.findEndpoint(userId, id);
+
+    const endpoint = await this.webhookEndpoint.update({
+      where: { id },
+      data: {
+        url: dto.url,
+        description: dto.description,
+        events: dto.events ? [...new Set(dto.events)] : undefined,
+        isActive: dto.is_active,
+      },
+    });
+
+    return this.toResponse(endpoint);
+  }
+
+  // Deletes the endpoint with its delivery log
+  async deleteEndpoint(userId: string, id: string) {
+    await this.findEndpoint(userId, id);
+    await this.webhookEndpoint.delete({ where: { id } });
+  }
+
+  // Replace the signing secret. Deliveries from now on, including retries
+  // of earlier events, are signed with the new one.
+  async rotateSecret(userId: string, id: string) {
+    await this.findEndpoint(userId, id);
+
+    const endpoint = await this.webhookEndpoint.update({
+      where: { id },
+      data: { secret: this.generateSecret() },
+    });
+
+    return { ...this.toResponse(endpoint), secret: endpoint.secret };
+  }
+
+  private async findEndpoint(userId: string, id: string) {
+    const endpoint = await this.webhookEndpoint.findFirst({
+      where: { id, userId },
+    });
+
+    if (!endpoint) {
+      throw new NotFoundException('Webhook endpoint not found');
+    }
+
+    return endpoint;
+  }
+
+  private generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  }
+
+  // ==================== DELIVERIES ====================
+
+  async getDeliveries(userId: string, endpointId: string, status?: string) {
+    await this.findEndpoint(userId, endpointId);
+
+    const deliveries = await this.webhookDelivery.findMany({
+      where: { endpointId, ...(status && { status }) },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_LISTED_DELIVERIES,
+    });
+
+    return deliveries.map((delivery) => this.toDeliveryResponse(delivery));
+  }
+
+  async getDelivery(userId: string, endpointId: string, id: string) {
+    await this.findEndpoint(userId, endpointId);
+
+    const delivery = await this.webhookDelivery.findFirst({
+      where: { id, endpointId },
+      include: { attemptLog: { orderBy: { createdAt: 'asc' } } },
+    });
+
+    if (!delivery) {
+      throw new NotFoundException('Delivery not found');
+    }
+
+    return {
+      ...this.toDeliveryResponse(delivery),
+      payload: delivery.payload,
+      attempt_log: delivery.attemptLog.map((attempt) => ({
+        status_code: attempt.statusCode,
+        error: attempt.error,
+        duration_ms: attempt.durationMs,
+        created_at: attempt.createdAt,
+      })),
+    };
+  }
+
+  async redeliver(userId: string, endpointId: string, id: string) {
+    const endpoint = await this.findEndpoint(userId, endpointId);
+
+    if (!endpoint.isActive) {
+      throw new BadRequestException('Webhook endpoint is disabled');
+    }
+
+    const delivery = await this.webhookDelivery.findFirst({
+      where: { id, endpointId },
+    });
+
+    if (!delivery) {
+      throw new NotFoundException('Delivery not found');
+    }
+
+    await this.webhookDeliveryService.redeliver(id);
+
+    return this.getDelivery(userId, endpointId, id);
+  }
+
+  private toResponse(endpoint: WebhookEndpoint) {
+    return {
+      id: endpoint.id,
+      url: endpoint.url,
+      description: endpoint.description,
+      events: endpoint.events,
+      is_active: endpoint.isActive,
+      created_at: endpoint.createdAt,
+      updated_at: endpoint.updatedAt,
+    };
+  }
+
+  private toDeliveryResponse(delivery: WebhookDelivery) {
+    return {
+      id: delivery.id,
+      event_id: delivery.eventId,
+      event: delivery.event,
+      status: delivery.status,
+      attempts: delivery.attempts,
+      last_status_code: delivery.lastStatusCode,
+      last_error: delivery.lastError,
+      next_attempt_at: delivery.nextAttemptAt,
+      delivered_at: delivery.deliveredAt,
+      created_at: delivery.createdAt,
+    };
+  }
+}
@@ -0,0 +1,57 @@
+import {
+  Controller,
+  Post,
+  Req,
+  Headers,
+  BadRequestException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiHeader } from '@nestjs/swagger';
+import type { RawBodyRequest } from '@nestjs/common';
+import type { Request } from 'express';
+import { PaystackService } from '../paystack/paystack.service';
+import { WebhookEventService } from './webhook-event.service';
+import { buildSuccessResponse } from 'src/common/utils/api-response';
+
+@ApiTags('Webhooks')
+@Controller('wallet/paystack')
+export class PaystackWebhookController {
+  constructor(
+    private paystackService: PaystackService,
+    private webhookEventService: WebhookEventService,
+  ) {}
+
+  //====================== PAYSTACK WEBHOOK ====================
+  @Post('webhook')
+  @ApiOperation({
+    summary: 'Store a Paystack webhook event and process it in the background',
+  })
+  @ApiResponse({ status: 200, description: 'Webhook received' })
+  @ApiResponse({ status: 400, description: 'Bad request - Invalid signature' })
+  @ApiHeader({
+    name: 'x-paystack-signature',
+    description: 'Paystack signature for verification',
+  })
+  async paystackWebhook(
+    @Req() req: RawBodyRequest<Request>,
+    @Headers('x-paystack-signature') signature: string,
+  ) {
+    if (!signature) {
+      throw new BadRequestException('No signature header');
+    }
+
+    // Get raw body as string for signature verification
+    const rawBody = req.rawBody?.toString('utf8') || '';
+
+    // Verify signature
+    const isValid = this.paystackService.verifySignature(rawBody, signature);
+
+    if (!isValid) {
+      throw new BadRequestException('Invalid signature');
+    }
+
+    // Store the event; processing failures are retried from the store, so
+    // Paystack only needs to redeliver if this fails
+    const result = await this.webhookEventService.receive(rawBody);
+    return buildSuccessResponse('Webhook received', result);
+  }
+}
@@ -0,0 +1,76 @@
+import { Injectable } from '@nestjs/common';
+import { WalletService } from '../wallet/wallet.service';
+import { WithdrawalService } from '../withdrawal/withdrawal.service';
+import { RefundService } from '../refund/refund.service';
+import { DisputeService } from '../dispute/dispute.service';
+import { SubscriptionService } from '../subscription/subscription.service';
+import { WebhookHandlerResult } from '../../common/utils/webhook-result';
+import {
+  PaystackDispute,
+  PaystackInvoice,
+  PaystackRefund,
+  PaystackSubscription,
+  PaystackTransaction,
+  PaystackTransfer,
+} from '../paystack/paystack.types';
+
+@Injectable()
+export class PaystackWebhookService {
+  constructor(
+    private walletService: WalletService,
+    private withdrawalService: WithdrawalService,
+    private refundService: RefundService,
+    private disputeService: DisputeService,
+    private subscriptionService: SubscriptionService,
+  ) {}
+
+  // Route a verified Paystack event to the subsystem that owns it
+  async dispatch(event: string, data: unknown): Promise<WebhookHandlerResult> {
+    // Checked before charge.* so disputes never reach the deposit handler
+    if (event.startsWith('charge.dispute.')) {
+      return this.disputeService.handleDisputeEvent(
+        event,
+        data as PaystackDispute,
+      );
+    }
+
+    // Plan charges are not deposits; the invoice.* events that come with
+    // them record the payment
+    if (
+      event.startsWith('charge.') &&
+      (data as PaystackTransaction).plan?.plan_code
+    ) {
+      return { status: true, message: 'Event ignored' };
+    }
+
+    if (event.startsWith('charge.')) {
+      return this.walletService.handleChargeEvent(
+        event,
+        data as PaystackTransaction,
+      );
+    }
+
+    if (event.startsWith('transfer.')) {
+      return this.withdrawalService.handleTransferEvent(
+        event,
+        data as PaystackTransfer,
+      );
+    }
+
+    if (event.startsWith('refund.')) {
+      return this.refundService.handleRefundEvent(
+        event,
+        data as PaystackRefund,
+      );
+    }
+
+    if (event.startsWith('subscription.') || event.startsWith('invoice.')) {
+      return this.subscriptionService.handleSubscriptionEvent(
+        event,
+        data as PaystackSubscription | PaystackInvoice,
+      );
+    }
+
+    return { status: true, message: 'Event ignored' };
+  }
+}
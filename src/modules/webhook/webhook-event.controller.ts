@@ -0,0 +1,70 @@
+import { Controller, Get, Post, UseGuards, Param, Query } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiParam,
+  ApiQuery,
+} from '@nestjs/swagger';
+import { WebhookEventService } from './webhook-event.service';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { AdminGuard } from '../auth/guards/admin.guard';
+import { buildSuccessResponse } from 'src/common/utils/api-response';
+
+@ApiTags('Webhook Events')
+@ApiBearerAuth()
+@ApiSecurity('api_key', ['x-api-key'])
+@Controller('admin/webhook-events')
+@UseGuards(JwtAuthGuard, ApiKeyGuard, AdminGuard)
+export class WebhookEventController {
+  constructor(private readonly webhookEventService: WebhookEventService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the latest 100 Paystack webhook events' })
+  @ApiResponse({ status: 200, description: 'Webhook events retrieved' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin access required',
+  })
+  @ApiQuery({
+    name: 'status',
+    required: false,
+    description: 'pending, processing, processed, retrying or failed',
+  })
+  @ApiQuery({
+    name: 'event',
+    required: false,
+    description: 'Event type, e.g. charge.success',
+  })
+  async getEvents(
+    @Query('status') status?: string,
+    @Query('event') event?: string,
+  ) {
+    const result = await this.webhookEventService.getEvents({ status, event });
+    return buildSuccessResponse('Webhook events retrieved', result);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a webhook event with its payload' })
+  @ApiResponse({ status: 200, description: 'Webhook event retrieved' })
+  @ApiResponse({ status: 404, description: 'Webhook event not found' })
+  @ApiParam({ name: 'id', description: 'Webhook event id' })
+  async getEvent(@Param('id') id: string) {
+    const result = await this.webhookEventService.getEvent(id);
+    return buildSuccessResponse('Webhook event retrieved', result);
+  }
+
+  @Post(':id/replay')
+  @ApiOperation({ summary: 'Process a webhook event again now' })
+  @ApiResponse({ status: 200, description: 'Webhook event replayed' })
+  @ApiResponse({ status: 400, description: 'Event is being processed' })
+  @ApiResponse({ status: 404, description: 'Webhook event not found' })
+  @ApiParam({ name: 'id', description: 'Webhook event id' })
+  async replay(@Param('id') id: string) {
+    const result = await this.webhookEventService.replay(id);
+    return buildSuccessResponse('Webhook event replayed', result);
+  }
+}
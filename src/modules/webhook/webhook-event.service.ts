@@ -0,0 +1,261 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { PaystackWebhookEvent, PrismaClient } from '@prisma/client';
+import * as crypto from 'crypto';
+import { isUniqueViolation } from '../../common/utils/prisma-errors';
+import { PaystackWebhookPayload } from '../paystack/paystack.types';
+import { PaystackWebhookService } from './paystack-webhook.service';
+
+// Events processed per worker run
+const PROCESS_BATCH_SIZE = 50;
+
+// Delay before each retry; an event that fails once more is left failed
+// for an admin to replay
+const RETRY_DELAYS_MS = [
+  60 * 1000,
+  5 * 60 * 1000,
+  30 * 60 * 1000,
+  2 * 60 * 60 * 1000,
+  12 * 60 * 60 * 1000,
+];
+
+// An event still processing after this long is assumed to have died with
+// its worker and is picked up again
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
+const MAX_LISTED_EVENTS = 100;
+
+@Injectable()
+export class WebhookEventService extends PrismaClient {
+  constructor(private paystackWebhookService: PaystackWebhookService) {
+    super();
+  }
+
+  // ==================== INTAKE ====================
+
+  // Store a verified webhook and start processing it without holding up
+  // the response. An event seen before is not stored or processed again.
+  async receive(rawBody: string) {
+    const payload = JSON.parse(rawBody) as PaystackWebhookPayload;
+    const eventKey = this.eventKey(payload, rawBody);
+
+    let stored: { id: string };
+    try {
+      stored = await this.paystackWebhookEvent.create({
+        data: {
+          eventKey,
+          event: payload.event ?? 'unknown',
+          payload,
+          status: 'pending',
+          nextAttemptAt: new Date(),
+        },
+      });
+    } catch (error) {
+      if (!isUniqueViolation(error)) {
+        throw error;
+      }
+
+      const existing = await this.paystackWebhookEvent.findUnique({
+        where: { eventKey },
+      });
+      if (!existing) {
+        throw error;
+      }
+      return { id: existing.id, duplicate: true };
+    }
+
+    this.processEvent(stored.id).catch((error) =>
+      console.error(`Error processing Paystack webhook ${stored.id}:`, error),
+    );
+
+    return { id: stored.id, duplicate: false };
+  }
+
+  // A resent event can differ in its body (timestamps, logs), so it is
+  // recognised by its type, what it is about and the state it reports.
+  // Later updates to the same subject (invoice.update, a second
+  // charge.dispute.remind) carry a new status or update time and are kept.
+  private eventKey(payload: PaystackWebhookPayload, rawBody: string) {
+    const data: NonNullable<PaystackWebhookPayload['data']> =
+      payload.data ?? {};
+    const subject = data.id ?? data.reference;
+
+    if (subject === undefined || subject === null) {
+      return crypto.createHash('sha256').update(rawBody).digest('hex');
+    }
+
+    const updatedAt = data.updatedAt ?? data.updated_at ?? '';
+    return `${payload.event}:${subject}:${data.status ?? ''}:${updatedAt}`;
+  }
+
+  // ==================== PROCESSING ====================
+
+  // Pick up new events the intake didn't finish, retries that are due and
+  // events left processing by a worker that died
+  @Cron(CronExpression.EVERY_MINUTE)
+  async processDueEvents() {
+    const events = await this.paystackWebhookEvent.findMany({
+      where: this.dueFilter(),
+      orderBy: { receivedAt: 'asc' },
+      take: PROCESS_BATCH_SIZE,
+      select: { id: true },
+    });
+
+    for (const event of events) {
+      try {
+        await this.processEvent(event.id);
+      } catch (error) {
+        console.error(`Error processing Paystack webhook ${event.id}:`, error);
+      }
+    }
+  }
+
+  // Events a worker may claim now
+  private dueFilter() {
+    const now = Date.now();
+    return {
+      OR: [
+        {
+          status: { in: ['pending', 'retrying'] },
+          nextAttemptAt: { lte: new Date(now) },
+        },
+        {
+          status: 'processing',
+          updatedAt: { lte: new Date(now - STALE_PROCESSING_MS) },
+        },
+      ],
+    };
+  }
+
+  // Claim the event and dispatch it. Returns the handler's result, or null
+  // if another worker holds the event.
+  private async processEvent(id: string) {
+    const claimed = await this.paystackWebhookEvent.updateMany({
+      where: { id, ...this.dueFilter() },
+      data: { status: 'processing', attempts: { increment: 1 } },
+    });
+
+    if (claimed.count === 0) {
+      return null;
+    }
+
+    const event = await this.paystackWebhookEvent.findUniqueOrThrow({
+      where: { id },
+    });
+    const payload = event.payload as PaystackWebhookPayload;
+
+    try {
+      const result = await this.paystackWebhookService.dispatch(
+        event.event,
+        payload.data,
+      );
+
+      // An event about a record we don't have is closed as ignored rather
+      // than retried
+      await this.paystackWebhookEvent.update({
+        where: { id },
+        data: {
+          status: 'processed',
+          lastError: null,
+          note: result.unknownReference ? `Ignored: ${result.message}` : null,
+          nextAttemptAt: null,
+          processedAt: new Date(),
+        },
+      });
+
+      return result;
+    } catch (error) {
+      console.error(`Error processing Paystack webhook ${id}:`, error);
+
+      const delay = RETRY_DELAYS_MS[event.attempts - 1];
+      await this.paystackWebhookEvent.update({
+        where: { id },
+        data: {
+          status: delay !== undefined ? 'retrying' : 'failed',
+          lastError:
+            error instanceof Error ? error.message : 'Processing failed',
+          nextAttemptAt:
+            delay !== undefined ? new Date(Date.now() + delay) : null,
+        },
+      });
+
+      return null;
+    }
+  }
+
+  // ==================== ADMIN ====================
+
+  // Process an event again now, whatever its status. Handlers are
+  // idempotent, so replaying a processed event changes nothing.
+  async replay(id: string) {
+    const event = await this.paystackWebhookEvent.findUnique({
+      where: { id },
+    });
+
+    if (!event) {
+      throw new NotFoundException('Webhook event not found');
+    }
+
+    const requeued = await this.paystackWebhookEvent.updateMany({
+      where: { id, status: { not: 'processing' } },
+      data: { status: 'pending', nextAttemptAt: new Date() },
+    });
+
+    if (requeued.count === 0) {
+      throw new BadRequestException('Webhook event is being processed');
+    }
+
+    const result = await this.processEvent(id);
+
+    return {
+      ...(await this.getEvent(id)),
+      result,
+    };
+  }
+
+  async getEvents(filters: { status?: string; event?: string }) {
+    const events = await this.paystackWebhookEvent.findMany({
+      where: {
+        ...(filters.status && { status: filters.status }),
+        ...(filters.event && { event: filters.event }),
+      },
+      orderBy: { receivedAt: 'desc' },
+      take: MAX_LISTED_EVENTS,
+    });
+
+    return events.map((event) => this.toResponse(event));
+  }
+
+  async getEvent(id: string) {
+    const event = await this.paystackWebhookEvent.findUnique({
+      where: { id },
+    });
+
+    if (!event) {
+      throw new NotFoundException('Webhook event not found');
+    }
+
+    return { ...this.toResponse(event), payload: event.payload };
+  }
+
+  private toResponse(event: PaystackWebhookEvent) {
+    const payload = event.payload as PaystackWebhookPayload;
+
+    return {
+      id: event.id,
+      event: event.event,
+      reference: payload.data?.reference ?? null,
+      status: event.status,
+      attempts: event.attempts,
+      last_error: event.lastError,
+      note: event.note,
+      next_attempt_at: event.nextAttemptAt,
+      received_at: event.receivedAt,
+      processed_at: event.processedAt,
+    };
+  }
+}
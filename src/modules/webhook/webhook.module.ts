@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { PaystackWebhookController } from './paystack-webhook.controller';
+import { PaystackWebhookService } from './paystack-webhook.service';
+import { WebhookEventController } from './webhook-event.controller';
+import { WebhookEventService } from './webhook-event.service';
+import { PaystackModule } from '../paystack/paystack.module';
+import { WalletModule } from '../wallet/wallet.module';
+import { WithdrawalModule } from '../withdrawal/withdrawal.module';
+import { RefundModule } from '../refund/refund.module';
+import { DisputeModule } from '../dispute/dispute.module';
+import { SubscriptionModule } from '../subscription/subscription.module';
+
+@Module({
+  imports: [
+    PaystackModule,
+    WalletModule,
+    WithdrawalModule,
+    RefundModule,
+    DisputeModule,
+    SubscriptionModule,
+  ],
+  controllers: [PaystackWebhookController, WebhookEventController],
+  providers: [PaystackWebhookService, WebhookEventService],
+})
+export class WebhookModule {}
@@ -0,0 +1,58 @@
+import { Controller, Get, UseGuards, Query } from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+} from '@nestjs/swagger';
+import { BankService } from './bank.service';
+import { ResolveAccountDto } from './dto/resolve-account.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
+import { buildSuccessResponse } from 'src/common/utils/api-response';
+
+@ApiTags('Banks')
+@Controller('wallet/banks')
+export class BankController {
+  constructor(private bankService: BankService) {}
+
+  @Get()
+  @UseGuards(JwtAuthGuard, ApiKeyGuard)
+  @RequirePermission('read')
+  @ApiBearerAuth()
+  @ApiSecurity('api_key', ['x-api-key'])
+  @ApiOperation({ summary: 'List banks available for withdrawals' })
+  @ApiResponse({ status: 200, description: 'Banks retrieved' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async listBanks() {
+    const result = await this.bankService.listBanks();
+    return buildSuccessResponse('Banks retrieved', result);
+  }
+
+  @Get('resolve')
+  @UseGuards(JwtAuthGuard, ApiKeyGuard)
+  @RequirePermission('read')
+  @ApiBearerAuth()
+  @ApiSecurity('api_key', ['x-api-key'])
+  @ApiOperation({ summary: "Resolve a bank account holder's name" })
+  @ApiResponse({ status: 200, description: 'Account resolved' })
+  @ApiResponse({ status: 400, description: 'Account could not be resolved' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async resolveAccount(@Query() query: ResolveAccountDto) {
+    const result = await this.bankService.resolveAccount(
+      query.account_number,
+      query.bank_code,
+    );
+    return buildSuccessResponse('Account resolved', result);
+  }
+}
@@ -0,0 +1,103 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { AppConfig } from '../../config/app.config';
+import { TtlCache } from '../../common/utils/ttl-cache';
+import { PaystackService } from '../paystack/paystack.service';
+import {
+  PaystackBank,
+  PaystackResolvedAccount,
+} from '../paystack/paystack.types';
+
+export interface Bank {
+  name: string;
+  code: string;
+  slug: string;
+  type: string;
+  currency: string;
+}
+
+export interface ResolvedAccount {
+  account_number: string;
+  account_name: string;
+  bank_code: string;
+}
+
+@Injectable()
+export class BankService {
+  private readonly bankCache: TtlCache<Bank[]>;
+  private readonly accountCache: TtlCache<ResolvedAccount>;
+
+  constructor(
+    private config: ConfigService,
+    private paystackService: PaystackService,
+  ) {
+    const appConfig = this.config.get<AppConfig>('app');
+    if (!appConfig) {
+      throw new Error('App configuration not found');
+    }
+    this.bankCache = new TtlCache(appConfig.bankListCacheTtlSeconds * 1000);
+    this.accountCache = new TtlCache(
+      appConfig.accountResolveCacheTtlSeconds * 1000,
+    );
+  }
+
+  // List active Nigerian banks (cached)
+  async listBanks(): Promise<Bank[]> {
+    const cached = this.bankCache.get('nigeria');
+    if (cached) {
+      return cached;
+    }
+
+    let banks: PaystackBank[];
+    try {
+      banks = await this.paystackService.listBanks('nigeria');
+    } catch (error) {
+      console.error('Error fetching banks from Paystack:', error);
+      throw new BadRequestException('Unable to fetch bank list');
+    }
+
+    const result = banks
+      .filter((bank) => bank.active && !bank.is_deleted)
+      .map((bank) => ({
+        name: bank.name,
+        code: bank.code,
+        slug: bank.slug,
+        type: bank.type,
+        currency: bank.currency,
+      }));
+
+    this.bankCache.set('nigeria', result);
+    return result;
+  }
+
+  // Resolve the account holder's name (cached per bank and account)
+  async resolveAccount(
+    accountNumber: string,
+    bankCode: string,
+  ): Promise<ResolvedAccount> {
+    const cacheKey = `${bankCode}:${accountNumber}`;
+    const cached = this.accountCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    let account: PaystackResolvedAccount;
+    try {
+      account = await this.paystackService.resolveAccount(
+        accountNumber,
+        bankCode,
+      );
+    } catch {
+      throw new BadRequestException('Unable to resolve bank account');
+    }
+
+    const result = {
+      account_number: account.account_number,
+      account_name: account.account_name,
+      bank_code: bankCode,
+    };
+
+    this.accountCache.set(cacheKey, result);
+    return result;
+  }
+}
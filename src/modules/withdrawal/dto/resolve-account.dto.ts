@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsNotEmpty, Matches } from 'class-validator';
+
+export class ResolveAccountDto {
+  @ApiProperty({
+    example: '0123456789',
+    description: '10-digit NUBAN account number',
+  })
+  @Matches(/^\d{10}$/, { message: 'account_number must be 10 digits' })
+  account_number: string;
+
+  @ApiProperty({
+    example: '058',
+    description: 'Paystack bank code',
+  })
+  @IsString()
+  @IsNotEmpty()
+  bank_code: string;
+}
@@ -0,0 +1,48 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsPositive,
+  IsString,
+  IsNotEmpty,
+  IsOptional,
+  Matches,
+  MaxLength,
+  Max,
+} from 'class-validator';
+import { MAX_MINOR_UNITS } from '../../../common/utils/money';
+
+export class WithdrawDto {
+  @ApiProperty({
+    example: 500000,
+    description: 'Withdrawal amount in kobo (100 kobo = 1 Naira)',
+  })
+  @IsInt()
+  @IsPositive()
+  @Max(MAX_MINOR_UNITS)
+  amount: number;
+
+  @ApiProperty({
+    example: '058',
+    description: 'Paystack bank code of the destination bank',
+  })
+  @IsString()
+  @IsNotEmpty()
+  bank_code: string;
+
+  @ApiProperty({
+    example: '0123456789',
+    description: '10-digit NUBAN account number',
+  })
+  @Matches(/^\d{10}$/, { message: 'account_number must be 10 digits' })
+  account_number: string;
+
+  @ApiProperty({
+    example: 'Savings',
+    description: 'Narration shown on the transfer (optional)',
+    required: false,
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(100)
+  reason?: string;
+}
@@ -0,0 +1,110 @@
+import {
+  Controller,
+  Post,
+  Get,
+  UseGuards,
+  Headers,
+  Body,
+  Param,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiParam,
+  ApiHeader,
+} from '@nestjs/swagger';
+import { WithdrawalService } from './withdrawal.service';
+import { WithdrawDto } from './dto/withdraw.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ApiKeyGuard } from '../auth/guards/api-key.guard';
+import { GetUser } from '../auth/decorators/get-user.decorator';
+import type { AuthenticatedUser } from '../auth/decorators/get-user.decorator';
+import { RequirePermission } from '../auth/decorators/require-permission.decorator';
+import { IdempotencyService } from '../idempotency/idempotency.service';
+import { IDEMPOTENCY_HEADER } from '../idempotency/idempotency.constants';
+import { buildSuccessResponse } from 'src/common/utils/api-response';
+import { toMinorUnits } from 'src/common/utils/money';
+
+@ApiTags('Withdrawals')
+@Controller('wallet/withdrawals')
+export class WithdrawalController {
+  constructor(
+    private withdrawalService: WithdrawalService,
+    private idempotencyService: IdempotencyService,
+  ) {}
+
+  @Post()
+  @UseGuards(JwtAuthGuard, ApiKeyGuard)
+  @RequirePermission('withdraw')
+  @ApiBearerAuth()
+  @ApiSecurity('api_key', ['x-api-key'])
+  @ApiOperation({ summary: 'Withdraw funds to a Nigerian bank account' })
+  @ApiHeader(IDEMPOTENCY_HEADER)
+  @ApiResponse({ status: 200, description: 'Withdrawal initiated' })
+  @ApiResponse({
+    status: 400,
+    description: 'Insufficient balance or invalid account',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Insufficient permissions',
+  })
+  async withdraw(
+    @GetUser() user: AuthenticatedUser,
+    @Body() dto: WithdrawDto,
+    @Headers('idempotency-key') idempotencyKey?: string,
+  ) {
+    const result = await this.idempotencyService.execute(
+      user.id,
+      idempotencyKey,
+      'wallet.withdraw',
+      dto,
+      () =>
+        this.withdrawalService.initiateWithdrawal(
+          user.id,
+          toMinorUnits(dto.amount),
+          dto.bank_code,
+          dto.account_number,
+          dto.reason,
+        ),
+    );
+    return buildSuccessResponse('Withdrawal initiated', result);
+  }
+
+  @Get()
+  @UseGuards(JwtAuthGuard, ApiKeyGuard)
+  @RequirePermission('read')
+  @ApiBearerAuth()
+  @ApiSecurity('api_key', ['x-api-key'])
+  @ApiOperation({ summary: 'List withdrawals' })
+  @ApiResponse({ status: 200, description: 'Withdrawals retrieved' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  async getWithdrawals(@GetUser() user: AuthenticatedUser) {
+    const result = await this.withdrawalService.getWithdrawals(user.id);
+    return buildSuccessResponse('Withdrawals retrieved', result);
+  }
+
+  @Get(':reference')
+  @UseGuards(JwtAuthGuard, ApiKeyGuard)
+  @RequirePermission('read')
+  @ApiBearerAuth()
+  @ApiSecurity('api_key', ['x-api-key'])
+  @ApiOperation({ summary: 'Get a withdrawal' })
+  @ApiResponse({ status: 200, description: 'Withdrawal retrieved' })
+  @ApiResponse({ status: 404, description: 'Withdrawal not found' })
+  @ApiParam({ name: 'reference', description: 'Withdrawal reference' })
+  async getWithdrawal(
+    @GetUser() user: AuthenticatedUser,
+    @Param('reference') reference: string,
+  ) {
+    const result = await this.withdrawalService.getWithdrawal(
+      user.id,
+      reference,
+    );
+    return buildSuccessResponse('Withdrawal retrieved', result);
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { WithdrawalController } from './withdrawal.controller';
+import { WithdrawalService } from './withdrawal.service';
+import { BankController } from './bank.controller';
+import { BankService } from './bank.service';
+import { LedgerModule } from '../ledger/ledger.module';
+import { PaystackModule } from '../paystack/paystack.module';
+import { IdempotencyModule } from '../idempotency/idempotency.module';
+import { TransactionStateModule } from '../transaction-state/transaction-state.module';
+import { FeesModule } from '../fees/fees.module';
+
+@Module({
+  imports: [
+    LedgerModule,
+    PaystackModule,
+    IdempotencyModule,
+    TransactionStateModule,
+    FeesModule,
+  ],
+  controllers: [WithdrawalController, BankController],
+  providers: [WithdrawalService, BankService],
+  exports: [WithdrawalService, BankService],
+})
+export class WithdrawalModule {}
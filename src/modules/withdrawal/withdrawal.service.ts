@@ -0,0 +1,459 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, PrismaClient } from '@prisma/client';
+import * as crypto from 'crypto';
+import { toMoneyResponse } from '../../common/utils/money';
+import { unknownReference } from '../../common/utils/webhook-result';
+import { LedgerService } from '../ledger/ledger.service';
+import { JOURNAL_TYPES, LEDGER_ACCOUNTS } from '../ledger/ledger.constants';
+import {
+  isPaystackRejection,
+  PaystackService,
+} from '../paystack/paystack.service';
+import {
+  PaystackTransfer,
+  PaystackTransferRecipient,
+} from '../paystack/paystack.types';
+import { TransactionStateService } from '../transaction-state/transaction-state.service';
+import {
+  TRANSITION_SOURCES,
+  TransitionSource,
+} from '../transaction-state/transaction-state.constants';
+import { assertWalletCanDebit } from '../wallet/wallet-status';
+import { FeesService } from '../fees/fees.service';
+import { FEE_OPERATIONS } from '../fees/fees.constants';
+import { BankService } from './bank.service';
+
+type WithdrawalWithRecipient = Prisma.WithdrawalGetPayload<{
+  include: { recipient: true };
+}>;
+
+@Injectable()
+export class WithdrawalService extends PrismaClient {
+  constructor(
+    private ledgerService: LedgerService,
+    private paystackService: PaystackService,
+    private bankService: BankService,
+    private transactionStateService: TransactionStateService,
+    private feesService: FeesService,
+  ) {
+    super();
+  }
+
+  // ==================== WITHDRAWAL OPERATIONS ====================
+
+  // Debit the wallet into a pending withdrawal, then ask Paystack to pay out
+  async initiateWithdrawal(
+    userId: string,
+    amount: bigint,
+    bankCode: string,
+    accountNumber: string,
+    reason?: string,
+  ) {
+    if (amount <= 0n) {
+      throw new BadRequestException('Amount must be greater than zero');
+    }
+
+    const wallet = await this.wallet.findUnique({ where: { userId } });
+
+    if (wallet) {
+      assertWalletCanDebit(wallet);
+    }
+
+    const fee = await this.feesService.getFee(
+      FEE_OPERATIONS.WITHDRAWAL,
+      amount,
+    );
+
+    if (!wallet || wallet.balance - wallet.heldBalance < amount + fee) {
+      throw new BadRequestException('Insufficient balance');
+    }
+
+    const recipient = await this.getOrCreateRecipient(
+      userId,
+      bankCode,
+      accountNumber,
+    );
+
+    // Paystack transfer references: lowercase alphanumerics, 16-50 chars
+    const reference = `wdr_${crypto.randomUUID().replace(/-/g, '')}`;
+
+    await this.$transaction(async (tx: Prisma.TransactionClient) => {
+      const walletAccount = await this.ledgerService.getWalletAccount(
+        tx,
+        wallet.id,
+      );
+      const payouts = await this.ledgerService.getSystemAccount(
+        tx,
+        LEDGER_ACCOUNTS.PAYOUTS_PENDING,
+      );
+
+      // Funds wait in payouts pending until Paystack settles the transfer
+      const journal = await this.ledgerService.post(tx, {
+        reference,
+        type: JOURNAL_TYPES.WITHDRAWAL,
+        description: `Withdrawal to ${recipient.bankCode}/${recipient.accountNumber}`,
+        lines: [
+          { accountId: walletAccount.id, direction: 'debit', amount },
+          { accountId: payouts.id, direction: 'credit', amount },
+        ],
+      });
+
+      await tx.withdrawal.create({
+        data: {
+          userId,
+          recipientId: recipient.id,
+          reference,
+          amount,
+          status: 'pending',
+          reason,
+        },
+      });
+
+      await tx.transaction.create({
+        data: {
+          userId,
+          reference,
+          amount,
+          fee,
+          type: 'withdrawal',
+          status: 'pending',
+          journalId: journal.id,
+          metadata: {
+            bank_code: recipient.bankCode,
+            account_number: recipient.accountNumber,
+            account_name: recipient.accountName,
+          },
+        },
+      });
+
+      await this.feesService.charge(tx, {
+        userId,
+        walletId: wallet.id,
+        operation: FEE_OPERATIONS.WITHDRAWAL,
+        reference,
+        amount: fee,
+      });
+    });
+
+    try {
+      const transfer = await this.paystackService.initiateTransfer({
+        source: 'balance',
+        amount: Number(amount),
+        recipient: recipient.recipientCode,
+        reference,
+        reason: reason ?? 'Wallet withdrawal',
+      });
+
+      // A fast webhook may already have settled it, so only move from pending
+      await this.withdrawal.updateMany({
+        where: { reference, status: 'pending' },
+        data: { status: 'processing', transferCode: transfer.transfer_code },
+      });
+    } catch (error) {
+      if (isPaystackRejection(error)) {
+        // Paystack rejected the transfer outright: give the money back
+        await this.refundWithdrawal(
+          reference,
+          error.response.data?.message ?? 'Transfer rejected by Paystack',
+          'failed',
+          TRANSITION_SOURCES.API,
+        );
+      } else {
+        // Outcome unknown (timeout or 5xx); the transfer webhooks settle it
+        console.error('Error initiating Paystack transfer:', error);
+      }
+    }
+
+    return this.getWithdrawal(userId, reference);
+  }
+
+  // Reuse a saved Paystack recipient or create one for this bank account
+  private async getOrCreateRecipient(
+    userId: string,
+    bankCode: string,
+    accountNumber: string,
+  ) {
+    const existing = await this.transferRecipient.findUnique({
+      where: {
+        userId_bankCode_accountNumber: { userId, bankCode, accountNumber },
+      },
+    });
+
+    if (existing) {
+      return existing;
+    }
+
+    const { account_name: accountName } = await this.bankService.resolveAccount(
+      accountNumber,
+      bankCode,
+    );
+
+    let recipientData: PaystackTransferRecipient;
+    try {
+      recipientData = await this.paystackService.createTransferRecipient({
+        type: 'nuban',
+        name: accountName,
+        account_number: accountNumber,
+        bank_code: bankCode,
+        currency: 'NGN',
+      });
+    } catch {
+      throw new BadRequestException('Failed to create transfer recipient');
+    }
+
+    return this.transferRecipient.create({
+      data: {
+        userId,
+        recipientCode: recipientData.recipient_code,
+        bankCode,
+        bankName: recipientData.details?.bank_name,
+        accountNumber,
+        accountName,
+      },
+    });
+  }
+
+  // ==================== WEBHOOK OPERATIONS ====================
+
+  // Handle Paystack transfer.* webhook events (IDEMPOTENT)
+  async handleTransferEvent(event: string, data: PaystackTransfer) {
+    const { reference } = data;
+
+    const withdrawal = await this.withdrawal.findUnique({
+      where: { reference },
+    });
+
+    if (!withdrawal) {
+      return unknownReference('Withdrawal not found');
+    }
+
+    let applied: boolean;
+    switch (event) {
+      case 'transfer.success':
+        applied = await this.complete(
+          reference,
+          TRANSITION_SOURCES.WEBHOOK,
+          data.transfer_code,
+        );
+        break;
+      case 'transfer.failed':
+        applied = await this.refundWithdrawal(
+          reference,
+          data.reason || 'Transfer failed',
+          'failed',
+          TRANSITION_SOURCES.WEBHOOK,
+        );
+        break;
+      case 'transfer.reversed':
+        applied = await this.refundWithdrawal(
+          reference,
+          data.reason || 'Transfer reversed',
+          'reversed',
+          TRANSITION_SOURCES.WEBHOOK,
+        );
+        break;
+      default:
+        return { status: true, message: 'Event ignored' };
+    }
+
+    return applied
+      ? { status: true }
+      : { status: true, message: 'Already processed' };
+  }
+
+  // Paystack paid out: move the funds from payouts pending to clearing
+  private complete(
+    reference: string,
+    source: TransitionSource,
+    transferCode?: string,
+  ): Promise<boolean> {
+    return this.$transaction(async (tx: Prisma.TransactionClient) => {
+      const claimed = await tx.withdrawal.updateMany({
+        where: { reference, status: { in: ['pending', 'processing'] } },
+        data: {
+          status: 'success',
+          transferCode,
+          completedAt: new Date(),
+        },
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      const withdrawal = await tx.withdrawal.findUniqueOrThrow({
+        where: { reference },
+      });
+      const payouts = await this.ledgerService.getSystemAccount(
+        tx,
+        LEDGER_ACCOUNTS.PAYOUTS_PENDING,
+      );
+      const clearing = await this.ledgerService.getSystemAccount(
+        tx,
+        LEDGER_ACCOUNTS.PAYSTACK_CLEARING,
+      );
+
+      await this.ledgerService.post(tx, {
+        reference: `${reference}_settled`,
+        type: JOURNAL_TYPES.WITHDRAWAL,
+        description: `Withdrawal ${reference} paid out`,
+        lines: [
+          {
+            accountId: payouts.id,
+            direction: 'debit',
+            amount: withdrawal.amount,
+          },
+          {
+            accountId: clearing.id,
+            direction: 'credit',
+            amount: withdrawal.amount,
+          },
+        ],
+      });
+
+      await this.transactionStateService.transition(
+        {
+          where: { reference },
+          from: 'pending',
+          to: 'success',
+          source,
+          data: { completedAt: new Date() },
+        },
+        tx,
+      );
+
+      return true;
+    });
+  }
+
+  // Return a failed or reversed withdrawal, and its fee, to the user's wallet
+  private refundWithdrawal(
+    reference: string,
+    failureReason: string,
+    status: 'failed' | 'reversed',
+    source: TransitionSource,
+  ): Promise<boolean> {
+    return this.$transaction(async (tx: Prisma.TransactionClient) => {
+      const withdrawal = await tx.withdrawal.findUnique({
+        where: { reference },
+      });
+
+      // Only a paid-out transfer can be reversed
+      const refundable =
+        status === 'reversed'
+          ? ['pending', 'processing', 'success']
+          : ['pending', 'processing'];
+
+      if (!withdrawal || !refundable.includes(withdrawal.status)) {
+        return false;
+      }
+
+      const claimed = await tx.withdrawal.updateMany({
+        where: { reference, status: withdrawal.status },
+        data: { status, failureReason, completedAt: new Date() },
+      });
+
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      // Before settlement the money is still in payouts pending; after it,
+      // Paystack returns it through clearing
+      const fundingAccount = await this.ledgerService.getSystemAccount(
+        tx,
+        withdrawal.status === 'success'
+          ? LEDGER_ACCOUNTS.PAYSTACK_CLEARING
+          : LEDGER_ACCOUNTS.PAYOUTS_PENDING,
+      );
+      const wallet = await tx.wallet.findUniqueOrThrow({
+        where: { userId: withdrawal.userId },
+      });
+      const walletAccount = await this.ledgerService.getWalletAccount(
+        tx,
+        wallet.id,
+      );
+
+      await this.ledgerService.post(tx, {
+        reference: `${reference}_refund`,
+        type: JOURNAL_TYPES.REVERSAL,
+        description: `Withdrawal ${reference} ${status}`,
+        metadata: { reason: failureReason },
+        lines: [
+          {
+            accountId: fundingAccount.id,
+            direction: 'debit',
+            amount: withdrawal.amount,
+          },
+          {
+            accountId: walletAccount.id,
+            direction: 'credit',
+            amount: withdrawal.amount,
+          },
+        ],
+      });
+
+      await this.transactionStateService.transition(
+        {
+          where: { reference },
+          from: withdrawal.status === 'success' ? 'success' : 'pending',
+          to: status,
+          source,
+          reason: failureReason,
+          data: { gatewayResponse: failureReason, completedAt: new Date() },
+        },
+        tx,
+      );
+
+      await this.feesService.refundFee(tx, reference, source, failureReason);
+
+      return true;
+    });
+  }
+
+  // ==================== WITHDRAWAL HISTORY ====================
+
+  async getWithdrawals(userId: string) {
+    const withdrawals = await this.withdrawal.findMany({
+      where: { userId },
+      include: { recipient: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return withdrawals.map((withdrawal) => this.toResponse(withdrawal));
+  }
+
+  async getWithdrawal(userId: string, reference: string) {
+    const withdrawal = await this.withdrawal.findFirst({
+      where: { userId, reference },
+      include: { recipient: true },
+    });
+
+    if (!withdrawal) {
+      throw new NotFoundException('Withdrawal not found');
+    }
+
+    return this.toResponse(withdrawal);
+  }
+
+  private toResponse(withdrawal: WithdrawalWithRecipient) {
+    return {
+      reference: withdrawal.reference,
+      status: withdrawal.status,
+      amount: toMoneyResponse(withdrawal.amount),
+      bank: {
+        bank_code: withdrawal.recipient.bankCode,
+        bank_name: withdrawal.recipient.bankName,
+        account_number: withdrawal.recipient.accountNumber,
+        account_name: withdrawal.recipient.accountName,
+      },
+      reason: withdrawal.reason,
+      failure_reason: withdrawal.failureReason,
+      created_at: withdrawal.createdAt,
+      completed_at: withdrawal.completedAt,
+    };
+  }
+}